@@ -22,6 +22,13 @@ export const writeBatch = jest.fn(() => ({
 }));
 export const setDoc = jest.fn();
 export const increment = jest.fn();
+export const runTransaction = jest.fn();
+export const onSnapshot = jest.fn(() => jest.fn());
+export const deleteDoc = jest.fn();
+export const limit = jest.fn();
+export const startAfter = jest.fn();
+export const deleteField = jest.fn();
+export const documentId = jest.fn();
 
 // Helper functions to set mock implementations
 export const mockGetDocImplementation = (implementation: any): void => {
@@ -57,4 +64,11 @@ export const resetMocks = (): void => {
   writeBatch.mockReset();
   setDoc.mockReset();
   increment.mockReset();
+  runTransaction.mockReset();
+  onSnapshot.mockReset();
+  deleteDoc.mockReset();
+  limit.mockReset();
+  startAfter.mockReset();
+  deleteField.mockReset();
+  documentId.mockReset();
 }; 
\ No newline at end of file
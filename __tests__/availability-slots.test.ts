@@ -0,0 +1,34 @@
+import { getSlotTimes, deriveFreeSlots, diffAvailability, groupSlotRanges, HOURS_START, HOURS_END } from '../lib/availability';
+
+describe('availability slot helpers', () => {
+  const monday = { date: new Date(2025, 0, 6), dateKey: '2025-01-06' };
+  const tuesday = { date: new Date(2025, 0, 7), dateKey: '2025-01-07' };
+
+  it('lists every 30-minute slot in the grid window', () => {
+    const times = getSlotTimes();
+    expect(times[0]).toBe(`${HOURS_START.toString().padStart(2, '0')}:00`);
+    expect(times[times.length - 1]).toBe(`${HOURS_END - 1}:30`);
+    expect(times).toHaveLength((HOURS_END - HOURS_START) * 2);
+  });
+
+  it('marks slots free unless a busy interval overlaps them', () => {
+    const availability = deriveFreeSlots([monday, tuesday], [
+      { start: new Date(2025, 0, 6, 9, 30), end: new Date(2025, 0, 6, 10, 20) },
+      { start: new Date(2025, 0, 7, 0, 0), end: new Date(2025, 0, 8, 0, 0) },
+    ]);
+    expect(availability['2025-01-06']).not.toContain('09:30');
+    expect(availability['2025-01-06']).not.toContain('10:00');
+    expect(availability['2025-01-06']).toContain('09:00');
+    expect(availability['2025-01-06']).toContain('10:30');
+    expect(availability['2025-01-07']).toBeUndefined();
+  });
+
+  it('diffs availability per day and groups contiguous slots', () => {
+    const changes = diffAvailability(
+      { '2025-01-06': ['09:00', '09:30'], '2025-01-07': ['12:00'] },
+      { '2025-01-06': ['09:30', '10:00', '10:30'], '2025-01-07': ['12:00'] }
+    );
+    expect(changes).toEqual({ '2025-01-06': { added: ['10:00', '10:30'], removed: ['09:00'] } });
+    expect(groupSlotRanges(['10:30', '09:00', '10:00'])).toEqual(['09:00–09:30', '10:00–11:00']);
+  });
+});
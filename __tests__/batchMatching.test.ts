@@ -0,0 +1,96 @@
+import { alignAvailabilityToWeek, buildCompatibilityGraph, planBatchMatches, MatchCandidate } from '../lib/batchMatching';
+import { getPairKey } from '../lib/seating';
+import { createRandom } from '../lib/random';
+
+const candidate = (uid: string, availability: Record<string, string[]>, favoriteDiningHalls: string[] = []): MatchCandidate =>
+  ({ uid, availability, favoriteDiningHalls });
+
+const scores = (pairs: Record<string, number>) => (userId1: string, userId2: string) =>
+  pairs[getPairKey(userId1, userId2)] ?? 0;
+
+const pairsOf = (matches: { userId1: string; userId2: string }[]) =>
+  matches.map(match => getPairKey(match.userId1, match.userId2)).sort();
+
+describe('batch matching', () => {
+  const lunch = { '2024-05-07': ['12:00', '12:30', '13:00'] };
+
+  it('maximizes total compatibility instead of pairing the best match first', () => {
+    // Pairing a with b first would leave c and d, who can't be matched
+    const people = ['a', 'b', 'c', 'd'].map(uid => candidate(uid, lunch));
+    const priority = scores({
+      [getPairKey('a', 'b')]: 9,
+      [getPairKey('a', 'c')]: 8,
+      [getPairKey('b', 'd')]: 8,
+    });
+    const planned = planBatchMatches(people, priority, { fallbackLocations: ['Commons'], random: createRandom(1) });
+    expect(pairsOf(planned)).toEqual([getPairKey('a', 'c'), getPairKey('b', 'd')].sort());
+  });
+
+  it('never gives anyone more matches than the cap, and never double books them', () => {
+    const people = ['a', 'b', 'c', 'd'].map(uid => candidate(uid, lunch));
+    const priority = scores({
+      [getPairKey('a', 'b')]: 9,
+      [getPairKey('a', 'c')]: 9,
+      [getPairKey('a', 'd')]: 9,
+      [getPairKey('b', 'c')]: 2,
+    });
+    const planned = planBatchMatches(people, priority, { maxMatchesPerUser: 2, fallbackLocations: ['Commons'], random: createRandom(1) });
+    const withA = planned.filter(match => match.userId1 === 'a' || match.userId2 === 'a');
+    expect(withA).toHaveLength(2);
+    const [first, second] = withA.map(match => match.time.getTime()).sort();
+    expect(second - first).toBeGreaterThanOrEqual(60 * 60 * 1000);
+  });
+
+  it('only connects people with a positive score and shared free time', () => {
+    const people = [
+      candidate('a', lunch),
+      candidate('b', { '2024-05-07': ['18:00'] }),
+      candidate('c', lunch),
+    ];
+    const edges = buildCompatibilityGraph(people, scores({ [getPairKey('a', 'b')]: 9, [getPairKey('a', 'c')]: 0 }));
+    expect(edges).toEqual([]);
+  });
+
+  it('schedules the earliest shared slot of the day at a dining hall both like', () => {
+    const people = [
+      candidate('a', { '2024-05-08': ['12:00'], '2024-05-07': ['18:00', '12:30'] }, ['Lakeside', 'Commons']),
+      candidate('b', { '2024-05-07': ['12:30', '18:00'] }, ['Commons']),
+    ];
+    const [match] = planBatchMatches(people, scores({ [getPairKey('a', 'b')]: 5 }), {
+      fallbackLocations: ['Arrillaga'],
+      random: createRandom(7),
+    });
+    expect(match.time).toEqual(new Date(2024, 4, 7, 12, 30));
+    expect(match.location).toBe('Commons');
+  });
+
+  it('counts meals booked before the run towards the cap and keeps their time free', () => {
+    const people = ['a', 'b', 'c'].map(uid => candidate(uid, lunch));
+    const groupMeal = { start: new Date(2024, 4, 7, 12, 0), end: new Date(2024, 4, 7, 13, 0) };
+    const planned = planBatchMatches(people, scores({ [getPairKey('a', 'b')]: 9, [getPairKey('a', 'c')]: 5 }), {
+      maxMatchesPerUser: 2,
+      fallbackLocations: ['Commons'],
+      random: createRandom(1),
+      alreadyBooked: { a: [groupMeal] },
+    });
+    expect(pairsOf(planned)).toEqual([getPairKey('a', 'b')]);
+    expect(planned[0].time).toEqual(new Date(2024, 4, 7, 13, 0));
+  });
+
+  it('makes exactly the same matches again from the same seed', () => {
+    const people = ['a', 'b', 'c', 'd', 'e', 'f'].map(uid =>
+      candidate(uid, { '2024-05-07': ['11:00', '12:00', '13:00'], '2024-05-08': ['18:00'] }, ['Commons', 'Lakeside'])
+    );
+    // Every pair is equally good, so the seed decides everything
+    const plan = (seed: number) =>
+      planBatchMatches(people, () => 5, { fallbackLocations: ['Arrillaga'], random: createRandom(seed) });
+    expect(plan(42)).toEqual(plan(42));
+    expect(plan(42)).toHaveLength(3);
+  });
+
+  it('moves repeating availability onto the matched week', () => {
+    // 2024-04-30 is a Tuesday; the matched week starts Monday 2024-05-06
+    const aligned = alignAvailabilityToWeek({ '2024-04-30': ['12:00'], '2024-05-07': ['12:00', '12:30'] }, new Date(2024, 4, 6));
+    expect(aligned).toEqual({ '2024-05-07': ['12:00', '12:30'] });
+  });
+});
@@ -0,0 +1,42 @@
+import {
+  getWeekStart,
+  getCalendarDays,
+  getCalendarRange,
+  getCalendarWeekStarts,
+  shiftCalendarAnchor,
+  groupByDay,
+  toLocalDateKey,
+} from '../lib/calendarView';
+
+describe('calendar view dates', () => {
+  it('starts weeks on Monday', () => {
+    expect(getWeekStart(new Date(2024, 4, 5, 15, 0))).toEqual(new Date(2024, 3, 29)); // Sunday -> previous Monday
+    expect(getWeekStart(new Date(2024, 4, 6))).toEqual(new Date(2024, 4, 6));
+  });
+
+  it('covers whole weeks around the month', () => {
+    const days = getCalendarDays('month', new Date(2024, 4, 15)); // May 2024 starts on a Wednesday
+    expect(days).toHaveLength(35);
+    expect(days[0]).toEqual(new Date(2024, 3, 29));
+    expect(days[34]).toEqual(new Date(2024, 5, 2));
+    expect(getCalendarWeekStarts('month', new Date(2024, 4, 15))).toHaveLength(5);
+  });
+
+  it('gives an exclusive end for the week range', () => {
+    const { start, end } = getCalendarRange('week', new Date(2024, 4, 8));
+    expect(start).toEqual(new Date(2024, 4, 6));
+    expect(end).toEqual(new Date(2024, 4, 13));
+  });
+
+  it('moves by a week or to the next month', () => {
+    expect(shiftCalendarAnchor('week', new Date(2024, 4, 8), 1)).toEqual(new Date(2024, 4, 15));
+    expect(shiftCalendarAnchor('month', new Date(2024, 0, 31), 1)).toEqual(new Date(2024, 1, 1));
+  });
+
+  it('groups items by local day', () => {
+    const items = [new Date(2024, 4, 6, 9), new Date(2024, 4, 6, 21), new Date(2024, 4, 7, 0, 30)];
+    const groups = groupByDay(items, item => item);
+    expect(groups[toLocalDateKey(new Date(2024, 4, 6))]).toHaveLength(2);
+    expect(groups['2024-05-07']).toHaveLength(1);
+  });
+});
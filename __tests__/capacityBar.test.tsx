@@ -0,0 +1,22 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import CapacityBar from '@/components/CapacityBar';
+
+describe('CapacityBar', () => {
+  it('shows how many spots are taken', () => {
+    render(<CapacityBar filled={3} capacity={8} />);
+    expect(screen.getByText('3 / 8')).toBeInTheDocument();
+    expect(screen.queryByText(/Waitlist/)).not.toBeInTheDocument();
+  });
+
+  it('shows the waitlist length once people are waiting', () => {
+    render(<CapacityBar filled={8} capacity={8} waitlistCount={2} />);
+    expect(screen.getByText('Waitlist: 2')).toBeInTheDocument();
+    expect(screen.queryByText(/You are #/)).not.toBeInTheDocument();
+  });
+
+  it('shows the viewer\'s place on the waitlist', () => {
+    render(<CapacityBar filled={8} capacity={8} waitlistCount={3} waitlistPosition={2} />);
+    expect(screen.getByText('You are #2 of 3')).toBeInTheDocument();
+  });
+});
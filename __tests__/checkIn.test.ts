@@ -0,0 +1,62 @@
+import {
+  getCheckInCode,
+  isValidCheckInCode,
+  isCheckInOpen,
+  summarizeAttendance,
+  getUnmarkedNoShows,
+  CHECK_IN_CODE_LENGTH,
+  CHECK_IN_CODE_PERIOD_MS,
+  EventAttendance,
+} from '../lib/checkIn';
+import type { Timestamp } from 'firebase/firestore';
+
+const at = (date: Date) => ({ toMillis: () => date.getTime(), toDate: () => date }) as Timestamp;
+
+describe('check-in codes', () => {
+  const now = new Date(2024, 4, 1, 18, 0, 30);
+
+  it('produces fixed-length numeric codes that depend on the secret', () => {
+    const code = getCheckInCode('secret', now);
+    expect(code).toMatch(new RegExp(`^\\d{${CHECK_IN_CODE_LENGTH}}$`));
+    expect(getCheckInCode('secret', now)).toBe(code);
+    expect(getCheckInCode('other-secret', now)).not.toBe(code);
+  });
+
+  it('accepts the current and previous code only', () => {
+    const code = getCheckInCode('secret', now);
+    expect(isValidCheckInCode('secret', code, now)).toBe(true);
+    expect(isValidCheckInCode('secret', ` ${code.slice(0, 3)} ${code.slice(3)} `, now)).toBe(true);
+    expect(isValidCheckInCode('secret', code, new Date(now.getTime() + CHECK_IN_CODE_PERIOD_MS))).toBe(true);
+    expect(isValidCheckInCode('secret', code, new Date(now.getTime() + 2 * CHECK_IN_CODE_PERIOD_MS))).toBe(false);
+    expect(isValidCheckInCode('other-secret', code, now)).toBe(false);
+  });
+});
+
+describe('attendance', () => {
+  const event = {
+    start: at(new Date(2024, 4, 1, 18, 0)),
+    end: at(new Date(2024, 4, 1, 19, 0)),
+    participants: ['alice', 'bob'],
+    attendance: { alice: { status: 'attended', recordedAt: at(new Date(2024, 4, 1, 18, 5)) } } as EventAttendance,
+  };
+
+  it('opens check-in shortly before the start and closes it at the end', () => {
+    expect(isCheckInOpen(event, new Date(2024, 4, 1, 17, 50))).toBe(true);
+    expect(isCheckInOpen(event, new Date(2024, 4, 1, 17, 30))).toBe(false);
+    expect(isCheckInOpen(event, new Date(2024, 4, 1, 19, 1))).toBe(false);
+  });
+
+  it('treats participants who never checked in as no-shows once the event ends', () => {
+    expect(summarizeAttendance(event, new Date(2024, 4, 1, 18, 30))).toEqual({
+      attended: ['alice'],
+      noShows: [],
+      notCheckedIn: ['bob'],
+    });
+    expect(summarizeAttendance(event, new Date(2024, 4, 1, 20, 0))).toEqual({
+      attended: ['alice'],
+      noShows: ['bob'],
+      notCheckedIn: [],
+    });
+    expect(getUnmarkedNoShows(event)).toEqual(['bob']);
+  });
+});
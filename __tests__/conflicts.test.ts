@@ -0,0 +1,63 @@
+import { findScheduleConflicts, describeConflicts, removeBusySlots } from '../lib/conflicts';
+import type { EventData, Match } from '../lib/api';
+import type { Timestamp } from 'firebase/firestore';
+
+const at = (date: Date) => ({ toMillis: () => date.getTime(), toDate: () => date }) as Timestamp;
+
+const event = (id: string, startHour: number, endHour: number, extra: Partial<EventData> = {}) =>
+  ({
+    id,
+    name: `Event ${id}`,
+    start: at(new Date(2024, 4, 7, startHour)),
+    end: at(new Date(2024, 4, 7, endHour)),
+    ...extra,
+  }) as EventData;
+
+const meal = (id: string, hour: number, minute = 0) =>
+  ({
+    id,
+    suggestedTime: at(new Date(2024, 4, 7, hour, minute)),
+    matchUser: { uid: 'bob', email: null, displayName: 'Bob' },
+  }) as Match;
+
+describe('schedule conflicts', () => {
+  const interval = { start: new Date(2024, 4, 7, 18), end: new Date(2024, 4, 7, 20) };
+
+  it('finds overlapping events and meals, soonest first', () => {
+    const conflicts = findScheduleConflicts(
+      interval,
+      [event('a', 19, 21), event('b', 20, 21), event('c', 12, 13)],
+      [meal('m', 17, 30), meal('n', 20)]
+    );
+    expect(conflicts.map(conflict => conflict.id)).toEqual(['m', 'a']);
+    expect(conflicts[0]).toMatchObject({ kind: 'meal', title: 'Meal with Bob' });
+  });
+
+  it('ignores the event being joined and cancelled events', () => {
+    const conflicts = findScheduleConflicts(
+      interval,
+      [event('self', 18, 20), event('gone', 18, 19, { cancelled: true })],
+      [],
+      'self'
+    );
+    expect(conflicts).toEqual([]);
+  });
+
+  it('describes every conflict in one sentence', () => {
+    const conflicts = findScheduleConflicts(interval, [event('a', 19, 21)], [meal('m', 18)]);
+    expect(describeConflicts(conflicts)).toBe('This overlaps with Meal with Bob (18:00–19:00) and Event a (19:00–21:00).');
+  });
+
+  it('drops slots where a meal would run into a busy interval', () => {
+    const busy = [{ start: new Date(2024, 4, 7, 12), end: new Date(2024, 4, 7, 13) }];
+    const availability = {
+      '2024-05-07': ['10:30', '11:00', '11:30', '12:30', '13:00'],
+      '2024-05-08': ['12:00'],
+    };
+    expect(removeBusySlots(availability, busy)).toEqual({
+      '2024-05-07': ['10:30', '11:00', '13:00'],
+      '2024-05-08': ['12:00'],
+    });
+    expect(removeBusySlots({ '2024-05-07': ['12:00'] }, busy)).toEqual({});
+  });
+});
@@ -0,0 +1,37 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import type { Timestamp } from 'firebase/firestore';
+import EventCard from '@/components/EventCard';
+import type { EventData } from '@/lib/api';
+
+const at = (date: Date) => ({ toDate: () => date, toMillis: () => date.getTime() }) as Timestamp;
+
+const baseEvent: EventData = {
+  id: 'event-1',
+  name: 'Friday dinner',
+  start: at(new Date(2026, 9, 23, 18, 0)),
+  end: at(new Date(2026, 9, 23, 19, 30)),
+  capacity: 6,
+  rsvps: {},
+  participants: [],
+  waitlist: [],
+  creator: 'host',
+  attendance: {},
+};
+
+describe('EventCard location', () => {
+  it('shows where the event is', () => {
+    render(<EventCard event={{ ...baseEvent, location: { type: 'dining_hall', name: 'Stern Dining' } }} />);
+    expect(screen.getByText('Stern Dining')).toBeInTheDocument();
+  });
+
+  it('marks off-campus spots', () => {
+    render(<EventCard event={{ ...baseEvent, location: { type: 'custom', name: 'Zareen\'s' } }} />);
+    expect(screen.getByText('Zareen\'s (off campus)')).toBeInTheDocument();
+  });
+
+  it('says the location is still to be decided when there is none', () => {
+    render(<EventCard event={baseEvent} />);
+    expect(screen.getByText('Location TBD')).toBeInTheDocument();
+  });
+});
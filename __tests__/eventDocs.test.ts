@@ -0,0 +1,25 @@
+import type { Timestamp } from 'firebase/firestore';
+import { fromWireValue, toWireValue } from '../lib/eventDocs';
+
+const makeTimestamp = (millis: number) => ({ toMillis: () => millis }) as Timestamp;
+
+describe('event wire format', () => {
+  it('sends nested timestamps as milliseconds and turns them back into timestamps', () => {
+    const event = {
+      name: 'Dinner',
+      start: makeTimestamp(1000),
+      rsvps: { alice: { status: 'going', updatedAt: makeTimestamp(2000) } },
+      tags: ['late night'],
+    };
+
+    const wire = JSON.parse(JSON.stringify(toWireValue(event)));
+    expect(wire.start).toEqual({ timestampMillis: 1000 });
+    expect(wire.rsvps.alice.updatedAt).toEqual({ timestampMillis: 2000 });
+
+    const restored = fromWireValue(wire, makeTimestamp) as typeof event;
+    expect(restored.start.toMillis()).toBe(1000);
+    expect(restored.rsvps.alice.updatedAt.toMillis()).toBe(2000);
+    expect(restored.rsvps.alice.status).toBe('going');
+    expect(restored.tags).toEqual(['late night']);
+  });
+});
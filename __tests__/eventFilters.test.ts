@@ -0,0 +1,82 @@
+import {
+  applyEventFilters,
+  parseEventFilters,
+  serializeEventFilters,
+  EMPTY_EVENT_FILTERS,
+} from '../lib/eventFilters';
+import type { EventData } from '../lib/api';
+
+const makeEvent = (overrides: Partial<EventData>): EventData => ({
+  id: 'e1',
+  name: 'Dinner',
+  description: '',
+  tags: [],
+  participants: [],
+  waitlist: [],
+  capacity: 4,
+  creator: 'host',
+  ...overrides,
+} as EventData);
+
+describe('event filter URL encoding', () => {
+  it('round-trips filters through the query string', () => {
+    const filters = {
+      ...EMPTY_EVENT_FILTERS,
+      search: 'taco night',
+      tags: ['vegetarian', 'late night'],
+      from: '2025-01-06',
+      to: '2025-01-12',
+      location: 'Wilbur',
+      includePast: true,
+      openSpots: true,
+      available: true,
+    };
+    const query = serializeEventFilters(filters);
+    expect(parseEventFilters(new URLSearchParams(query))).toEqual(filters);
+  });
+
+  it('omits defaults and ignores unknown tags and malformed dates', () => {
+    expect(serializeEventFilters(EMPTY_EVENT_FILTERS)).toBe('');
+    const filters = parseEventFilters(new URLSearchParams('tags=vegan,bogus&from=yesterday'));
+    expect(filters.tags).toEqual(['vegan']);
+    expect(filters.from).toBeNull();
+  });
+});
+
+describe('applyEventFilters', () => {
+  const context = { friendIds: ['friend'], isAvailable: (event: EventData) => event.id === 'free' };
+
+  it('matches every search term against the name, description and tags', () => {
+    const events = [
+      makeEvent({ id: 'a', name: 'Taco night', description: 'Bring friends' }),
+      makeEvent({ id: 'b', name: 'Study break', tags: ['coffee'] }),
+    ];
+    const search = (text: string) =>
+      applyEventFilters(events, { ...EMPTY_EVENT_FILTERS, search: text }, context).map(event => event.id);
+    expect(search('taco FRIENDS')).toEqual(['a']);
+    expect(search('coffee')).toEqual(['b']);
+    expect(search('taco coffee')).toEqual([]);
+  });
+
+  it('requires all selected tags', () => {
+    const events = [
+      makeEvent({ id: 'a', tags: ['vegetarian', 'late night'] }),
+      makeEvent({ id: 'b', tags: ['vegetarian'] }),
+    ];
+    const result = applyEventFilters(events, { ...EMPTY_EVENT_FILTERS, tags: ['vegetarian', 'late night'] }, context);
+    expect(result.map(event => event.id)).toEqual(['a']);
+  });
+
+  it('filters by open spots, friends attending and availability', () => {
+    const events = [
+      makeEvent({ id: 'full', capacity: 1, participants: ['friend'] }),
+      makeEvent({ id: 'free', participants: ['friend'] }),
+      makeEvent({ id: 'strangers', participants: ['someone'] }),
+    ];
+    const ids = (changes: object) =>
+      applyEventFilters(events, { ...EMPTY_EVENT_FILTERS, ...changes }, context).map(event => event.id);
+    expect(ids({ openSpots: true })).toEqual(['free', 'strangers']);
+    expect(ids({ friendsAttending: true })).toEqual(['full', 'free']);
+    expect(ids({ available: true })).toEqual(['free']);
+  });
+});
@@ -0,0 +1,105 @@
+import type { Timestamp } from 'firebase/firestore';
+import type { GroupMeal, UserProfile } from '../lib/api';
+import { MatchCandidate } from '../lib/batchMatching';
+import {
+  getGroupMealStatus,
+  getGroupQuorum,
+  getSharedContacts,
+  planGroupMeals,
+} from '../lib/groupMatching';
+import { createRandom } from '../lib/random';
+import { getPairKey } from '../lib/seating';
+
+const candidate = (uid: string, availability: Record<string, string[]>, favoriteDiningHalls: string[] = ['Commons']): MatchCandidate =>
+  ({ uid, availability, favoriteDiningHalls });
+
+// Everyone scores `score` with everyone, except the listed pairs
+const scores = (score: number, overrides: Record<string, number> = {}) => (userId1: string, userId2: string) =>
+  overrides[getPairKey(userId1, userId2)] ?? score;
+
+const timestamp = (millis: number) => ({ toMillis: () => millis, toDate: () => new Date(millis) }) as Timestamp;
+
+const profile = (uid: string): UserProfile => ({ uid, email: `${uid}@stanford.edu`, displayName: uid });
+
+describe('group matching', () => {
+  const lunch = { '2024-05-07': ['12:00', '12:30'] };
+
+  it('puts compatible people in groups of at most four', () => {
+    const people = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map(uid => candidate(uid, lunch));
+    const groups = planGroupMeals(people, scores(5), { random: createRandom(1) });
+    const sizes = groups.map(group => group.memberIds.length).sort();
+    expect(sizes).toEqual([3, 4]);
+    expect(new Set(groups.flatMap(group => group.memberIds)).size).toBe(7);
+  });
+
+  it('needs a slot and a dining hall the whole group shares', () => {
+    const [group] = planGroupMeals([
+      candidate('a', { '2024-05-07': ['12:00', '18:00'] }, ['Commons', 'Wilbur']),
+      candidate('b', { '2024-05-07': ['18:00'], '2024-05-08': ['12:00'] }, ['Wilbur', 'Lakeside']),
+      candidate('c', { '2024-05-07': ['17:30', '18:00'] }, ['Wilbur']),
+      candidate('d', { '2024-05-07': ['12:00'] }, ['Wilbur']),
+    ], scores(5), { random: createRandom(1) });
+    expect([...group.memberIds].sort()).toEqual(['a', 'b', 'c']);
+    expect(group.time).toEqual(new Date(2024, 4, 7, 18, 0));
+    expect(group.location).toBe('Wilbur');
+  });
+
+  it('leaves out anyone who has a zero score with a member', () => {
+    const people = ['a', 'b', 'c', 'd'].map(uid => candidate(uid, lunch));
+    const groups = planGroupMeals(people, scores(5, { [getPairKey('a', 'd')]: 0 }), { random: createRandom(1) });
+    expect(groups).toHaveLength(1);
+    expect(groups[0].memberIds).toHaveLength(3);
+    expect(groups[0].memberIds).not.toEqual(expect.arrayContaining(['a', 'd']));
+  });
+
+  it('makes no groups, and draws nothing, with fewer than three people', () => {
+    let draws = 0;
+    const random = () => { draws++; return 0.5; };
+    expect(planGroupMeals([candidate('a', lunch), candidate('b', lunch)], scores(5), { random })).toEqual([]);
+    expect(draws).toBe(0);
+  });
+
+  it('gives the same groups for the same seed', () => {
+    const people = ['a', 'b', 'c', 'd', 'e', 'f'].map(uid => candidate(uid, lunch, ['Commons', 'Wilbur']));
+    const first = planGroupMeals(people, scores(5), { random: createRandom(42) });
+    const second = planGroupMeals(people, scores(5), { random: createRandom(42) });
+    expect(second).toEqual(first);
+  });
+});
+
+describe('group meal acceptance', () => {
+  it('needs everyone by default and never less than two', () => {
+    expect(getGroupQuorum(4)).toBe(4);
+    expect(getGroupQuorum(4, 3)).toBe(3);
+    expect(getGroupQuorum(3, 5)).toBe(3);
+    expect(getGroupQuorum(3, 1)).toBe(2);
+  });
+
+  it('confirms at the quorum and calls it off once the quorum is out of reach', () => {
+    expect(getGroupMealStatus(4, 3, 2, 0)).toBe('pending');
+    expect(getGroupMealStatus(4, 3, 3, 1)).toBe('confirmed');
+    expect(getGroupMealStatus(4, 3, 1, 1)).toBe('pending');
+    expect(getGroupMealStatus(4, 3, 1, 2)).toBe('declined');
+    expect(getGroupMealStatus(3, 3, 2, 1)).toBe('declined');
+  });
+
+  it('shares contacts only among members who accepted a confirmed meal', () => {
+    const meal = {
+      id: 'meal',
+      memberIds: ['a', 'b', 'c', 'd'],
+      members: ['a', 'b', 'c', 'd'].map(profile),
+      suggestedTime: timestamp(0),
+      suggestedLocation: 'Commons',
+      status: 'confirmed',
+      quorum: 3,
+      acceptedBy: { a: timestamp(1), b: timestamp(2), c: timestamp(3) },
+      declinedBy: [],
+      priorityScore: 5,
+      weekKey: '2024-05-06',
+      createdAt: timestamp(0),
+    } as GroupMeal;
+    expect(getSharedContacts(meal, 'a').map(member => member.uid)).toEqual(['b', 'c']);
+    expect(getSharedContacts(meal, 'd')).toEqual([]);
+    expect(getSharedContacts({ ...meal, status: 'pending' }, 'a')).toEqual([]);
+  });
+});
@@ -0,0 +1,30 @@
+import { getEventHosts, isEventHost } from '../lib/hosts';
+import { canViewEvent } from '../lib/visibility';
+import type { EventData } from '../lib/api';
+
+describe('event hosts', () => {
+  it('lists the creator first, then co-hosts without duplicates', () => {
+    expect(getEventHosts({ creator: 'alice' })).toEqual(['alice']);
+    expect(getEventHosts({ creator: 'alice', coHosts: ['bob', 'alice', 'carol'] })).toEqual(['alice', 'bob', 'carol']);
+  });
+
+  it('treats the creator and co-hosts as hosts', () => {
+    const event = { creator: 'alice', coHosts: ['bob'] };
+    expect(isEventHost(event, 'alice')).toBe(true);
+    expect(isEventHost(event, 'bob')).toBe(true);
+    expect(isEventHost(event, 'carol')).toBe(false);
+    expect(isEventHost(event, null)).toBe(false);
+  });
+
+  it('lets co-hosts see events that are otherwise hidden from them', () => {
+    const event = {
+      creator: 'alice',
+      coHosts: ['bob'],
+      participants: [],
+      waitlist: [],
+      visibility: 'invite',
+    } as Pick<EventData, 'creator' | 'coHosts' | 'participants' | 'waitlist' | 'visibility'>;
+    expect(canViewEvent(event, 'bob')).toBe(true);
+    expect(canViewEvent(event, 'carol')).toBe(false);
+  });
+});
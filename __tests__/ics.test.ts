@@ -0,0 +1,180 @@
+import {
+  formatIcsDate,
+  escapeIcsText,
+  foldIcsLine,
+  buildIcsCalendar,
+  eventToIcsEvent,
+  matchToIcsEvent,
+  MATCHED_MEAL_DURATION_MINUTES,
+  parseIcsDate,
+  parseIcsEvents,
+  getIcsBusyIntervals,
+} from '../lib/ics';
+import type { EventData, Match } from '../lib/api';
+
+const timestamp = (date: Date) => ({ toDate: () => date, seconds: Math.floor(date.getTime() / 1000) });
+
+describe('ics formatting', () => {
+  it('formats dates as UTC basic format', () => {
+    expect(formatIcsDate(new Date(Date.UTC(2025, 0, 5, 19, 0, 0)))).toBe('20250105T190000Z');
+  });
+
+  it('escapes special characters in text values', () => {
+    expect(escapeIcsText('Lunch; pizza, salad\\soup\nsee you')).toBe('Lunch\\; pizza\\, salad\\\\soup\\nsee you');
+  });
+
+  it('folds lines longer than 75 octets', () => {
+    const line = `SUMMARY:${'a'.repeat(100)}`;
+    const folded = foldIcsLine(line).split('\r\n');
+    expect(folded[0]).toHaveLength(75);
+    expect(folded[1].startsWith(' ')).toBe(true);
+    expect(folded.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+
+  it('does not split multi-byte characters when folding', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}`;
+    const folded = foldIcsLine(line).split('\r\n');
+    folded.forEach(part => expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75));
+    expect(folded.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+});
+
+describe('buildIcsCalendar', () => {
+  it('wraps events in a VCALENDAR with CRLF line endings', () => {
+    const calendar = buildIcsCalendar([{
+      uid: 'event-1@munch-club',
+      start: new Date(Date.UTC(2025, 0, 5, 19, 0)),
+      end: new Date(Date.UTC(2025, 0, 5, 20, 0)),
+      summary: 'Dinner, again',
+      location: 'Arrillaga',
+    }], 'Munch Club', new Date(Date.UTC(2025, 0, 1)));
+
+    const lines = calendar.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('BEGIN:VEVENT');
+    expect(lines).toContain('UID:event-1@munch-club');
+    expect(lines).toContain('DTSTAMP:20250101T000000Z');
+    expect(lines).toContain('DTSTART:20250105T190000Z');
+    expect(lines).toContain('SUMMARY:Dinner\\, again');
+    expect(lines).toContain('STATUS:CONFIRMED');
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
+
+describe('ics adapters', () => {
+  it('converts an event with its location and link', () => {
+    const start = new Date(Date.UTC(2025, 0, 5, 19, 0));
+    const event = {
+      id: 'abc',
+      name: 'Taco night',
+      start: timestamp(start),
+      end: timestamp(new Date(start.getTime() + 90 * 60 * 1000)),
+      capacity: 6,
+      location: { type: 'custom', name: 'Coupa Cafe' },
+      participants: [],
+      waitlist: [],
+      creator: 'u1',
+      cancelled: true,
+    } as unknown as EventData;
+
+    const icsEvent = eventToIcsEvent(event, 'https://munch.example');
+    expect(icsEvent.uid).toBe('event-abc@munch-club');
+    expect(icsEvent.url).toBe('https://munch.example/events/abc');
+    expect(icsEvent.location).toContain('Coupa Cafe');
+    expect(icsEvent.cancelled).toBe(true);
+  });
+
+  it('converts a matched meal using the default duration', () => {
+    const start = new Date(Date.UTC(2025, 0, 5, 18, 0));
+    const match = {
+      id: 'm1',
+      suggestedTime: timestamp(start),
+      suggestedLocation: 'Wilbur',
+      matchUser: { displayName: 'Sam', surveyData: { phoneNumber: '555-0100' } },
+    } as unknown as Match;
+
+    const icsEvent = matchToIcsEvent(match);
+    expect(icsEvent.summary).toBe('Meal with Sam');
+    expect(icsEvent.location).toBe('Wilbur');
+    expect(icsEvent.description).toContain('555-0100');
+    expect(icsEvent.end.getTime() - icsEvent.start.getTime()).toBe(MATCHED_MEAL_DURATION_MINUTES * 60 * 1000);
+  });
+});
+
+describe('ics parsing', () => {
+  const calendar = (...events: string[][]) =>
+    ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+
+  // Week of Monday 2025-01-06, local time
+  const weekStart = new Date(2025, 0, 6);
+  const weekEnd = new Date(2025, 0, 13);
+
+  it('parses UTC, local and date-only values', () => {
+    expect(parseIcsDate('20250105T190000Z')?.date.getTime()).toBe(Date.UTC(2025, 0, 5, 19));
+    expect(parseIcsDate('20250105T190000')?.date.getTime()).toBe(new Date(2025, 0, 5, 19).getTime());
+    expect(parseIcsDate('20250105')).toEqual({ date: new Date(2025, 0, 5), allDay: true });
+    expect(parseIcsDate('not a date')).toBeNull();
+  });
+
+  it('unfolds lines and ignores nested alarms', () => {
+    const events = parseIcsEvents(calendar([
+      'UID:cs1',
+      'DTSTART;TZID=America/Los_Angeles:20250106T',
+      ' 100000',
+      'DTEND;TZID=America/Los_Angeles:20250106T113000',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT10M',
+      'END:VALARM',
+    ]));
+    expect(events).toHaveLength(1);
+    expect(events[0].start).toEqual(new Date(2025, 0, 6, 10));
+    expect(events[0].end).toEqual(new Date(2025, 0, 6, 11, 30));
+  });
+
+  it('skips cancelled and transparent events', () => {
+    const events = parseIcsEvents(calendar(
+      ['DTSTART:20250106T100000', 'DTEND:20250106T110000', 'STATUS:CANCELLED'],
+      ['DTSTART:20250106T120000', 'DTEND:20250106T130000', 'TRANSP:TRANSPARENT'],
+      ['DTSTART:20250106T140000', 'DURATION:PT1H30M'],
+    ));
+    expect(events).toHaveLength(1);
+    expect(events[0].end).toEqual(new Date(2025, 0, 6, 15, 30));
+  });
+
+  it('expands weekly rules with BYDAY and EXDATE inside the range', () => {
+    const events = parseIcsEvents(calendar([
+      'UID:cs106',
+      'DTSTART:20241230T093000',
+      'DTEND:20241230T102000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR;UNTIL=20250315T000000Z',
+      'EXDATE:20250108T093000',
+    ]));
+    const intervals = getIcsBusyIntervals(events, weekStart, weekEnd);
+    expect(intervals.map(interval => interval.start)).toEqual([
+      new Date(2025, 0, 6, 9, 30),
+      new Date(2025, 0, 10, 9, 30),
+    ]);
+    expect(intervals[0].end).toEqual(new Date(2025, 0, 6, 10, 20));
+  });
+
+  it('honours COUNT, UNTIL and INTERVAL', () => {
+    const count = parseIcsEvents(calendar(['DTSTART:20250101T090000', 'DTEND:20250101T100000', 'RRULE:FREQ=DAILY;COUNT=7']));
+    expect(getIcsBusyIntervals(count, weekStart, weekEnd)).toHaveLength(2); // Jan 6 and 7
+
+    const until = parseIcsEvents(calendar(['DTSTART:20250106T090000', 'DTEND:20250106T100000', 'RRULE:FREQ=DAILY;UNTIL=20250108']));
+    expect(getIcsBusyIntervals(until, weekStart, weekEnd)).toHaveLength(2); // Jan 6 and 7
+
+    const biweekly = parseIcsEvents(calendar(['DTSTART:20241230T090000', 'DTEND:20241230T100000', 'RRULE:FREQ=WEEKLY;INTERVAL=2']));
+    expect(getIcsBusyIntervals(biweekly, weekStart, weekEnd)).toHaveLength(0);
+    expect(getIcsBusyIntervals(biweekly, new Date(2025, 0, 13), new Date(2025, 0, 20))).toHaveLength(1);
+  });
+
+  it('moves occurrences replaced by a RECURRENCE-ID instance', () => {
+    const events = parseIcsEvents(calendar(
+      ['UID:sec', 'DTSTART:20250106T130000', 'DTEND:20250106T140000', 'RRULE:FREQ=WEEKLY'],
+      ['UID:sec', 'RECURRENCE-ID:20250106T130000', 'DTSTART:20250107T150000', 'DTEND:20250107T160000'],
+    ));
+    const intervals = getIcsBusyIntervals(events, weekStart, weekEnd);
+    expect(intervals.map(interval => interval.start)).toEqual([new Date(2025, 0, 7, 15)]);
+  });
+});
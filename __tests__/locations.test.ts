@@ -0,0 +1,16 @@
+import { DINING_HALLS, formatEventLocation } from '../lib/locations';
+
+describe('event locations', () => {
+  it('shows dining halls and venues by name', () => {
+    expect(formatEventLocation({ type: 'dining_hall', name: DINING_HALLS[1] })).toBe('Stern Dining');
+    expect(formatEventLocation({ type: 'venue', name: 'Coho Cafe' })).toBe('Coho Cafe');
+  });
+
+  it('marks free-text locations as off campus', () => {
+    expect(formatEventLocation({ type: 'custom', name: 'Zareen\'s' })).toBe('Zareen\'s (off campus)');
+  });
+
+  it('falls back for events created before locations existed', () => {
+    expect(formatEventLocation(undefined)).toBe('Location TBD');
+  });
+});
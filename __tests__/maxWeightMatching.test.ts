@@ -0,0 +1,61 @@
+import { maxWeightMatching, WeightedEdge } from '../lib/maxWeightMatching';
+
+const totalWeight = (mate: number[], edges: WeightedEdge[]): number =>
+  edges.reduce((sum, [i, j, weight]) => sum + (mate[i] === j ? weight : 0), 0);
+
+// Best total weight by trying every matching, for checking small graphs
+const bruteForceWeight = (edges: WeightedEdge[], used: Set<number> = new Set(), from = 0): number => {
+  let best = 0;
+  for (let k = from; k < edges.length; k++) {
+    const [i, j, weight] = edges[k];
+    if (used.has(i) || used.has(j)) continue;
+    const next = new Set(used).add(i).add(j);
+    best = Math.max(best, weight + bruteForceWeight(edges, next, k + 1));
+  }
+  return best;
+};
+
+describe('maxWeightMatching', () => {
+  it('handles empty graphs', () => {
+    expect(maxWeightMatching(0, [])).toEqual([]);
+    expect(maxWeightMatching(2, [])).toEqual([-1, -1]);
+  });
+
+  it('prefers the heavier combination over the heaviest single edge', () => {
+    // 0-1 is the heaviest edge, but 0-2 plus 1-3 weigh more together
+    const edges: WeightedEdge[] = [[0, 1, 10], [0, 2, 7], [1, 3, 7]];
+    expect(maxWeightMatching(4, edges)).toEqual([2, 3, 0, 1]);
+  });
+
+  it('leaves vertices unmatched when that weighs more', () => {
+    expect(maxWeightMatching(3, [[0, 1, 5], [1, 2, 11]])).toEqual([-1, 2, 1]);
+  });
+
+  it('handles odd cycles (blossoms)', () => {
+    const edges: WeightedEdge[] = [[0, 1, 8], [0, 2, 9], [1, 2, 10], [2, 3, 7], [0, 5, 5], [3, 4, 6]];
+    const mate = maxWeightMatching(6, edges);
+    expect(totalWeight(mate, edges)).toBe(bruteForceWeight(edges));
+  });
+
+  it('matches the brute-force optimum on random graphs', () => {
+    let state = 12345;
+    const random = () => {
+      state = (state * 1103515245 + 12345) % 2147483648;
+      return state / 2147483648;
+    };
+    for (let trial = 0; trial < 150; trial++) {
+      const vertexCount = 2 + Math.floor(random() * 7);
+      const edges: WeightedEdge[] = [];
+      for (let i = 0; i < vertexCount; i++) {
+        for (let j = i + 1; j < vertexCount; j++) {
+          if (random() < 0.6) edges.push([i, j, 1 + Math.floor(random() * 20)]);
+        }
+      }
+      const mate = maxWeightMatching(vertexCount, edges);
+      mate.forEach((partner, v) => {
+        if (partner !== -1) expect(mate[partner]).toBe(v);
+      });
+      expect(totalWeight(mate, edges)).toBe(bruteForceWeight(edges));
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import ParticipantListItem from '@/components/ParticipantListItem';
+import type { UserProfile } from '@/lib/api';
+
+const profile: UserProfile = {
+  uid: 'user-abcdefghijk',
+  email: 'ada@example.edu',
+  displayName: 'Ada Lovelace',
+  photoURL: 'https://example.com/ada.png',
+};
+
+const renderItem = (props: Partial<React.ComponentProps<typeof ParticipantListItem>> = {}) =>
+  render(
+    <ul>
+      <ParticipantListItem uid={profile.uid} profile={profile} isCurrentUser={false} isFriend={false} {...props} />
+    </ul>,
+  );
+
+describe('ParticipantListItem', () => {
+  it('shows the display name and photo', () => {
+    renderItem();
+    expect(screen.getByText('Ada Lovelace')).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Ada Lovelace' })).toHaveAttribute('src', profile.photoURL);
+  });
+
+  it('falls back to the email, then to a shortened UID', () => {
+    const { unmount } = renderItem({ profile: { ...profile, displayName: null } });
+    expect(screen.getByText('ada@example.edu')).toBeInTheDocument();
+    unmount();
+
+    renderItem({ profile: undefined });
+    expect(screen.getByText('user-abc...')).toBeInTheDocument();
+    expect(screen.queryByRole('img')).not.toBeInTheDocument();
+  });
+
+  it('marks friends and hosts', () => {
+    renderItem({ isFriend: true, isHost: true });
+    expect(screen.getByText('Friend')).toBeInTheDocument();
+    expect(screen.getByText('(Host)')).toBeInTheDocument();
+  });
+
+  it('marks the current user without calling them a friend', () => {
+    renderItem({ isCurrentUser: true, isFriend: true });
+    expect(screen.getByText('(You)')).toBeInTheDocument();
+    expect(screen.queryByText('Friend')).not.toBeInTheDocument();
+  });
+
+  it('shows the RSVP note', () => {
+    renderItem({ note: 'Running 5 min late' });
+    expect(screen.getByText('“Running 5 min late”')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,43 @@
+import { createRandom, shuffle, pickOne } from '../lib/random';
+
+describe('seeded randomness', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(123);
+    const b = createRandom(123);
+    const c = createRandom(124);
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+    first.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('shuffles into a permutation without touching the input', () => {
+    const items = [1, 2, 3, 4, 5, 6];
+    const shuffled = shuffle(items, createRandom(9));
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+    expect([...shuffled].sort()).toEqual(items);
+  });
+
+  it('shuffles without favouring any order', () => {
+    // Sorting with a random comparator is visibly biased on three items; Fisher–Yates is not
+    const random = createRandom(2024);
+    const counts: Record<string, number> = {};
+    for (let i = 0; i < 6000; i++) {
+      const key = shuffle(['a', 'b', 'c'], random).join('');
+      counts[key] = (counts[key] ?? 0) + 1;
+    }
+    expect(Object.keys(counts)).toHaveLength(6);
+    Object.values(counts).forEach(count => {
+      expect(count).toBeGreaterThan(850);
+      expect(count).toBeLessThan(1150);
+    });
+  });
+
+  it('picks nothing from an empty list', () => {
+    expect(pickOne([], createRandom(1))).toBeUndefined();
+    expect(pickOne(['only'], createRandom(1))).toBe('only');
+  });
+});
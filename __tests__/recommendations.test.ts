@@ -0,0 +1,80 @@
+import { rankEventRecommendations, scoreEvent, RecommendationContext } from '../lib/recommendations';
+import type { EventData, UserProfile, UserSurveyData } from '../lib/api';
+import type { Timestamp } from 'firebase/firestore';
+
+const at = (millis: number) => ({ toMillis: () => millis, toDate: () => new Date(millis) }) as Timestamp;
+
+const makeEvent = (overrides: Partial<EventData>): EventData => ({
+  id: 'e1',
+  name: 'Dinner',
+  start: at(1000),
+  end: at(2000),
+  participants: [],
+  waitlist: [],
+  capacity: 4,
+  creator: 'host',
+  ...overrides,
+} as EventData);
+
+const survey = (overrides: Partial<UserSurveyData> = {}): UserSurveyData => ({
+  mealTalkPreferences: ['books'],
+  conversationStyle: 'listener',
+  disagreementTolerance: 'high',
+  conversationPace: 'slow',
+  foodPersonality: 'adventurous',
+  companionPetPeeve: 'phones',
+  favoriteDiningHalls: ['Stern Dining'],
+  phoneNumber: '',
+  ...overrides,
+});
+
+const viewer: UserProfile = { uid: 'me', email: null, displayName: 'Me', friends: ['friend'], surveyData: survey() };
+
+const context = (overrides: Partial<RecommendationContext> = {}): RecommendationContext => ({
+  viewer,
+  participantProfiles: {},
+  isAvailable: () => false,
+  ...overrides,
+});
+
+describe('event recommendations', () => {
+  it('explains each signal, strongest first', () => {
+    const event = makeEvent({
+      participants: ['friend'],
+      location: { type: 'dining_hall', name: 'Stern Dining' },
+    });
+    const { reasons } = scoreEvent(event, context({ isAvailable: () => true }));
+    expect(reasons).toEqual(["You're free then", '1 friend going', 'At a dining hall you like', '3 spots left']);
+  });
+
+  it('mentions similar participants only when their surveys line up', () => {
+    const event = makeEvent({ participants: ['twin', 'opposite'] });
+    const similar = scoreEvent(event, context({ participantProfiles: { twin: { ...viewer, uid: 'twin' } } }));
+    expect(similar.reasons).toContain('People like you are going');
+
+    const different = survey({
+      mealTalkPreferences: ['sports'],
+      conversationStyle: 'talker',
+      conversationPace: 'fast',
+      foodPersonality: 'picky',
+      favoriteDiningHalls: ['Wilbur Dining'],
+    });
+    const dissimilar = scoreEvent(event, context({
+      participantProfiles: { opposite: { uid: 'opposite', email: null, displayName: null, surveyData: different } },
+    }));
+    expect(dissimilar.reasons).not.toContain('People like you are going');
+    expect(similar.score).toBeGreaterThan(dissimilar.score);
+  });
+
+  it('ranks by score, then by start time, and skips events the viewer is already part of', () => {
+    const events = [
+      makeEvent({ id: 'later', start: at(5000) }),
+      makeEvent({ id: 'sooner', start: at(3000) }),
+      makeEvent({ id: 'friends', start: at(9000), participants: ['friend'] }),
+      makeEvent({ id: 'mine', creator: 'me' }),
+      makeEvent({ id: 'going', participants: ['me'] }),
+      makeEvent({ id: 'waiting', waitlist: ['me'] }),
+    ];
+    expect(rankEventRecommendations(events, context()).map(({ event }) => event.id)).toEqual(['friends', 'sooner', 'later']);
+  });
+});
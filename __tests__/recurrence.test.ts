@@ -0,0 +1,73 @@
+import { expandRecurrence, validateRecurrenceRule, MAX_OCCURRENCES } from '../lib/recurrence';
+
+describe('expandRecurrence', () => {
+  // Sunday brunch, 11:00 - 12:30
+  const start = new Date(2025, 0, 5, 11, 0);
+  const end = new Date(2025, 0, 5, 12, 30);
+
+  it('repeats weekly for a fixed count, keeping time of day and duration', () => {
+    const occurrences = expandRecurrence(start, end, { frequency: 'weekly', count: 3 });
+
+    expect(occurrences).toHaveLength(3);
+    expect(occurrences.map(o => o.start.getDate())).toEqual([5, 12, 19]);
+    occurrences.forEach(o => {
+      expect(o.start.getDay()).toBe(0);
+      expect(o.start.getHours()).toBe(11);
+      expect(o.end.getTime() - o.start.getTime()).toBe(90 * 60 * 1000);
+    });
+  });
+
+  it('skips every other week for biweekly rules and stops at the until date', () => {
+    const occurrences = expandRecurrence(start, end, {
+      frequency: 'biweekly',
+      until: new Date(2025, 1, 2),
+    });
+
+    expect(occurrences.map(o => o.start.getDate())).toEqual([5, 19, 2]);
+  });
+
+  it('includes the first event plus every selected weekday for custom rules', () => {
+    const occurrences = expandRecurrence(start, end, {
+      frequency: 'custom',
+      daysOfWeek: [2, 4], // Tue, Thu
+      count: 4,
+    });
+
+    expect(occurrences.map(o => o.start.getDay())).toEqual([0, 2, 4, 2]);
+  });
+
+  it('stops after the first event when a custom rule has no days to repeat on', () => {
+    const occurrences = expandRecurrence(start, end, { frequency: 'custom', daysOfWeek: [], count: 3 });
+
+    expect(occurrences.map(o => o.start.getDate())).toEqual([5]);
+  });
+
+  it('never produces more than MAX_OCCURRENCES events', () => {
+    const occurrences = expandRecurrence(start, end, {
+      frequency: 'weekly',
+      until: new Date(2030, 0, 1),
+    });
+
+    expect(occurrences).toHaveLength(MAX_OCCURRENCES);
+  });
+});
+
+describe('validateRecurrenceRule', () => {
+  const start = new Date(2025, 0, 5, 11, 0);
+
+  it('requires an end condition', () => {
+    expect(validateRecurrenceRule({ frequency: 'weekly' }, start)).not.toBeNull();
+  });
+
+  it('requires days for custom rules', () => {
+    expect(validateRecurrenceRule({ frequency: 'custom', count: 2 }, start)).not.toBeNull();
+  });
+
+  it('rejects an until date before the first event', () => {
+    expect(validateRecurrenceRule({ frequency: 'weekly', until: new Date(2025, 0, 1) }, start)).not.toBeNull();
+  });
+
+  it('accepts a valid rule', () => {
+    expect(validateRecurrenceRule({ frequency: 'weekly', count: 4 }, start)).toBeNull();
+  });
+});
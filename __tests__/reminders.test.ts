@@ -0,0 +1,52 @@
+import { planReminders, parseReminderOffsets, formatTimeUntil, getReminderKey, ReminderTarget } from '../lib/reminders';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('reminder planning', () => {
+  const start = new Date(2024, 4, 1, 18, 0);
+  const target: ReminderTarget = {
+    kind: 'event',
+    id: 'e1',
+    userIds: ['alice', 'bob'],
+    startsAt: start,
+    title: 'Taco Tuesday',
+    location: 'Stern Dining',
+  };
+  const offsets = [24 * 60, 60];
+  const clockAt = (hoursBefore: number) => new Date(start.getTime() - hoursBefore * HOUR);
+
+  it('sends nothing before the first offset', () => {
+    expect(planReminders([target], offsets, clockAt(25), new Set())).toEqual([]);
+  });
+
+  it('sends the day-before reminder once it is due', () => {
+    const reminders = planReminders([target], offsets, clockAt(23.5), new Set());
+    expect(reminders.map(r => r.key)).toEqual([
+      getReminderKey('event', 'e1', 'alice', 1440),
+      getReminderKey('event', 'e1', 'bob', 1440),
+    ]);
+    expect(reminders[0].content).toBe('Reminder: Taco Tuesday starts in 24 hours at Stern Dining.');
+  });
+
+  it('skips reminders that were already sent', () => {
+    const sent = new Set([getReminderKey('event', 'e1', 'alice', 1440)]);
+    expect(planReminders([target], offsets, clockAt(23), sent).map(r => r.userId)).toEqual(['bob']);
+  });
+
+  it('sends only the closest reminder when several are due at once', () => {
+    const [reminder] = planReminders([{ ...target, userIds: ['late'] }], offsets, clockAt(0.5), new Set());
+    expect(reminder.key).toBe(getReminderKey('event', 'e1', 'late', 60));
+    expect(reminder.coveredKeys).toEqual([getReminderKey('event', 'e1', 'late', 1440)]);
+    expect(reminder.content).toBe('Reminder: Taco Tuesday starts in 30 minutes at Stern Dining.');
+  });
+
+  it('never reminds about things that already started', () => {
+    expect(planReminders([target], offsets, new Date(start.getTime() + 1), new Set())).toEqual([]);
+  });
+
+  it('reads offsets from configuration, falling back to the defaults', () => {
+    expect(parseReminderOffsets('30, 120,abc,30')).toEqual([120, 30]);
+    expect(parseReminderOffsets(undefined)).toEqual([1440, 60]);
+    expect(formatTimeUntil(HOUR)).toBe('1 hour');
+  });
+});
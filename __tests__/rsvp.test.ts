@@ -0,0 +1,62 @@
+import { applyRsvpChange, getRsvpUserIds, promoteWaitlist, EventRsvps } from '../lib/rsvp';
+import type { Timestamp } from 'firebase/firestore';
+
+// Only toMillis is used by the RSVP helpers
+const at = (millis: number) => ({ toMillis: () => millis }) as Timestamp;
+
+describe('event RSVPs', () => {
+  const rsvps: EventRsvps = {
+    early: { status: 'going', updatedAt: at(1) },
+    late: { status: 'going', updatedAt: at(5) },
+    unsure: { status: 'maybe', updatedAt: at(2) },
+  };
+
+  it('lists users with a status in response order', () => {
+    expect(getRsvpUserIds(rsvps, 'going')).toEqual(['early', 'late']);
+    expect(getRsvpUserIds(rsvps, 'maybe')).toEqual(['unsure']);
+    expect(getRsvpUserIds(rsvps, 'not_going')).toEqual([]);
+  });
+
+  it('counts only going RSVPs against capacity', () => {
+    const now = at(10);
+    const change = applyRsvpChange({ rsvps, waitlist: [], capacity: 3 }, 'newcomer', 'going', now, '  bringing a friend ');
+    expect(change.result).toBe('going');
+    expect(change.rsvps.newcomer).toEqual({ status: 'going', updatedAt: now, note: 'bringing a friend' });
+    expect(change.waitlist).toEqual([]);
+  });
+
+  it('waitlists users who want to go to a full event and keeps their earlier answer', () => {
+    const change = applyRsvpChange({ rsvps, waitlist: [], capacity: 2 }, 'unsure', 'going', at(10));
+    expect(change.result).toBe('waitlisted');
+    expect(change.waitlist).toEqual(['unsure']);
+    expect(change.rsvps.unsure.status).toBe('maybe');
+  });
+
+  it('keeps a going user\'s place when only the note changes', () => {
+    const change = applyRsvpChange({ rsvps, waitlist: [], capacity: 2 }, 'early', 'going', at(10), 'late by 10');
+    expect(change.rsvps.early).toEqual({ status: 'going', updatedAt: rsvps.early.updatedAt, note: 'late by 10' });
+  });
+
+  it('promotes the waitlist when someone stops going', () => {
+    const change = applyRsvpChange({ rsvps, waitlist: ['next', 'after'], capacity: 2 }, 'early', 'not_going', at(10));
+    expect(change.result).toBe('not_going');
+    expect(change.promoted).toEqual(['next']);
+    expect(change.waitlist).toEqual(['after']);
+    expect(getRsvpUserIds(change.rsvps, 'going')).toEqual(['late', 'next']);
+    expect(rsvps.early.status).toBe('going'); // The original records are left untouched
+  });
+
+  it('removes users from the waitlist when they answer maybe', () => {
+    const change = applyRsvpChange({ rsvps, waitlist: ['next'], capacity: 2 }, 'next', 'maybe', at(10));
+    expect(change.waitlist).toEqual([]);
+    expect(change.promoted).toEqual([]);
+    expect(change.rsvps.next.status).toBe('maybe');
+  });
+
+  it('fills spots opened by a capacity increase', () => {
+    const copy = { ...rsvps };
+    const waitlist = ['a', 'b', 'c'];
+    expect(promoteWaitlist(copy, waitlist, 4, at(10))).toEqual(['a', 'b']);
+    expect(waitlist).toEqual(['c']);
+  });
+});
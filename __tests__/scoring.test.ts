@@ -0,0 +1,143 @@
+import type { UserProfile, UserSurveyData } from '../lib/api';
+import {
+  DEFAULT_SCORING_CONFIG,
+  calculateBaselineScore,
+  describeMatchReasons,
+  getBaselineScoreBreakdown,
+  getMatchReasons,
+  normalizeScoringConfig,
+} from '../lib/scoring';
+
+const survey = (overrides: Partial<UserSurveyData> = {}): UserSurveyData => ({
+  mealTalkPreferences: ['Jokes and light banter', 'News, tech, or politics'],
+  conversationStyle: 'I follow their lead and keep it light',
+  disagreementTolerance: 'Fine with respectful disagreement',
+  conversationPace: 'Chill and meandering',
+  foodPersonality: "Adventurous, I'll try anything",
+  companionPetPeeve: 'Be on their phone the whole time',
+  favoriteDiningHalls: ['Wilbur', 'Arrillaga'],
+  phoneNumber: '6505550100',
+  ...overrides,
+});
+
+const profile = (uid: string, surveyData?: UserSurveyData, friends: string[] = []): UserProfile =>
+  ({ uid, email: `${uid}@stanford.edu`, displayName: uid, surveyData, friends });
+
+describe('baseline score breakdown', () => {
+  it('lists the answers two people share', () => {
+    const breakdown = getBaselineScoreBreakdown(
+      profile('a', survey()),
+      profile('b', survey({ mealTalkPreferences: ['Jokes and light banter'], favoriteDiningHalls: ['Arrillaga', 'Lakeside'] }))
+    );
+    expect(breakdown.sharedTopics).toEqual(['Jokes and light banter']);
+    expect(breakdown.sameConversationPace).toBe('Chill and meandering');
+    expect(breakdown.sharedDiningHalls).toEqual(['Arrillaga']);
+    expect(breakdown.score).toBe(7);
+  });
+
+  it('keeps the score between 3 and 7, and 5 without survey answers', () => {
+    expect(calculateBaselineScore(profile('a', survey()), profile('b', survey()))).toBe(7);
+    expect(calculateBaselineScore(profile('a', survey()), profile('b', survey({
+      mealTalkPreferences: ['Deep philosophical questions'],
+      conversationStyle: 'I crack jokes to break the ice',
+      conversationPace: 'Thoughtful and slow',
+      foodPersonality: "I'm picky but polite",
+      favoriteDiningHalls: ['Lakeside'],
+    })))).toBe(3);
+    expect(getBaselineScoreBreakdown(profile('a'), profile('b', survey()))).toEqual({
+      score: 5,
+      sharedTopics: [],
+      sameConversationPace: null,
+      sharedDiningHalls: [],
+    });
+  });
+});
+
+describe('scoring strategies', () => {
+  const talker = profile('a', survey({ conversationStyle: 'I dive right in with personal questions' }));
+  const listener = profile('b', survey({ conversationStyle: 'I mostly listen unless something interests me' }));
+  const otherTalker = profile('c', survey({ conversationStyle: 'I crack jokes to break the ice' }));
+  // Only conversation style counts, so the score is 10 for a perfect fit and 0 for none
+  const styleOnly = (strategy: string) => ({
+    ...DEFAULT_SCORING_CONFIG,
+    strategy,
+    weights: { mealTalkPreferences: 0, conversationStyle: 1, conversationPace: 0, favoriteDiningHalls: 0, foodPersonality: 0 },
+    minScore: 0,
+    maxScore: 10,
+  });
+
+  it('rewards matching conversation styles by default', () => {
+    expect(calculateBaselineScore(talker, listener, styleOnly('similarity'))).toBe(0);
+    expect(calculateBaselineScore(talker, talker, styleOnly('similarity'))).toBe(10);
+  });
+
+  it('pairs talkers with listeners under the complementary strategy', () => {
+    expect(calculateBaselineScore(talker, listener, styleOnly('complementary'))).toBe(10);
+    expect(calculateBaselineScore(talker, otherTalker, styleOnly('complementary'))).toBe(0);
+    const flexible = profile('d', survey({ conversationStyle: 'I follow their lead and keep it light' }));
+    expect(calculateBaselineScore(flexible, listener, styleOnly('complementary'))).toBe(5);
+  });
+
+  it('weights each question by the configured amount', () => {
+    const weighted = getBaselineScoreBreakdown(talker, listener, {
+      ...styleOnly('similarity'),
+      weights: { ...styleOnly('similarity').weights, conversationStyle: 1, conversationPace: 3 },
+    });
+    // Pace matches (3 of 3 points), style doesn't (0 of 1)
+    expect(weighted.score).toBe(8);
+  });
+
+  it('falls back to the defaults for anything stored that is missing or invalid', () => {
+    expect(normalizeScoringConfig(null)).toEqual(DEFAULT_SCORING_CONFIG);
+    expect(normalizeScoringConfig({
+      strategy: 'astrology',
+      weights: { conversationStyle: 5, conversationPace: -1, foodPersonality: 'lots' },
+      minScore: 8,
+      maxScore: 2,
+    })).toEqual({
+      ...DEFAULT_SCORING_CONFIG,
+      weights: { ...DEFAULT_SCORING_CONFIG.weights, conversationStyle: 5 },
+    });
+    expect(normalizeScoringConfig({ strategy: 'complementary', minScore: 0, maxScore: 10 })).toEqual({
+      ...DEFAULT_SCORING_CONFIG,
+      strategy: 'complementary',
+      minScore: 0,
+      maxScore: 10,
+    });
+  });
+});
+
+describe('match reasons', () => {
+  it('adds shared free time and friends in common', () => {
+    const reasons = getMatchReasons(
+      profile('a', survey(), ['c', 'd', 'b']),
+      profile('b', survey({ conversationPace: 'Thoughtful and slow' }), ['d', 'a']),
+      { '2024-05-07': ['12:00', '12:30'], '2024-05-08': ['18:00'] }
+    );
+    expect(reasons.sameConversationPace).toBeNull();
+    expect(reasons.sharedFreeMinutes).toBe(90);
+    expect(reasons.mutualFriendIds).toEqual(['d']);
+  });
+
+  it('describes only the reasons that apply', () => {
+    expect(describeMatchReasons({
+      sharedTopics: ['Jokes and light banter', 'Movies, books, or pop culture'],
+      sameConversationPace: null,
+      sharedDiningHalls: ['Wilbur'],
+      sharedFreeMinutes: 90,
+      mutualFriendIds: ['d'],
+    })).toEqual([
+      'Shared meal-talk topics: Jokes and light banter, Movies, books, or pop culture',
+      'Favorite dining halls in common: Wilbur',
+      '1.5 hours of free time in common this week',
+      '1 friend in common',
+    ]);
+    expect(describeMatchReasons({
+      sharedTopics: [],
+      sameConversationPace: 'Chill and meandering',
+      sharedDiningHalls: [],
+      sharedFreeMinutes: null,
+      mutualFriendIds: [],
+    })).toEqual(['Same conversation pace: Chill and meandering']);
+  });
+});
@@ -0,0 +1,35 @@
+import { assignTables, getTableSizes, getSeatingScore, getPairKey, findUserTable } from '../lib/seating';
+
+describe('event seating', () => {
+  it('balances table sizes', () => {
+    expect(getTableSizes(14, 6)).toEqual([5, 5, 4]);
+    expect(getTableSizes(12, 6)).toEqual([6, 6]);
+    expect(getTableSizes(0, 6)).toEqual([]);
+  });
+
+  it('keeps groups that like each other together', () => {
+    // Two friend groups listed interleaved; mixing them scores nothing
+    const groupA = ['a1', 'a2', 'a3', 'a4'];
+    const groupB = ['b1', 'b2', 'b3', 'b4'];
+    const participants = ['a1', 'b1', 'a2', 'b2', 'a3', 'b3', 'a4', 'b4'];
+    const pairScore = (x: string, y: string) => (x[0] === y[0] ? 10 : 0);
+
+    const tables = assignTables(participants, 4, pairScore);
+    expect(tables.map(table => [...table].sort())).toEqual(expect.arrayContaining([groupA, groupB]));
+    expect(getSeatingScore(tables, pairScore)).toBe(120);
+  });
+
+  it('seats everyone exactly once', () => {
+    const participants = Array.from({ length: 31 }, (_, i) => `user${i}`);
+    const pairScore = (x: string, y: string) => (Number(x.slice(4)) + Number(y.slice(4))) % 7;
+    const tables = assignTables(participants, 6, pairScore);
+    expect(tables.map(table => table.length)).toEqual(getTableSizes(31, 6));
+    expect(tables.flat().sort()).toEqual([...participants].sort());
+    expect(findUserTable({ tables }, 'user0')).toBeGreaterThanOrEqual(0);
+    expect(findUserTable({ tables }, 'stranger')).toBe(-1);
+  });
+
+  it('uses the same key for either order of a pair', () => {
+    expect(getPairKey('b', 'a')).toBe(getPairKey('a', 'b'));
+  });
+});
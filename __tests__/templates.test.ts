@@ -0,0 +1,34 @@
+import { getTemplateFields, sortTemplates, EventTemplate } from '../lib/templates';
+import type { Timestamp } from 'firebase/firestore';
+
+const at = (date: Date) => ({ toMillis: () => date.getTime(), toDate: () => date }) as Timestamp;
+
+describe('event templates', () => {
+  it('keeps everything but the date, filling in defaults', () => {
+    const fields = getTemplateFields({
+      name: 'Taco Tuesday',
+      start: at(new Date(2024, 4, 7, 18, 0)),
+      end: at(new Date(2024, 4, 7, 19, 30)),
+      capacity: 8,
+    });
+    expect(fields).toEqual({
+      name: 'Taco Tuesday',
+      description: '',
+      tags: [],
+      durationMinutes: 90,
+      capacity: 8,
+      location: null,
+      visibility: 'public',
+    });
+  });
+
+  it('lists owned templates before shared ones', () => {
+    const template = (id: string, name: string, ownerId: string) => ({ id, name, ownerId } as EventTemplate);
+    const sorted = sortTemplates([
+      template('1', 'Brunch', 'other'),
+      template('2', 'Study break', 'me'),
+      template('3', 'Coffee', 'me'),
+    ], 'me');
+    expect(sorted.map(t => t.id)).toEqual(['3', '2', '1']);
+  });
+});
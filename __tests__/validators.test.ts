@@ -0,0 +1,41 @@
+import { validateEventFields, getEventValidationError, getCommentValidationError, MAX_COMMENT_LENGTH } from '../lib/validators';
+
+describe('validateEventFields', () => {
+  const validFields = {
+    name: 'Sunday brunch',
+    start: new Date(2025, 0, 5, 11, 0),
+    end: new Date(2025, 0, 5, 12, 30),
+    capacity: 8,
+  };
+
+  it('accepts valid fields', () => {
+    expect(validateEventFields(validFields)).toEqual({});
+    expect(getEventValidationError(validFields)).toBeNull();
+  });
+
+  it('requires a name and a capacity of at least 1', () => {
+    const errors = validateEventFields({ ...validFields, name: '  ', capacity: 0 });
+    expect(errors.name).toBe('Name is required.');
+    expect(errors.capacity).toBe('Capacity must be at least 1.');
+  });
+
+  it('rejects an end time that is not after the start', () => {
+    expect(getEventValidationError({ ...validFields, end: validFields.start })).toBe('End time must be after start time.');
+  });
+
+  it('requires a name for off-campus locations', () => {
+    const errors = validateEventFields({ ...validFields, location: { type: 'custom', name: '' } });
+    expect(errors.location).toBeDefined();
+  });
+});
+
+describe('getCommentValidationError', () => {
+  it('accepts a normal comment', () => {
+    expect(getCommentValidationError('Meet at the door?')).toBeNull();
+  });
+
+  it('rejects empty and overly long comments', () => {
+    expect(getCommentValidationError('   ')).toBe('Comment cannot be empty.');
+    expect(getCommentValidationError('a'.repeat(MAX_COMMENT_LENGTH + 1))).toContain(`${MAX_COMMENT_LENGTH}`);
+  });
+});
@@ -0,0 +1,39 @@
+import { canViewEvent, needsCreatorFriends, buildInviteLink } from '../lib/visibility';
+import type { EventData } from '../lib/api';
+
+describe('event visibility', () => {
+  const baseEvent = {
+    creator: 'host',
+    participants: ['guest'],
+    waitlist: ['waiting'],
+  } as Pick<EventData, 'visibility' | 'creator' | 'participants' | 'waitlist'>;
+
+  it('treats events without a visibility as public', () => {
+    expect(canViewEvent(baseEvent, null)).toBe(true);
+    expect(canViewEvent(baseEvent, 'stranger')).toBe(true);
+  });
+
+  it('limits friends-only events to the creator\'s friends and people on the event', () => {
+    const event = { ...baseEvent, visibility: 'friends' as const };
+    expect(canViewEvent(event, 'friend', ['friend'])).toBe(true);
+    expect(canViewEvent(event, 'stranger', ['friend'])).toBe(false);
+    expect(canViewEvent(event, null, ['friend'])).toBe(false);
+    expect(canViewEvent(event, 'waiting')).toBe(true);
+    expect(needsCreatorFriends(event, 'stranger')).toBe(true);
+    expect(needsCreatorFriends(event, 'host')).toBe(false);
+  });
+
+  it('requires a valid invite for invite-only events', () => {
+    const event = { ...baseEvent, visibility: 'invite' as const };
+    expect(canViewEvent(event, 'stranger')).toBe(false);
+    expect(canViewEvent(event, 'stranger', [], false)).toBe(false);
+    expect(canViewEvent(event, 'stranger', [], true)).toBe(true);
+    expect(canViewEvent({ ...baseEvent, visibility: 'friends' }, 'stranger', [], true)).toBe(false);
+    expect(canViewEvent(event, 'guest')).toBe(true);
+    expect(canViewEvent(event, 'friend', ['friend'])).toBe(false);
+  });
+
+  it('builds invite links with the token in the query string', () => {
+    expect(buildInviteLink('https://munch.example', 'abc', 'secret')).toBe('https://munch.example/events/abc?invite=secret');
+  });
+});
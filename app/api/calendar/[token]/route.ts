@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { getCalendarFeedOwner, getJoinedEvents, getMatchedMeals } from '@/lib/adminApi';
+import { buildIcsCalendar, eventToIcsEvent, matchToIcsEvent } from '@/lib/ics';
+
+// Feeds must always reflect the latest joins and matches
+export const dynamic = 'force-dynamic';
+
+// Subscribable ICS feed of a user's upcoming joined events and matched meals.
+// The token comes from getOrCreateCalendarFeedToken and stands in for the user's login,
+// since calendar apps can't sign in. Everything is read through the Admin SDK, as there is no user
+// for the Firestore rules to check.
+export async function GET(request: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const userId = await getCalendarFeedOwner(params.token);
+    if (!userId) {
+      return new Response('Calendar feed not found', { status: 404 });
+    }
+
+    const now = new Date();
+    const [events, matches] = await Promise.all([
+      getJoinedEvents(userId, now),
+      getMatchedMeals(userId),
+    ]);
+
+    const baseUrl = request.nextUrl.origin;
+    const calendar = buildIcsCalendar([
+      ...events.map(event => eventToIcsEvent(event, baseUrl)),
+      ...matches
+        .filter(match => match.suggestedTime.seconds * 1000 >= now.getTime())
+        .map(matchToIcsEvent),
+    ], 'Munch Club');
+
+    return new Response(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="munch-club.ics"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return new Response('Failed to build calendar feed', { status: 500 });
+  }
+}
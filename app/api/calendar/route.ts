@@ -0,0 +1,17 @@
+import { getOrCreateCalendarFeedToken, getRequestUserId } from '@/lib/adminApi';
+
+// Hands the signed-in user their calendar feed token (see getOrCreateCalendarFeedToken in lib/api.ts).
+// Feed tokens are only readable here, so nobody can look up or list someone else's feed.
+export async function POST(request: Request) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return Response.json({ error: 'You need to be signed in.' }, { status: 401 });
+  }
+
+  try {
+    return Response.json({ token: await getOrCreateCalendarFeedToken(userId) });
+  } catch (error) {
+    console.error('Error issuing calendar feed token:', error);
+    return Response.json({ error: 'Failed to set up calendar feed.' }, { status: 500 });
+  }
+}
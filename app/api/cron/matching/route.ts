@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { runWeeklyMatching, replayMatchingRun } from '@/lib/adminApi';
+import { DEFAULT_MAX_MATCHES_PER_USER } from '@/lib/batchMatching';
+
+// Every run has to look at the current time
+export const dynamic = 'force-dynamic';
+
+// Matches everyone for the current week. Scheduled for Monday mornings through the `crons` entry
+// in vercel.json and protected by CRON_SECRET like the reminder job. Weeks that were already
+// matched are left alone, a run that failed partway is finished from its recorded seed and inputs,
+// and only one invocation works on a week at a time, so a retried or overlapping run is harmless.
+// `?replay=YYYY-MM-DD` instead re-runs that week from its recorded seed and returns the matches
+// and group meals without writing anything.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const replayWeek = request.nextUrl.searchParams.get('replay');
+  if (replayWeek) {
+    try {
+      return Response.json(await replayMatchingRun(replayWeek));
+    } catch (error) {
+      console.error('Error replaying weekly matching:', error);
+      return new Response('Failed to replay weekly matching', { status: 500 });
+    }
+  }
+
+  try {
+    const result = await runWeeklyMatching({
+      maxMatchesPerUser: Number(process.env.MAX_MATCHES_PER_USER) || DEFAULT_MAX_MATCHES_PER_USER,
+      // How many members of a group meal have to accept before it's on; unset means all of them
+      groupQuorum: Number(process.env.GROUP_MEAL_QUORUM) || undefined,
+    });
+    return Response.json(result);
+  } catch (error) {
+    console.error('Error running weekly matching:', error);
+    return new Response('Failed to run weekly matching', { status: 500 });
+  }
+}
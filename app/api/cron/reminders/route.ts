@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { sendDueReminders } from '@/lib/adminApi';
+import { parseReminderOffsets } from '@/lib/reminders';
+import { getConfiguredChannels } from '@/lib/notificationChannels';
+
+// Every run has to look at the current time
+export const dynamic = 'force-dynamic';
+
+// Sends due event and meal reminders. Scheduled through the `crons` entry in vercel.json;
+// Vercel signs cron requests with CRON_SECRET, which keeps anyone else from triggering runs.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const result = await sendDueReminders({
+      offsetsMinutes: parseReminderOffsets(process.env.REMINDER_OFFSETS_MINUTES),
+      channels: getConfiguredChannels(),
+    });
+    return Response.json(result);
+  } catch (error) {
+    console.error('Error running reminder job:', error);
+    return new Response('Failed to send reminders', { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { checkInToEvent, getRequestUserId } from '@/lib/adminApi';
+
+// Checks the signed-in user in to an event with the host's current code (see checkInToEvent in lib/api.ts).
+// Clients can't write their own attendance, so this is the only way to check in.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return Response.json({ error: 'You need to be signed in.' }, { status: 401 });
+  }
+
+  const { code } = await request.json().catch(() => ({}));
+  if (typeof code !== 'string') {
+    return Response.json({ error: 'Enter the code from the host.' }, { status: 400 });
+  }
+
+  try {
+    await checkInToEvent(params.id, userId, code);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('Error checking in to event:', error);
+    return Response.json({ error: error instanceof Error ? error.message : 'Failed to check in' }, { status: 400 });
+  }
+}
@@ -0,0 +1,33 @@
+import { getEventInviteToken, getRequestUserId, openEventInvite } from '@/lib/adminApi';
+import { toWireValue } from '@/lib/eventDocs';
+
+// The invite link token for an invite-only event, for its hosts (see getEventInviteToken in lib/api.ts)
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return Response.json({ error: 'You need to be signed in.' }, { status: 401 });
+  }
+
+  try {
+    return Response.json({ token: await getEventInviteToken(params.id, userId) });
+  } catch (error) {
+    console.error('Error getting invite link:', error);
+    return Response.json({ error: error instanceof Error ? error.message : 'Failed to load the invite link' }, { status: 400 });
+  }
+}
+
+// Opens the event behind an invite link, for anyone holding the token (see openEventInvite in lib/api.ts)
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const { token } = await request.json().catch(() => ({}));
+  if (typeof token !== 'string') {
+    return Response.json({ error: "This invite link isn't valid. Ask the host for a new one." }, { status: 400 });
+  }
+
+  try {
+    const event = await openEventInvite(params.id, token, await getRequestUserId(request));
+    return Response.json({ event: toWireValue(event) });
+  } catch (error) {
+    console.error('Error opening event invite:', error);
+    return Response.json({ error: error instanceof Error ? error.message : 'Failed to open the invite' }, { status: 400 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { getRequestUserId, getVisibleEventPage } from '@/lib/adminApi';
+import { toWireValue } from '@/lib/eventDocs';
+
+// Results depend on who is asking
+export const dynamic = 'force-dynamic';
+
+const parseMillis = (value: string | null): Date | undefined =>
+  value && /^\d+$/.test(value) ? new Date(Number(value)) : undefined;
+
+// One page of the events the viewer may see (see getAllEvents in lib/api.ts). Signing in is
+// optional; anonymous viewers get public events only.
+// Query: `location`, `from` and `to` (start bounds in epoch milliseconds), `pageSize`, `cursor`.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  try {
+    const page = await getVisibleEventPage({
+      viewerId: await getRequestUserId(request),
+      locationName: params.get('location') || undefined,
+      from: parseMillis(params.get('from')),
+      to: parseMillis(params.get('to')),
+      pageSize: Number(params.get('pageSize')) || 1,
+      cursor: params.get('cursor'),
+    });
+    return Response.json(toWireValue(page));
+  } catch (error) {
+    console.error('Error listing events:', error);
+    return Response.json({ error: 'Failed to fetch events' }, { status: 500 });
+  }
+}
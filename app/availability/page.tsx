@@ -7,13 +7,13 @@ import Header from '@/components/Header';
 import AvailabilityGrid from '@/components/AvailabilityGrid';
 import Button from '@/components/Button';
 import Spinner from '@/components/Spinner';
+import CalendarImport from '@/components/CalendarImport';
 import {
   getUserAvailability,
   saveUserAvailability,
-  WeeklyAvailabilityData,
-  getMonday,
-  formatDateKey
+  WeeklyAvailabilityData
 } from '@/lib/api';
+import { getMonday, formatDateKey } from '@/lib/availability';
 
 export default function AvailabilityPage() {
   const router = useRouter();
@@ -91,7 +91,7 @@ export default function AvailabilityPage() {
       setHasChanges(false); // Reset changes state on successful save
       console.log("Availability saved successfully.");
       // Show success message and mention matches are being generated
-      setSuccessMessage("Your availability has been saved! We're generating meal matches based on your schedule.");
+      setSuccessMessage("Your availability has been saved! It'll be used for next Monday's meal matches.");
     } catch (err) {
       console.error("Failed to save availability:", err);
       setError(err instanceof Error ? err.message : "Could not save availability data.");
@@ -100,6 +100,26 @@ export default function AvailabilityPage() {
     }
   };
 
+  // Imported availability replaces the whole week, so save it right away like a manual save
+  const handleApplyImport = async (importedAvailability: Record<string, string[]>) => {
+    if (!user) return;
+    setIsSaving(true);
+    setError(null);
+    setSuccessMessage(null);
+    try {
+      await saveUserAvailability(user.uid, currentWeekDate, importedAvailability, true);
+      setAvailability(importedAvailability);
+      setHasChanges(false);
+      setSuccessMessage("Your availability has been updated from your calendar! It'll be used for next Monday's meal matches.");
+    } catch (err) {
+      console.error("Failed to save imported availability:", err);
+      setError(err instanceof Error ? err.message : "Could not save availability data.");
+      throw err;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   // Render loading state or login prompt
   if (authLoading) {
     return (
@@ -184,12 +204,20 @@ export default function AvailabilityPage() {
               <Spinner />
             </div>
           ) : (
-            <AvailabilityGrid 
-              initialAvailability={availability} 
-              weekDate={currentWeekDate} 
-              onAvailabilityChange={handleAvailabilityChange} 
-              isSaving={isSaving}
-            />
+            <>
+              <CalendarImport
+                currentAvailability={availability}
+                weekDate={currentWeekDate}
+                onApply={handleApplyImport}
+                isSaving={isSaving}
+              />
+              <AvailabilityGrid 
+                initialAvailability={availability} 
+                weekDate={currentWeekDate} 
+                onAvailabilityChange={handleAvailabilityChange} 
+                isSaving={isSaving}
+              />
+            </>
           )}
 
         </div>
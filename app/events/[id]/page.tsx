@@ -1,13 +1,45 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { Timestamp } from 'firebase/firestore';
+import { MapPinIcon } from '@heroicons/react/24/solid';
 import Header from '@/components/Header';
 import CapacityBar from '@/components/CapacityBar';
 import Spinner from '@/components/Spinner';
 import Button from '@/components/Button';
-import { getEventById, joinEvent, leaveEvent, EventData } from '@/lib/api';
+import EventForm, { EventFormData } from '@/components/EventForm';
+import AddToCalendarButton from '@/components/AddToCalendarButton';
+import EventComments from '@/components/EventComments';
+import TagList from '@/components/TagList';
+import ParticipantListItem from '@/components/ParticipantListItem';
+import EventCheckIn from '@/components/EventCheckIn';
+import EventSeating from '@/components/EventSeating';
+import EventHosts from '@/components/EventHosts';
+import { eventToIcsEvent } from '@/lib/ics';
+import {
+  getEventById,
+  setEventRsvp,
+  joinEvent,
+  leaveEvent,
+  updateEvent,
+  updateEventSeries,
+  cancelEvent,
+  cancelEventSeries,
+  getMealLocations,
+  openEventInvite,
+  getEventInviteToken,
+  getUserProfiles,
+  saveEventAsTemplate,
+  getScheduleConflicts,
+  EventData,
+  UserProfile
+} from '@/lib/api';
+import { formatEventLocation } from '@/lib/locations';
+import { EVENT_VISIBILITY_OPTIONS, buildInviteLink, getEventVisibility } from '@/lib/visibility';
+import { getEventHosts, isEventHost } from '@/lib/hosts';
+import { ScheduleConflict, describeConflicts } from '@/lib/conflicts';
+import { RsvpStatus, RSVP_STATUSES, RSVP_STATUS_LABELS, MAX_RSVP_NOTE_LENGTH, getRsvpUserIds } from '@/lib/rsvp';
 import { useAuth } from '@/context/AuthContext';
 
 // Helper function to format Firestore Timestamps (same as in EventCard)
@@ -23,21 +55,27 @@ const formatTimestamp = (timestamp: Timestamp | undefined): string => {
   });
 };
 
-// Helper to truncate user IDs for display
-const truncateUid = (uid: string, length = 8): string => {
-  return uid.length > length ? `${uid.substring(0, length)}...` : uid;
-};
-
 export default function EventDetailPage() {
   const params = useParams();
   const router = useRouter();
   const { user, loading: authLoading } = useAuth();
   const eventId = typeof params.id === 'string' ? params.id : null;
+  const searchParams = useSearchParams();
+  const inviteToken = searchParams.get('invite'); // Present when arriving through an invite link
 
   const [event, setEvent] = useState<EventData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isMutating, setIsMutating] = useState(false); // For Join/Leave actions
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editScope, setEditScope] = useState<'occurrence' | 'series'>('occurrence');
+  const [locationOptions, setLocationOptions] = useState<string[]>([]);
+  const [hostInviteToken, setHostInviteToken] = useState<string | null>(null); // Only loaded for hosts
+  const [inviteCopied, setInviteCopied] = useState(false);
+  const [rsvpNote, setRsvpNote] = useState('');
+  const [profiles, setProfiles] = useState<Record<string, UserProfile>>({});
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
 
   const fetchEventDetails = useCallback(async () => {
     if (!eventId) {
@@ -48,7 +86,8 @@ export default function EventDetailPage() {
     setIsLoading(true);
     setError(null);
     try {
-      const fetchedEvent = await getEventById(eventId);
+      // Private events the viewer can't see fail to load, with a message saying why
+      const fetchedEvent = inviteToken ? await openEventInvite(eventId, inviteToken) : await getEventById(eventId);
       if (!fetchedEvent) {
         setError("Event not found.");
       } else {
@@ -56,27 +95,110 @@ export default function EventDetailPage() {
       }
     } catch (err) {
       console.error("Failed to fetch event details:", err);
+      setEvent(null);
       setError(err instanceof Error ? err.message : "Failed to load event details.");
     } finally {
       setIsLoading(false);
     }
-  }, [eventId]);
+  }, [eventId, user, inviteToken]);
+
+  // Access depends on who is signed in, so wait for auth before loading
+  useEffect(() => {
+    if (!authLoading) {
+      fetchEventDetails();
+    }
+  }, [authLoading, fetchEventDetails]);
+
+  // Resolve everyone on the event, its hosts and the viewer (for their friends list) in one batched lookup
+  useEffect(() => {
+    if (!event) return;
+    const userIds = Array.from(new Set([...Object.keys(event.rsvps), ...getEventHosts(event), ...(user ? [user.uid] : [])]));
+    if (userIds.length === 0) return;
+    let cancelled = false;
+    getUserProfiles(userIds)
+      .then(fetched => {
+        if (!cancelled) setProfiles(fetched);
+      })
+      .catch(err => {
+        // Not fatal: the lists fall back to user IDs
+        console.error("Failed to load participant profiles:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [event, user]);
+
+  // Warn about joined events and matched meals at the same time as this one
+  useEffect(() => {
+    if (!event || !user || event.cancelled) {
+      setConflicts([]);
+      return;
+    }
+    let cancelled = false;
+    getScheduleConflicts(event, user.uid)
+      .then(found => {
+        if (!cancelled) setConflicts(found);
+      })
+      .catch(err => console.error("Failed to check schedule conflicts:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [event, user]);
 
+  // The invite link isn't stored on the event, so hosts of invite-only events load it separately
   useEffect(() => {
-    fetchEventDetails();
-  }, [fetchEventDetails]);
+    if (!event?.id || !user || !isEventHost(event, user.uid) || getEventVisibility(event) !== 'invite' || event.cancelled) {
+      setHostInviteToken(null);
+      return;
+    }
+    let cancelled = false;
+    getEventInviteToken(event.id)
+      .then(token => {
+        if (!cancelled) setHostInviteToken(token);
+      })
+      .catch(err => console.error("Failed to load invite link:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [event, user]);
+
+  // Prefill the note with the user's current RSVP note
+  const currentRsvpNote = (user && event?.rsvps[user.uid]?.note) || '';
+  useEffect(() => {
+    setRsvpNote(currentRsvpNote);
+  }, [currentRsvpNote]);
+
+  // Location choices are only needed once a host opens the edit form
+  useEffect(() => {
+    if (!isEditing) return;
+    getMealLocations()
+      .then(setLocationOptions)
+      .catch(err => console.error("Failed to load locations:", err));
+  }, [isEditing]);
 
-  const handleJoin = async () => {
+  const handleRsvp = async (status: RsvpStatus) => {
     if (!eventId || !event || isMutating || !user) return;
     setIsMutating(true);
     setError(null);
+    setNotice(null);
     try {
-      await joinEvent(eventId, user.uid);
-      // Re-fetch event data to show updated participants and button state
+      if (status === 'going') {
+        // Joining goes ahead even when it clashes with other plans; the clash is pointed out instead
+        const { result, conflicts: joinConflicts } = await joinEvent(eventId, user.uid, { note: rsvpNote });
+        setConflicts(joinConflicts);
+        if (result === 'waitlisted') {
+          setNotice("The event filled up, so you've been added to the waitlist. We'll notify you if a spot opens.");
+        } else if (joinConflicts.length > 0) {
+          setNotice(`You're going. Heads up: ${describeConflicts(joinConflicts)}`);
+        }
+      } else {
+        await setEventRsvp(eventId, user.uid, status, { note: rsvpNote });
+      }
+      // Re-fetch event data to show updated RSVPs and button state
       await fetchEventDetails(); 
     } catch (err) {
-      console.error("Failed to join event:", err);
-      setError(err instanceof Error ? err.message : "Could not join the event.");
+      console.error("Failed to update RSVP:", err);
+      setError(err instanceof Error ? err.message : "Could not update your RSVP.");
     } finally {
       setIsMutating(false);
     }
@@ -86,6 +208,7 @@ export default function EventDetailPage() {
     if (!eventId || !event || isMutating || !user) return;
     setIsMutating(true);
     setError(null);
+    setNotice(null);
     try {
       await leaveEvent(eventId, user.uid);
       // Re-fetch event data
@@ -98,8 +221,93 @@ export default function EventDetailPage() {
     }
   };
 
+  const handleEditSubmit = async ({ name, description, tags, start, end, capacity, location, visibility }: EventFormData) => {
+    if (!eventId || !event || !user) return;
+    setIsMutating(true);
+    setError(null);
+    try {
+      const updates = {
+        name,
+        description,
+        tags,
+        start: Timestamp.fromDate(start),
+        end: Timestamp.fromDate(end),
+        capacity,
+        visibility,
+        ...(location ? { location } : {}), // Firestore rejects undefined fields
+      };
+      if (event.seriesId && editScope === 'series') {
+        await updateEventSeries(eventId, user.uid, updates);
+      } else {
+        await updateEvent(eventId, user.uid, updates);
+      }
+      setIsEditing(false);
+      await fetchEventDetails();
+    } finally {
+      setIsMutating(false);
+    }
+  };
+
+  const handleCancel = async (scope: 'occurrence' | 'series') => {
+    if (!eventId || !event || isMutating || !user) return;
+    const confirmMessage = scope === 'series'
+      ? 'Cancel every upcoming event in this series? All participants will be notified.'
+      : 'Cancel this event? All participants will be notified.';
+    if (!window.confirm(confirmMessage)) return;
+
+    setIsMutating(true);
+    setError(null);
+    try {
+      if (scope === 'series' && event.seriesId) {
+        await cancelEventSeries(eventId, user.uid);
+      } else {
+        await cancelEvent(eventId, user.uid);
+      }
+      await fetchEventDetails();
+    } catch (err) {
+      console.error("Failed to cancel event:", err);
+      setError(err instanceof Error ? err.message : "Could not cancel the event.");
+    } finally {
+      setIsMutating(false);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!eventId || !event || isMutating || !user) return;
+    setIsMutating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await saveEventAsTemplate(eventId, user.uid);
+      setNotice("Saved as a template. Pick it when you add your next event.");
+    } catch (err) {
+      console.error("Failed to save template:", err);
+      setError(err instanceof Error ? err.message : "Could not save the template.");
+    } finally {
+      setIsMutating(false);
+    }
+  };
+
+  const handleCopyInvite = async () => {
+    if (!event?.id || !hostInviteToken) return;
+    try {
+      await navigator.clipboard.writeText(buildInviteLink(window.location.origin, event.id, hostInviteToken));
+      setInviteCopied(true);
+      setTimeout(() => setInviteCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy invite link:", err);
+    }
+  };
+
+  const userRsvp = user && event ? event.rsvps[user.uid] : undefined;
   const isUserParticipant = user && event?.participants.includes(user.uid);
+  const viewerFriends = (user && profiles[user.uid]?.friends) || [];
+  const isHost = !!event && isEventHost(event, user?.uid);
+  // Hosts change the whole series from any occurrence they host
+  const canManageSeries = isHost && !!event?.seriesId;
   const isEventFull = event ? event.participants.length >= event.capacity : false;
+  const waitlistIndex = user && event ? event.waitlist.indexOf(user.uid) : -1;
+  const isUserWaitlisted = waitlistIndex !== -1;
 
   if (authLoading || isLoading) {
     return (
@@ -147,62 +355,233 @@ export default function EventDetailPage() {
                <p><strong>Error:</strong> {error}</p>
              </div>
           )}
+          {notice && (
+             <div className="mb-4 p-3 bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 rounded-md">
+               <p>{notice}</p>
+             </div>
+          )}
+
+          {event.cancelled && (
+             <div className="p-3 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md font-medium text-center">
+               This event has been cancelled.
+             </div>
+          )}
 
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{event.name}</h1>
+          {event.seriesId && (
+            <p className="text-xs font-semibold uppercase tracking-wide text-indigo-600 dark:text-indigo-400">
+              Part of a recurring series{event.seriesDetached ? ' (edited individually)' : ''}
+            </p>
+          )}
           <p className="text-sm font-mono text-gray-600 dark:text-gray-400">
             {formatTimestamp(event.start)} – {formatTimestamp(event.end)}
           </p>
-          <CapacityBar filled={event.participants.length} capacity={event.capacity} />
+          <p className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+            <MapPinIcon className="h-4 w-4 mr-1 text-gray-500 dark:text-gray-400" />
+            {formatEventLocation(event.location)}
+          </p>
+          <TagList tags={event.tags ?? []} />
+          {event.description && (
+            <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{event.description}</p>
+          )}
+          {!event.cancelled && (
+            <AddToCalendarButton
+              getIcsEvent={() => eventToIcsEvent(event, window.location.origin)}
+              filename={`event-${event.id}`}
+            />
+          )}
+          <CapacityBar
+            filled={event.participants.length}
+            capacity={event.capacity}
+            waitlistCount={event.waitlist.length}
+            waitlistPosition={isUserWaitlisted ? waitlistIndex + 1 : null}
+          />
 
-          {/* Join/Leave Buttons - Only show if user is logged in */} 
-          {user && (
-            <>
-              {!isUserParticipant && !isEventFull && (
-                <Button 
-                  onClick={handleJoin} 
-                  disabled={isMutating}
-                  aria-label={`Join event ${event.name}`}
-                >
-                  {isMutating ? <Spinner /> : 'Join Event'}
-                </Button>
+          {/* Event management - hosts only */}
+          {isHost && !event.cancelled && (
+            <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-md space-y-3">
+              <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Manage Event</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Visibility: {EVENT_VISIBILITY_OPTIONS.find(option => option.value === getEventVisibility(event))?.label}
+              </p>
+              {getEventVisibility(event) === 'invite' && hostInviteToken && !isEditing && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    readOnly
+                    value={buildInviteLink(window.location.origin, event.id as string, hostInviteToken)}
+                    aria-label="Invite link"
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                  />
+                  <Button onClick={handleCopyInvite} variant="secondary" size="auto" className="h-10 text-sm">
+                    {inviteCopied ? 'Copied!' : 'Copy Invite Link'}
+                  </Button>
+                </div>
               )}
-              {!isUserParticipant && isEventFull && (
-                 <p className="text-center text-orange-600 dark:text-orange-400 font-medium bg-orange-100 dark:bg-orange-900/30 p-3 rounded-md">Event is full</p>
+              {isEditing ? (
+                <>
+                  {canManageSeries && (
+                    <div className="flex gap-4 text-sm text-gray-700 dark:text-gray-300" role="radiogroup" aria-label="Apply changes to">
+                      <label className="flex items-center gap-1">
+                        <input type="radio" name="editScope" checked={editScope === 'occurrence'} onChange={() => setEditScope('occurrence')} />
+                        This event only
+                      </label>
+                      <label className="flex items-center gap-1">
+                        <input type="radio" name="editScope" checked={editScope === 'series'} onChange={() => setEditScope('series')} />
+                        All upcoming events in the series
+                      </label>
+                    </div>
+                  )}
+                  {canManageSeries && editScope === 'series' && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Series edits apply the new details, time of day and duration; each event keeps its date.
+                    </p>
+                  )}
+                  <EventForm
+                    onSubmit={handleEditSubmit}
+                    isSubmitting={isMutating}
+                    initialValues={{
+                      name: event.name,
+                      description: event.description,
+                      tags: event.tags,
+                      start: event.start.toDate(),
+                      end: event.end.toDate(),
+                      capacity: event.capacity,
+                      location: event.location,
+                      visibility: getEventVisibility(event),
+                    }}
+                    locationOptions={locationOptions}
+                    submitLabel="Save Changes"
+                    allowRecurrence={false}
+                  />
+                  <Button onClick={() => setIsEditing(false)} variant="secondary" disabled={isMutating}>
+                    Discard Changes
+                  </Button>
+                </>
+              ) : (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Button onClick={() => setIsEditing(true)} variant="secondary" size="auto" className="flex-1" disabled={isMutating}>
+                    Edit
+                  </Button>
+                  <Button onClick={handleSaveTemplate} variant="secondary" size="auto" className="flex-1" disabled={isMutating}>
+                    Save as Template
+                  </Button>
+                  <Button onClick={() => handleCancel('occurrence')} variant="secondary" size="auto" className="flex-1 bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/30 dark:text-red-300 dark:hover:bg-red-900/50" disabled={isMutating}>
+                    Cancel This Event
+                  </Button>
+                  {canManageSeries && (
+                    <Button onClick={() => handleCancel('series')} variant="secondary" size="auto" className="flex-1 bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/30 dark:text-red-300 dark:hover:bg-red-900/50" disabled={isMutating}>
+                      Cancel Series
+                    </Button>
+                  )}
+                </div>
               )}
-              {isUserParticipant && (
+            </div>
+          )}
+
+          {/* RSVP - Only show if user is logged in */} 
+          {user && !event.cancelled && (
+            isUserWaitlisted ? (
+              <>
+                <p className="text-center text-orange-600 dark:text-orange-400 font-medium bg-orange-100 dark:bg-orange-900/30 p-3 rounded-md">
+                  You are #{waitlistIndex + 1} of {event.waitlist.length} on the waitlist
+                </p>
                 <Button 
                   onClick={handleLeave} 
                   variant="secondary" 
                   disabled={isMutating}
-                  aria-label={`Leave event ${event.name}`}
+                  aria-label={`Leave the waitlist for ${event.name}`}
                 >
-                  {isMutating ? <Spinner /> : 'Leave Event'}
+                  {isMutating ? <Spinner /> : 'Leave Waitlist'}
                 </Button>
-              )}
-            </>
+              </>
+            ) : (
+              <div className="space-y-2">
+                {!isUserParticipant && isEventFull && (
+                  <p className="text-center text-orange-600 dark:text-orange-400 font-medium bg-orange-100 dark:bg-orange-900/30 p-3 rounded-md">Event is full</p>
+                )}
+                {conflicts.length > 0 && (
+                  <p className="text-sm text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/30 p-3 rounded-md" role="status">
+                    <strong>Schedule conflict:</strong> {describeConflicts(conflicts)}
+                  </p>
+                )}
+                <h2 className="text-sm font-semibold text-gray-800 dark:text-gray-200">Your RSVP</h2>
+                <div className="grid grid-cols-3 gap-2" role="group" aria-label={`RSVP to ${event.name}`}>
+                  {RSVP_STATUSES.map(status => (
+                    <Button
+                      key={status}
+                      onClick={() => handleRsvp(status)}
+                      variant={userRsvp?.status === status ? 'primary' : 'secondary'}
+                      disabled={isMutating}
+                      aria-pressed={userRsvp?.status === status}
+                      className="text-base"
+                    >
+                      {status === 'going' && isEventFull && !isUserParticipant ? 'Join Waitlist' : RSVP_STATUS_LABELS[status]}
+                    </Button>
+                  ))}
+                </div>
+                <input
+                  type="text"
+                  value={rsvpNote}
+                  onChange={(e) => setRsvpNote(e.target.value)}
+                  maxLength={MAX_RSVP_NOTE_LENGTH}
+                  placeholder="Add a note (optional), e.g. running 10 min late"
+                  aria-label="RSVP note"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                  disabled={isMutating}
+                />
+                {userRsvp && rsvpNote.trim() !== (userRsvp.note || '') && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Choose a response above to save your note.</p>
+                )}
+              </div>
+            )
           )}
           {!user && (
             <p className="text-center text-gray-500 dark:text-gray-400 font-medium bg-gray-100 dark:bg-gray-700 p-3 rounded-md">
-              Please sign in to join or leave the event.
+              Please sign in to RSVP to this event.
             </p>
           )}
 
-          {/* Participants List */} 
-          <div>
-            <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2">Participants ({event.participants.length})</h2>
-            {event.participants.length > 0 ? (
-              <ul className="list-disc list-inside space-y-1 text-gray-700 dark:text-gray-300">
-                {event.participants.map((uid) => (
-                  <li key={uid} className="font-mono text-sm">
-                    {truncateUid(uid)}
-                    {user && uid === user.uid && <span className="ml-2 text-xs font-semibold text-indigo-600 dark:text-indigo-400">(You)</span>}
-                  </li>
-                ))}
-              </ul>
-            ) : (
-              <p className="text-sm text-gray-500 dark:text-gray-400">No one has joined yet.</p>
-            )}
-          </div>
+          {user && (
+            <EventCheckIn event={event} user={user} profiles={profiles} onAttendanceChange={fetchEventDetails} />
+          )}
+
+          <EventHosts event={event} user={user} profiles={profiles} onHostsChanged={fetchEventDetails} />
+
+          {/* RSVP lists, grouped by response */} 
+          {RSVP_STATUSES.map(status => {
+            const userIds = getRsvpUserIds(event.rsvps, status);
+            return (
+              <div key={status}>
+                <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2">{RSVP_STATUS_LABELS[status]} ({userIds.length})</h2>
+                {userIds.length > 0 ? (
+                  <ul className="space-y-2">
+                    {userIds.map((uid) => (
+                      <ParticipantListItem
+                        key={uid}
+                        uid={uid}
+                        profile={profiles[uid]}
+                        isCurrentUser={!!user && uid === user.uid}
+                        isFriend={viewerFriends.includes(uid)}
+                        isHost={isEventHost(event, uid)}
+                        note={event.rsvps[uid].note}
+                      />
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {status === 'going' ? 'No one has joined yet.' : 'No one yet.'}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+
+          <EventSeating event={event} user={user} profiles={profiles} onSeated={fetchEventDetails} />
+
+          {/* Discussion thread */}
+          <EventComments event={event} user={user} />
         </div>
       </main>
     </div>
@@ -1,11 +1,13 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { Timestamp } from 'firebase/firestore';
 import Header from '@/components/Header';
-import EventForm from '@/components/EventForm';
-import { addEvent } from '@/lib/api';
+import EventForm, { EventFormData } from '@/components/EventForm';
+import TemplatePicker from '@/components/TemplatePicker';
+import { addEvent, addEventSeries, getMealLocations, getEventTemplates } from '@/lib/api';
+import { EventTemplate } from '@/lib/templates';
 import { useAuth } from '@/context/AuthContext';
 import Spinner from '@/components/Spinner';
 
@@ -14,6 +16,9 @@ export default function AddEventPage() {
   const { user, loading } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [locationOptions, setLocationOptions] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<EventTemplate[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<EventTemplate | null>(null);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -21,7 +26,27 @@ export default function AddEventPage() {
     }
   }, [user, loading, router]);
 
-  const handleFormSubmit = async (formData: { name: string; start: Date; end: Date; capacity: number }) => {
+  // Load campus spots for the location picker; dining halls are always available
+  useEffect(() => {
+    getMealLocations()
+      .then(setLocationOptions)
+      .catch(err => console.error("Failed to load locations:", err));
+  }, []);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!user) return;
+    try {
+      setTemplates(await getEventTemplates(user.uid));
+    } catch (err) {
+      console.error("Failed to load templates:", err);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleFormSubmit = async ({ recurrence, location, ...formData }: EventFormData) => {
     if (!user) {
       setSubmitError("You must be logged in to create an event.");
       return;
@@ -36,8 +61,16 @@ export default function AddEventPage() {
         start: Timestamp.fromDate(formData.start),
         end: Timestamp.fromDate(formData.end),
         creator: user.uid,
+        ...(location ? { location } : {}), // Firestore rejects undefined fields
       };
       
+      if (recurrence) {
+        // Recurring: create the series and land on its first occurrence
+        const { eventIds } = await addEventSeries(eventData, recurrence);
+        router.push(`/events/${eventIds[0]}`);
+        return;
+      }
+
       const newEventId = await addEvent(eventData);
       console.log("Event added with ID:", newEventId);
       router.push(`/events/${newEventId}`);
@@ -67,7 +100,29 @@ export default function AddEventPage() {
               <p><strong>Error:</strong> {submitError}</p>
             </div>
           )}
-          <EventForm onSubmit={handleFormSubmit} isSubmitting={isSubmitting} />
+          <TemplatePicker
+            templates={templates}
+            userId={user.uid}
+            selectedId={selectedTemplate?.id ?? ''}
+            onSelect={setSelectedTemplate}
+            onTemplatesChanged={fetchTemplates}
+          />
+          {/* Remount the form when the template changes so it picks up the new values */}
+          <EventForm
+            key={selectedTemplate?.id ?? 'blank'}
+            onSubmit={handleFormSubmit}
+            isSubmitting={isSubmitting}
+            locationOptions={locationOptions}
+            initialValues={selectedTemplate ? {
+              name: selectedTemplate.name,
+              description: selectedTemplate.description,
+              tags: selectedTemplate.tags,
+              capacity: selectedTemplate.capacity,
+              location: selectedTemplate.location ?? undefined,
+              visibility: selectedTemplate.visibility,
+            } : undefined}
+            defaultDurationMinutes={selectedTemplate?.durationMinutes}
+          />
         </div>
       </main>
     </div>
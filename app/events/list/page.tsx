@@ -1,30 +1,49 @@
 'use client';
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, Suspense } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import Header from '@/components/Header';
 import EventCard from '@/components/EventCard';
 import Spinner from '@/components/Spinner';
+import Button from '@/components/Button';
+import EventCalendar from '@/components/EventCalendar';
 import {
   getAllEvents, 
   getEventsInRange, 
   EventData, 
+  EventCursor,
   getUserAvailability,
-  getMonday, 
   WeeklyAvailabilityData,
-  formatDateKey
+  getMealLocations,
+  getUserProfile,
+  getUserProfiles,
+  getMatchedMeals,
+  UserProfile,
+  Match
 } from '@/lib/api';
+import { DINING_HALLS } from '@/lib/locations';
+import {
+  EVENT_TAGS,
+  EventFilters,
+  EMPTY_EVENT_FILTERS,
+  parseEventFilters,
+  serializeEventFilters,
+  parseDateParam,
+  applyEventFilters,
+  hasClientSideFilters,
+} from '@/lib/eventFilters';
+import { rankEventRecommendations } from '@/lib/recommendations';
+import { CalendarMode, getCalendarRange, getCalendarWeekStarts, shiftCalendarAnchor } from '@/lib/calendarView';
+import { getMonday, formatDateKey } from '@/lib/availability';
 import { useAuth } from '@/context/AuthContext';
 
-// Helper to format Date to date input string
-const formatDateToDateInput = (date: Date | null): string => {
-  if (!date) return '';
-  return date.toISOString().split('T')[0]; // YYYY-MM-DD
-};
+// Calendar views load every event in the shown range up to this many
+const CALENDAR_EVENT_LIMIT = 200;
 
 // Helper to check if an event overlaps with user's availability
 const isUserAvailableForEvent = (
   event: EventData,
-  availabilityData: WeeklyAvailabilityData | null
+  availabilityData: Pick<WeeklyAvailabilityData, 'availability'> | null
 ): boolean => {
   if (!availabilityData || !event.start || !event.end) return false;
 
@@ -61,15 +80,49 @@ const isUserAvailableForEvent = (
   return false; // No overlap found
 };
 
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
 export default function ListEventsPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex items-center justify-center"><Spinner /></div>}>
+      <ListEventsContent />
+    </Suspense>
+  );
+}
+
+function ListEventsContent() {
   const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const [events, setEvents] = useState<EventData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<EventCursor | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [startDate, setStartDate] = useState<Date | null>(null);
-  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [venueOptions, setVenueOptions] = useState<string[]>([]);
+  const [viewerProfile, setViewerProfile] = useState<UserProfile | null>(null);
+  const [participantProfiles, setParticipantProfiles] = useState<Record<string, UserProfile>>({});
+  const [feed, setFeed] = useState<'all' | 'forYou'>('all');
   const [userAvailability, setUserAvailability] = useState<WeeklyAvailabilityData | null>(null);
   const [isLoadingAvailability, setIsLoadingAvailability] = useState(false);
+  const [view, setView] = useState<'list' | CalendarMode>('list');
+  const [calendarAnchor, setCalendarAnchor] = useState(() => new Date());
+  const [calendarEvents, setCalendarEvents] = useState<EventData[]>([]);
+  const [calendarHasMore, setCalendarHasMore] = useState(false);
+  const [calendarAvailability, setCalendarAvailability] = useState<Record<string, string[]>>({});
+  const [matchedMeals, setMatchedMeals] = useState<Match[]>([]);
+  const [isLoadingCalendar, setIsLoadingCalendar] = useState(false);
+
+  // The URL is the source of truth for filters so any filtered view can be shared
+  const filters = useMemo(() => parseEventFilters(new URLSearchParams(searchParams.toString())), [searchParams]);
+  const startDate = useMemo(() => filters.from ? parseDateParam(filters.from) : null, [filters.from]);
+  const endDate = useMemo(() => filters.to ? parseDateParam(filters.to) : null, [filters.to]);
+  const locationFilter = filters.location;
+
+  const updateFilters = (changes: Partial<EventFilters>) => {
+    const query = serializeEventFilters({ ...filters, ...changes });
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
 
   // Determine the week to check based on filters or current date
   const relevantWeekDate = useMemo(() => {
@@ -97,41 +150,81 @@ export default function ListEventsPage() {
       }
   }, [user, fetchAvailabilityForWeek]);
 
+  // The viewer's friends and survey answers, for the "friends attending" filter and recommendations
+  useEffect(() => {
+    if (!user) {
+      setViewerProfile(null);
+      setFeed('all');
+      return;
+    }
+    getUserProfile(user.uid)
+      .then(setViewerProfile)
+      .catch(err => console.error("Failed to load your profile:", err));
+  }, [user]);
+  const friendIds = useMemo(() => viewerProfile?.friends || [], [viewerProfile]);
+
+  // Campus spots for the location filter (dining halls are always listed)
+  useEffect(() => {
+    getMealLocations()
+      .then(locations => setVenueOptions(locations.filter(name => !DINING_HALLS.includes(name))))
+      .catch(err => console.error("Failed to load locations:", err));
+  }, []);
+
+  // Fetch one page of events for the current query filters, starting after `cursor`
+  const fetchEventPage = useCallback(async (cursor: EventCursor | null) => {
+    const queryOptions = {
+      includePast: filters.includePast,
+      cursor,
+      ...(locationFilter ? { locationName: locationFilter } : {}),
+    };
+    if (startDate && endDate) {
+      // Ensure end date includes the whole day
+      const endOfDay = new Date(endDate);
+      endOfDay.setHours(23, 59, 59, 999);
+      return getEventsInRange(startDate, endOfDay, queryOptions);
+    }
+    return getAllEvents(queryOptions);
+  }, [startDate, endDate, locationFilter, filters.includePast, user]);
+
   const fetchEvents = useCallback(async () => {
+    if (authLoading) return; // Visibility depends on who is signed in
     setIsLoading(true);
     setError(null);
     try {
-      let fetchedEvents;
-      if (startDate && endDate) {
-        // Ensure end date includes the whole day
-        const endOfDay = new Date(endDate);
-        endOfDay.setHours(23, 59, 59, 999);
-        fetchedEvents = await getEventsInRange(startDate, endOfDay);
-      } else {
-        fetchedEvents = await getAllEvents();
-      }
-      setEvents(fetchedEvents);
+      const page = await fetchEventPage(null);
+      setEvents(page.events);
+      setNextCursor(page.nextCursor);
     } catch (err) {
       console.error("Failed to fetch events:", err);
       setError(err instanceof Error ? err.message : "Failed to load events.");
     } finally {
       setIsLoading(false);
     }
-  }, [startDate, endDate]);
+  }, [fetchEventPage, authLoading]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchEventPage(nextCursor);
+      setEvents(prev => [...prev, ...page.events]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Failed to load more events:", err);
+      setError(err instanceof Error ? err.message : "Failed to load more events.");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
 
   useEffect(() => {
     fetchEvents();
   }, [fetchEvents]); // Re-fetch when fetchEvents changes (due to date range)
 
-  const handleDateChange = (setter: React.Dispatch<React.SetStateAction<Date | null>>) => 
+  const handleDateChange = (key: 'from' | 'to') => 
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      if (e.target.value) {
-         // Set time to start of day to avoid timezone issues with just date
-        const [year, month, day] = e.target.value.split('-').map(Number);
-        setter(new Date(year, month - 1, day)); 
-      } else {
-        setter(null);
-      }
+      // Date inputs already use YYYY-MM-DD, the same format as the URL
+      updateFilters({ [key]: e.target.value || null });
   };
 
   const handleFilterApply = () => {
@@ -139,11 +232,88 @@ export default function ListEventsPage() {
   };
 
   const handleFilterClear = () => {
-      setStartDate(null);
-      setEndDate(null);
-      // Fetching will be triggered by useEffect due to state change
+      updateFilters({ from: null, to: null });
+      // Fetching will be triggered by useEffect due to the URL change
   };
 
+  const toggleTagFilter = (tag: string) => {
+    updateFilters({
+      tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag],
+    });
+  };
+
+  const visibleEvents = useMemo(() => applyEventFilters(events, filters, {
+    friendIds,
+    isAvailable: (event) => isUserAvailableForEvent(event, userAvailability),
+  }), [events, filters, friendIds, userAvailability]);
+
+  // Calendar views: every event in the shown weeks plus the user's availability for each of them
+  const fetchCalendar = useCallback(async () => {
+    if (view === 'list' || authLoading) return;
+    const { start, end } = getCalendarRange(view, calendarAnchor);
+    setIsLoadingCalendar(true);
+    setError(null);
+    try {
+      const [page, weeks] = await Promise.all([
+        getEventsInRange(start, new Date(end.getTime() - 1), {
+          includePast: true,
+          pageSize: CALENDAR_EVENT_LIMIT,
+          ...(locationFilter ? { locationName: locationFilter } : {}),
+        }),
+        user
+          ? Promise.all(getCalendarWeekStarts(view, calendarAnchor).map(monday => getUserAvailability(user.uid, monday)))
+          : Promise.resolve([]),
+      ]);
+      setCalendarEvents(page.events);
+      setCalendarHasMore(!!page.nextCursor);
+      setCalendarAvailability(Object.assign({}, ...weeks.map(week => week?.availability ?? {})));
+    } catch (err) {
+      console.error("Failed to load calendar:", err);
+      setError(err instanceof Error ? err.message : "Failed to load the calendar.");
+    } finally {
+      setIsLoadingCalendar(false);
+    }
+  }, [view, calendarAnchor, authLoading, user, locationFilter]);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  // Matched meals only change when the user accepts a match, so load them once per sign-in
+  useEffect(() => {
+    if (!user || view === 'list') return;
+    getMatchedMeals(user.uid)
+      .then(setMatchedMeals)
+      .catch(err => console.error("Failed to load matched meals:", err));
+  }, [user, view]);
+
+  const visibleCalendarEvents = useMemo(() => applyEventFilters(calendarEvents, filters, {
+    friendIds,
+    isAvailable: (event) => isUserAvailableForEvent(event, { availability: calendarAvailability }),
+  }), [calendarEvents, filters, friendIds, calendarAvailability]);
+
+  // Participants' survey answers are only needed to rank the "For you" feed
+  useEffect(() => {
+    if (feed !== 'forYou') return;
+    const participantIds = Array.from(new Set(events.flatMap(event => event.participants)));
+    const missingIds = participantIds.filter(uid => !participantProfiles[uid]);
+    if (missingIds.length === 0) return;
+    getUserProfiles(missingIds)
+      .then(fetched => setParticipantProfiles(prev => ({ ...prev, ...fetched })))
+      .catch(err => console.error("Failed to load participant profiles:", err));
+  }, [feed, events, participantProfiles]);
+
+  const recommendations = useMemo(() => {
+    if (feed !== 'forYou' || !viewerProfile) return null;
+    return rankEventRecommendations(visibleEvents, {
+      viewer: viewerProfile,
+      participantProfiles,
+      isAvailable: (event) => isUserAvailableForEvent(event, userAvailability),
+    });
+  }, [feed, viewerProfile, visibleEvents, participantProfiles, userAvailability]);
+
+  const hasActiveFilters = serializeEventFilters(filters) !== serializeEventFilters(EMPTY_EVENT_FILTERS);
+
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-gray-900">
       <Header title="Events List" showBackButton={true} />
@@ -151,15 +321,15 @@ export default function ListEventsPage() {
         <div className="max-w-[640px] mx-auto">
           {/* Basic Date Range Picker */}
           <div className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg shadow">
-            <h2 className="text-lg font-semibold mb-2 text-gray-800 dark:text-gray-200">Filter by Date</h2>
+            <h2 className="text-lg font-semibold mb-2 text-gray-800 dark:text-gray-200">Filter Events</h2>
             <div className="flex flex-col sm:flex-row sm:items-end gap-4">
               <div className="flex-1">
                 <label htmlFor="startDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Start Date</label>
                 <input 
                   type="date" 
                   id="startDate"
-                  value={formatDateToDateInput(startDate)}
-                  onChange={handleDateChange(setStartDate)}
+                  value={filters.from ?? ''}
+                  onChange={handleDateChange('from')}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
                 />
               </div>
@@ -168,9 +338,9 @@ export default function ListEventsPage() {
                 <input 
                   type="date" 
                   id="endDate"
-                  value={formatDateToDateInput(endDate)}
-                  onChange={handleDateChange(setEndDate)}
-                  min={formatDateToDateInput(startDate)} // Prevent end date before start date
+                  value={filters.to ?? ''}
+                  onChange={handleDateChange('to')}
+                  min={filters.from ?? undefined} // Prevent end date before start date
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
                   disabled={!startDate} // Disable if start date is not set
                 />
@@ -193,36 +363,233 @@ export default function ListEventsPage() {
               </div>
             </div>
             {startDate && !endDate && <p className="text-sm text-yellow-600 mt-2">Please select an end date to apply filter.</p>}
-          </div>
-
-          {/* Combined Loading State */} 
-          {isLoading || (user && isLoadingAvailability) ? ( // Show spinner if loading events OR availability
-            <div className="flex justify-center items-center h-40">
-              <Spinner />
-              {(isLoadingAvailability && !isLoading) && <p className="ml-2 text-sm text-gray-500">Loading availability...</p>} 
+            <div className="mt-4">
+              <label htmlFor="locationFilter" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Location</label>
+              <select
+                id="locationFilter"
+                value={locationFilter}
+                onChange={(e) => updateFilters({ location: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+                disabled={isLoading}
+              >
+                <option value="">Anywhere</option>
+                <optgroup label="Dining halls">
+                  {DINING_HALLS.map(hall => <option key={hall} value={hall}>{hall}</option>)}
+                </optgroup>
+                {venueOptions.length > 0 && (
+                  <optgroup label="Campus spots">
+                    {venueOptions.map(name => <option key={name} value={name}>{name}</option>)}
+                  </optgroup>
+                )}
+              </select>
             </div>
-          ) : error ? (
-            <div className="text-center text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30 p-4 rounded-md">
-              <p><strong>Error:</strong> {error}</p>
+            <div className="mt-4">
+              <label htmlFor="eventSearch" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Search</label>
+              <input
+                type="search"
+                id="eventSearch"
+                placeholder="Search names and descriptions"
+                value={filters.search}
+                onChange={(e) => updateFilters({ search: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+              />
             </div>
-          ) : events.length > 0 ? (
-            <div className="space-y-4">
-              {events.map((event) => {
-                // Determine availability for this specific event
-                const isAvailable = user ? isUserAvailableForEvent(event, userAvailability) : false;
-                return event.id ? (
-                  <EventCard 
-                    key={event.id} 
-                    event={event} 
-                    isUserAvailable={isAvailable} // Pass availability flag
-                  /> 
-                ) : null;
-              })}
+            <div className="mt-4">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tags</span>
+              <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by tag">
+                {EVENT_TAGS.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => toggleTagFilter(tag)}
+                    aria-pressed={filters.tags.includes(tag)}
+                    className={`px-3 py-1 rounded-full text-sm border ${filters.tags.includes(tag) ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'}`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
             </div>
-          ) : (
-            <div className="text-center text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
-              <p>No events found{startDate && endDate ? ' for the selected date range' : ''}.</p>
+            <div className="mt-4 flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-700 dark:text-gray-300">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={filters.includePast}
+                  onChange={(e) => updateFilters({ includePast: e.target.checked })}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                />
+                Show past events
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={filters.openSpots}
+                  onChange={(e) => updateFilters({ openSpots: e.target.checked })}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                />
+                Has open spots
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={filters.friendsAttending}
+                  onChange={(e) => updateFilters({ friendsAttending: e.target.checked })}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  disabled={!user}
+                />
+                Friends attending
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={filters.available}
+                  onChange={(e) => updateFilters({ available: e.target.checked })}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  disabled={!user}
+                />
+                I&apos;m available
+              </label>
             </div>
+            {hasActiveFilters && (
+              <button
+                type="button"
+                onClick={() => router.replace(pathname, { scroll: false })}
+                className="mt-4 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+              >
+                Reset all filters
+              </button>
+            )}
+          </div>
+
+          {/* List or calendar */}
+          <div className="mb-4 grid grid-cols-3 gap-2" role="tablist" aria-label="Events view">
+            {([['list', 'List'], ['week', 'Week'], ['month', 'Month']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                role="tab"
+                aria-selected={view === value}
+                onClick={() => setView(value)}
+                className={`py-2 rounded-md text-sm font-medium ${view === value ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 shadow'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {view !== 'list' ? (
+            isLoadingCalendar ? (
+              <div className="flex justify-center items-center h-40">
+                <Spinner />
+              </div>
+            ) : error ? (
+              <div className="text-center text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30 p-4 rounded-md">
+                <p><strong>Error:</strong> {error}</p>
+              </div>
+            ) : (
+              <>
+                <EventCalendar
+                  mode={view}
+                  anchor={calendarAnchor}
+                  onNavigate={(direction) => setCalendarAnchor(prev => shiftCalendarAnchor(view, prev, direction))}
+                  onToday={() => setCalendarAnchor(new Date())}
+                  events={visibleCalendarEvents}
+                  meals={matchedMeals}
+                  getFreeSlots={(date) => calendarAvailability[formatDateKey(date)] || []}
+                  isAvailable={(event) => isUserAvailableForEvent(event, { availability: calendarAvailability })}
+                />
+                {calendarHasMore && (
+                  <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                    Showing the first {CALENDAR_EVENT_LIMIT} events. Narrow the filters to see the rest.
+                  </p>
+                )}
+                {!user && (
+                  <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">Sign in to see your availability and matched meals here.</p>
+                )}
+              </>
+            )
+          ) : (
+            <>
+              {/* Feed switcher - recommendations need a signed-in viewer */}
+              {user && (
+                <div className="mb-4 grid grid-cols-2 gap-2" role="tablist" aria-label="Event feed">
+                  {([['all', 'All events'], ['forYou', 'For you']] as const).map(([value, label]) => (
+                    <button
+                      key={value}
+                      type="button"
+                      role="tab"
+                      aria-selected={feed === value}
+                      onClick={() => setFeed(value)}
+                      className={`py-2 rounded-md text-sm font-medium ${feed === value ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 shadow'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Combined Loading State */} 
+              {isLoading || (user && isLoadingAvailability) ? ( // Show spinner if loading events OR availability
+                <div className="flex justify-center items-center h-40">
+                  <Spinner />
+                  {(isLoadingAvailability && !isLoading) && <p className="ml-2 text-sm text-gray-500">Loading availability...</p>} 
+                </div>
+              ) : error ? (
+                <div className="text-center text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30 p-4 rounded-md">
+                  <p><strong>Error:</strong> {error}</p>
+                </div>
+              ) : recommendations ? (
+                recommendations.length > 0 ? (
+                  <div className="space-y-4">
+                    {recommendations.map(({ event, reasons }) => event.id ? (
+                      <EventCard
+                        key={event.id}
+                        event={event}
+                        isUserAvailable={isUserAvailableForEvent(event, userAvailability)}
+                        explanation={reasons.slice(0, 3).join(' · ') || undefined}
+                        viewerId={user?.uid}
+                      />
+                    ) : null)}
+                  </div>
+                ) : (
+                  <div className="text-center text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
+                    <p>No recommendations yet. Events you haven&apos;t joined will show up here.</p>
+                  </div>
+                )
+              ) : visibleEvents.length > 0 ? (
+                <div className="space-y-4">
+                  {visibleEvents.map((event) => {
+                    // Determine availability for this specific event
+                    const isAvailable = user ? isUserAvailableForEvent(event, userAvailability) : false;
+                    return event.id ? (
+                      <EventCard 
+                        key={event.id} 
+                        event={event} 
+                        isUserAvailable={isAvailable} // Pass availability flag
+                        viewerId={user?.uid}
+                      /> 
+                    ) : null;
+                  })}
+                </div>
+              ) : (
+                <div className="text-center text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
+                  <p>
+                    {events.length > 0 && hasClientSideFilters(filters)
+                      ? 'No events match your filters.'
+                      : `No events found${startDate && endDate ? ' for the selected date range' : ''}${locationFilter ? ` at ${locationFilter}` : ''}.`}
+                  </p>
+                </div>
+              )}
+
+              {/* Pagination - filters may hide some of a page, so offer more even when nothing matched yet */}
+              {!isLoading && !error && nextCursor && (
+                <div className="mt-4 flex justify-center">
+                  <Button onClick={handleLoadMore} variant="secondary" size="auto" disabled={isLoadingMore}>
+                    {isLoadingMore ? <Spinner size="sm" /> : 'Load More'}
+                  </Button>
+                </div>
+              )}
+            </>
           )}
         </div>
       </main>
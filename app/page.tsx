@@ -6,7 +6,12 @@ import Button from '@/components/Button';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
 import Spinner from '@/components/Spinner';
-import { getUserProfile, UserProfile, findPotentialMatches, acceptMatch, declineMatch, Match, hasCompletedSurvey } from '@/lib/api';
+import AddToCalendarButton from '@/components/AddToCalendarButton';
+import CalendarFeedLink from '@/components/CalendarFeedLink';
+import GroupMealCard from '@/components/GroupMealCard';
+import { matchToIcsEvent } from '@/lib/ics';
+import { describeMatchReasons } from '@/lib/scoring';
+import { getUserProfile, UserProfile, findPotentialMatches, acceptMatch, declineMatch, Match, hasCompletedSurvey, getGroupMeals, GroupMeal } from '@/lib/api';
 import { UserCircleIcon, CheckIcon, XMarkIcon, PhoneIcon } from '@heroicons/react/24/solid';
 
 export default function DashboardPage() {
@@ -15,6 +20,7 @@ export default function DashboardPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [matches, setMatches] = useState<Match[]>([]);
+  const [groupMeals, setGroupMeals] = useState<GroupMeal[]>([]);
   const [currentProfile, setCurrentProfile] = useState<UserProfile | null>(null);
   const [processingMatchId, setProcessingMatchId] = useState<string | null>(null);
   const [showPhoneModal, setShowPhoneModal] = useState(false);
@@ -22,6 +28,7 @@ export default function DashboardPage() {
   const [matchedUser, setMatchedUser] = useState<string | null>(null);
   const [matchedLocation, setMatchedLocation] = useState<string | null>(null);
   const [matchedDate, setMatchedDate] = useState<string | null>(null);
+  const [matchedMeal, setMatchedMeal] = useState<Match | null>(null);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
 
@@ -81,8 +88,12 @@ export default function DashboardPage() {
     setError(null);
     
     try {
-      const potentialMatches = await findPotentialMatches(user.uid);
+      const [potentialMatches, userGroupMeals] = await Promise.all([
+        findPotentialMatches(user.uid),
+        getGroupMeals(user.uid),
+      ]);
       setMatches(potentialMatches);
+      setGroupMeals(userGroupMeals);
     } catch (err) {
       console.error("Error refreshing matches:", err);
       setError(err instanceof Error ? err.message : "Could not refresh matches. Please try again.");
@@ -104,6 +115,7 @@ export default function DashboardPage() {
         setMatchedUser(matchUserName || 'your match');
         setMatchedLocation(location);
         setMatchedDate(dateTime.toLocaleDateString() + ' at ' + dateTime.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}));
+        setMatchedMeal(matches.find(match => match.id === matchId) || null);
         setShowPhoneModal(true);
       } else {
         // Show a success message that the match was accepted
@@ -133,6 +145,17 @@ export default function DashboardPage() {
     }
   };
 
+  // Group meals change as other members answer, so re-read them rather than patching one locally
+  const handleGroupMealResponse = async () => {
+    if (!user) return;
+    try {
+      setGroupMeals(await getGroupMeals(user.uid));
+    } catch (err) {
+      console.error("Error refreshing group meals:", err);
+      setError(err instanceof Error ? err.message : "Could not refresh group meals. Please try again.");
+    }
+  };
+
   const handleDeclineMatch = async (matchId: string) => {
     if (!user) return;
     
@@ -254,6 +277,7 @@ export default function DashboardPage() {
               >
                 Update Preferences
               </Button>
+              <CalendarFeedLink />
             </div>
 
             <div className="flex justify-between items-center mb-6">
@@ -284,11 +308,20 @@ export default function DashboardPage() {
               </div>
             )}
 
-            {matches.length === 0 && !isLoading && (
+            {groupMeals.map(groupMeal => (
+              <GroupMealCard
+                key={groupMeal.id}
+                groupMeal={groupMeal}
+                viewerId={user.uid}
+                onResponded={handleGroupMealResponse}
+              />
+            ))}
+
+            {matches.length === 0 && groupMeals.length === 0 && !isLoading && (
               <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow mb-4 text-center">
                 <p className="text-gray-600 dark:text-gray-400 mb-4">
                   No meal matches available right now. 
-                  Click "Refresh Matches" or update your availability to find more matches!
+                  New matches are made every Monday, so keep your availability up to date!
                 </p>
                 <Button 
                   onClick={() => router.push('/availability')}
@@ -302,6 +335,7 @@ export default function DashboardPage() {
             {matches.map(match => {
               const matchDateTime = new Date(match.suggestedTime.seconds * 1000);
               const mutualFavorite = isMutualFavorite(match);
+              const matchReasons = match.reasons ? describeMatchReasons(match.reasons) : [];
 
               const currentUserAcceptedThisMatch = !!(user && match.acceptedBy && match.acceptedBy[user.uid]);
               
@@ -389,10 +423,29 @@ export default function DashboardPage() {
                     </div>
                   )}
 
+                  {matchReasons.length > 0 && (
+                    <div className="text-sm mb-3 p-3 rounded-md bg-indigo-50 dark:bg-indigo-900/20">
+                      <p className="font-medium text-indigo-800 dark:text-indigo-200 mb-1">Why you were matched</p>
+                      <ul className="list-disc list-inside text-gray-700 dark:text-gray-300 space-y-0.5">
+                        {matchReasons.map(reason => (
+                          <li key={reason}>{reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   {statusText && (
                     <p className="text-sm text-gray-600 dark:text-gray-400 mt-2 mb-3 whitespace-pre-wrap">{statusText}</p>
                   )}
 
+                  {match.status === 'matched' && (
+                    <AddToCalendarButton
+                      getIcsEvent={() => matchToIcsEvent(match)}
+                      filename={`munch-${match.id}`}
+                      className="mb-3"
+                    />
+                  )}
+
                   {(showActionButtons) && (
                     <div className="flex space-x-3">
                       <Button
@@ -434,7 +487,14 @@ export default function DashboardPage() {
               <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
                 Contact them at: <strong className="text-gray-900 dark:text-white">{matchedPhoneNumber}</strong>
               </p>
-              <div className="mt-4">
+              <div className="mt-4 space-y-2">
+                {matchedMeal && (
+                  <AddToCalendarButton
+                    getIcsEvent={() => matchToIcsEvent(matchedMeal)}
+                    filename={`munch-${matchedMeal.id}`}
+                    className="w-full"
+                  />
+                )}
                 <Button onClick={() => setShowPhoneModal(false)}>
                   Got it!
                 </Button>
@@ -7,6 +7,7 @@ import Header from '@/components/Header';
 import Button from '@/components/Button';
 import Spinner from '@/components/Spinner';
 import { saveUserSurvey, hasCompletedSurvey, getUserProfile, UserSurveyData } from '@/lib/api';
+import { DINING_HALLS } from '@/lib/locations';
 
 // Survey questions and options
 const surveyQuestions = [
@@ -86,16 +87,7 @@ const surveyQuestions = [
     question: 'What are your favorite Stanford dining halls?',
     description: 'Select all that apply:',
     type: 'checkbox',
-    options: [
-      'Arrillaga Family Dining Commons',
-      'Stern Dining',
-      'Wilbur Dining',
-      'Lakeside Dining',
-      'Florence Moore (FloMo)',
-      'Gerhard Casper Dining Commons',
-      'Ricker Dining',
-      'Branner Dining'
-    ]
+    options: DINING_HALLS
   },
   {
     id: 'phoneNumber',
@@ -119,6 +111,7 @@ export default function Survey() {
   const [error, setError] = useState<string | null>(null);
   const [nonStanfordEmail, setNonStanfordEmail] = useState(false);
   const [isUpdatingExistingSurvey, setIsUpdatingExistingSurvey] = useState(false);
+  const [groupMeals, setGroupMeals] = useState(false);
 
   // Initialize survey responses
   const [surveyResponses, setSurveyResponses] = useState<{
@@ -154,10 +147,12 @@ export default function Survey() {
           const userProfile = await getUserProfile(user.uid);
           if (userProfile?.surveyData) {
             // Populate the form with existing data
+            const { groupMeals: savedGroupMeals, ...savedResponses } = userProfile.surveyData;
             setSurveyResponses(prev => ({
               ...prev,
-              ...userProfile.surveyData
+              ...savedResponses
             }));
+            setGroupMeals(!!savedGroupMeals);
             setIsUpdatingExistingSurvey(true);
           }
           setIsLoading(false);
@@ -274,7 +269,8 @@ export default function Survey() {
         companionPetPeeve: surveyResponses.companionPetPeeve as string,
         favoriteDiningHalls: surveyResponses.favoriteDiningHalls as string[],
         phoneNumber: surveyResponses.phoneNumber as string,
-        friendEmails: surveyResponses.friendEmails ? (surveyResponses.friendEmails as string).split(',').map(email => email.trim()).filter(email => email.endsWith('@stanford.edu')) : []
+        friendEmails: surveyResponses.friendEmails ? (surveyResponses.friendEmails as string).split(',').map(email => email.trim()).filter(email => email.endsWith('@stanford.edu')) : [],
+        groupMeals
       };
       
       await saveUserSurvey(user.uid, surveyData);
@@ -390,6 +386,25 @@ export default function Survey() {
                 </div>
               </div>
             ))}
+
+            <div className="py-4">
+              <div className="flex items-start">
+                <input
+                  type="checkbox"
+                  id="groupMeals"
+                  name="groupMeals"
+                  checked={groupMeals}
+                  onChange={(e) => setGroupMeals(e.target.checked)}
+                  className="mt-1 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                />
+                <label htmlFor="groupMeals" className="ml-3 block text-gray-700 dark:text-gray-300">
+                  <span className="font-semibold text-gray-900 dark:text-white">Match me into small group meals too</span>
+                  <span className="block text-sm text-gray-600 dark:text-gray-400">
+                    Groups of 3–4 people who are free at the same time and like the same dining hall.
+                  </span>
+                </label>
+              </div>
+            </div>
             
             <div className="pt-4">
               <Button
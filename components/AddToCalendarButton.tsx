@@ -0,0 +1,45 @@
+'use client';
+
+import React from 'react';
+import { CalendarDaysIcon } from '@heroicons/react/24/solid';
+import Button from './Button';
+import { buildIcsCalendar, IcsEvent } from '@/lib/ics';
+
+interface AddToCalendarButtonProps {
+  // Called on click so links can use window.location.origin
+  getIcsEvent: () => IcsEvent;
+  filename: string; // Without the .ics extension
+  className?: string;
+}
+
+const AddToCalendarButton: React.FC<AddToCalendarButtonProps> = ({ getIcsEvent, filename, className }) => {
+  const handleDownload = () => {
+    const icsEvent = getIcsEvent();
+    const calendar = buildIcsCalendar([icsEvent], icsEvent.summary);
+    const blob = new Blob([calendar], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filename}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Button
+      type="button"
+      onClick={handleDownload}
+      variant="secondary"
+      size="auto"
+      className={`text-sm ${className || ''}`}
+      aria-label="Download calendar file"
+    >
+      <CalendarDaysIcon className="w-4 h-4 mr-1" /> Add to Calendar
+    </Button>
+  );
+};
+
+export default AddToCalendarButton;
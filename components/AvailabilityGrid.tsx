@@ -1,14 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { getMonday, formatDateKey } from '@/lib/api'; // Import helpers
-
-// --- Configuration --- 
-const HOURS_START = 6; // 6 AM
-const HOURS_END = 22; // 10 PM (exclusive, so last slot is 21:30)
-const TIME_SLOT_MINUTES = 30;
-const DAYS_IN_WEEK = 7;
-// ---------------------
+import { HOURS_START, HOURS_END, TIME_SLOT_MINUTES, DAYS_IN_WEEK, getMonday, formatDateKey } from '@/lib/availability';
 
 interface TimeSlot {
   time: string; // "HH:MM" (military time for data storage)
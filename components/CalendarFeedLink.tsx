@@ -0,0 +1,75 @@
+'use client';
+
+import React, { useState } from 'react';
+import Button from './Button';
+import Spinner from './Spinner';
+import { getOrCreateCalendarFeedToken } from '@/lib/api';
+
+// Lets a user subscribe to their joined events and matched meals from any calendar app
+const CalendarFeedLink: React.FC = () => {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGetLink = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = await getOrCreateCalendarFeedToken();
+      setFeedUrl(`${window.location.origin}/api/calendar/${token}`);
+    } catch (err) {
+      console.error("Failed to get calendar feed link:", err);
+      setError(err instanceof Error ? err.message : "Could not create a calendar link.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy calendar link:", err);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Calendar Feed</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+        Subscribe in Google Calendar, Apple Calendar or Outlook to see your upcoming events and meals automatically.
+      </p>
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mb-2">{error}</p>}
+      {feedUrl ? (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            readOnly
+            value={feedUrl}
+            aria-label="Calendar feed URL"
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-0 px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+          />
+          <Button onClick={handleCopy} variant="secondary" size="auto" className="h-10 text-sm">
+            {copied ? 'Copied!' : 'Copy'}
+          </Button>
+        </div>
+      ) : (
+        <Button onClick={handleGetLink} variant="secondary" disabled={isLoading} className="h-10 text-sm">
+          {isLoading ? <Spinner size="sm" /> : 'Get Calendar Link'}
+        </Button>
+      )}
+      {feedUrl && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Keep this link private — anyone with it can see your schedule.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CalendarFeedLink;
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowUpTrayIcon } from '@heroicons/react/24/solid';
+import Button from './Button';
+import Spinner from './Spinner';
+import {
+  AvailabilityDay,
+  DAYS_IN_WEEK,
+  DayAvailabilityChange,
+  deriveFreeSlots,
+  diffAvailability,
+  formatDateKey,
+  getMonday,
+  groupSlotRanges,
+} from '@/lib/availability';
+import { parseIcsEvents, getIcsBusyIntervals } from '@/lib/ics';
+
+interface CalendarImportProps {
+  currentAvailability: Record<string, string[]>;
+  weekDate: Date; // Any date within the week shown in the grid
+  onApply: (newAvailability: Record<string, string[]>) => Promise<void>;
+  isSaving: boolean;
+}
+
+interface ImportPreview {
+  fileName: string;
+  eventCount: number;
+  availability: Record<string, string[]>;
+  changes: Record<string, DayAvailabilityChange>;
+}
+
+// Same day keys as AvailabilityGrid so imported slots line up with the grid
+const getWeekDays = (weekDate: Date): AvailabilityDay[] => {
+  const monday = getMonday(weekDate);
+  const days: AvailabilityDay[] = [];
+  for (let i = 0; i < DAYS_IN_WEEK; i++) {
+    const dayDate = new Date(monday);
+    dayDate.setDate(monday.getDate() + i);
+    days.push({ date: dayDate, dateKey: formatDateKey(dayDate) });
+  }
+  return days;
+};
+
+const formatDayLabel = (date: Date) =>
+  date.toLocaleDateString([], { weekday: 'short', month: 'numeric', day: 'numeric' });
+
+// Upload an .ics export (e.g. a class schedule) and mark every slot outside its events as free
+const CalendarImport: React.FC<CalendarImportProps> = ({ currentAvailability, weekDate, onApply, isSaving }) => {
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    setError(null);
+    setPreview(null);
+    try {
+      const events = parseIcsEvents(await file.text());
+      if (events.length === 0) {
+        setError("We couldn't find any busy events in that file. Make sure it's an .ics calendar export.");
+        return;
+      }
+
+      const days = getWeekDays(weekDate);
+      const rangeStart = new Date(days[0].date);
+      rangeStart.setHours(0, 0, 0, 0);
+      const rangeEnd = new Date(rangeStart);
+      rangeEnd.setDate(rangeEnd.getDate() + DAYS_IN_WEEK);
+
+      const availability = deriveFreeSlots(days, getIcsBusyIntervals(events, rangeStart, rangeEnd));
+      setPreview({
+        fileName: file.name,
+        eventCount: events.length,
+        availability,
+        changes: diffAvailability(currentAvailability, availability),
+      });
+    } catch (err) {
+      console.error("Failed to import calendar file:", err);
+      setError("Could not read that calendar file.");
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    try {
+      await onApply(preview.availability);
+      setPreview(null);
+    } catch (err) {
+      // The page shows save errors; keep the preview so the user can retry
+      console.error("Failed to apply imported availability:", err);
+    }
+  };
+
+  const days = getWeekDays(weekDate);
+  const changedDays = preview ? days.filter(day => preview.changes[day.dateKey]) : [];
+
+  return (
+    <div className="mb-4 p-4 border border-gray-200 dark:border-gray-700 rounded-md">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-200">Import from your calendar</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Upload an .ics export of your class schedule. Any time not covered by an event becomes available.
+          </p>
+        </div>
+        <label className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md cursor-pointer bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">
+          <ArrowUpTrayIcon className="w-4 h-4 mr-1" /> Choose .ics File
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            className="sr-only"
+            onChange={handleFileChange}
+            disabled={isSaving}
+          />
+        </label>
+      </div>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {preview && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+            Found {preview.eventCount} event{preview.eventCount === 1 ? '' : 's'} in <span className="font-medium">{preview.fileName}</span>.
+            {changedDays.length === 0 && ' Your availability for this week already matches.'}
+          </p>
+
+          {changedDays.length > 0 && (
+            <ul className="space-y-1 mb-3 text-sm">
+              {changedDays.map(day => {
+                const change = preview.changes[day.dateKey];
+                return (
+                  <li key={day.dateKey} className="flex flex-wrap gap-x-3">
+                    <span className="w-24 font-medium text-gray-800 dark:text-gray-200">{formatDayLabel(day.date)}</span>
+                    {change.added.length > 0 && (
+                      <span className="text-green-700 dark:text-green-400">+ {groupSlotRanges(change.added).join(', ')}</span>
+                    )}
+                    {change.removed.length > 0 && (
+                      <span className="text-red-600 dark:text-red-400">− {groupSlotRanges(change.removed).join(', ')}</span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <Button size="auto" onClick={handleApply} disabled={isSaving || changedDays.length === 0} className="text-sm">
+              {isSaving ? <Spinner size="sm" /> : 'Apply & Save'}
+            </Button>
+            <Button size="auto" variant="secondary" onClick={() => setPreview(null)} disabled={isSaving} className="text-sm">
+              Discard
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarImport;
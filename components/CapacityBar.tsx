@@ -5,10 +5,12 @@ import React from 'react';
 interface CapacityBarProps {
   filled: number;
   capacity: number;
+  waitlistCount?: number; // Number of people waiting for a spot
+  waitlistPosition?: number | null; // 1-based position of the current user on the waitlist
 }
 
-const CapacityBar: React.FC<CapacityBarProps> = ({ filled, capacity }) => {
-  const percentage = capacity > 0 ? (filled / capacity) * 100 : 0;
+const CapacityBar: React.FC<CapacityBarProps> = ({ filled, capacity, waitlistCount = 0, waitlistPosition = null }) => {
+  const percentage = capacity > 0 ? Math.min(100, (filled / capacity) * 100) : 0;
 
   return (
     <div className="w-full">
@@ -23,6 +25,14 @@ const CapacityBar: React.FC<CapacityBarProps> = ({ filled, capacity }) => {
           </span>
         </div>
       </div>
+      {(waitlistCount > 0 || waitlistPosition) && (
+        <div className="mt-1 flex justify-between text-xs text-orange-600 dark:text-orange-400">
+          <span>Waitlist: {waitlistCount}</span>
+          {waitlistPosition && (
+            <span className="font-semibold">You are #{waitlistPosition} of {waitlistCount}</span>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,157 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/solid';
+import { EventData, Match } from '@/lib/api';
+import { groupSlotRanges } from '@/lib/availability';
+import {
+  CalendarMode,
+  getCalendarDays,
+  getCalendarTitle,
+  groupByDay,
+  toLocalDateKey,
+} from '@/lib/calendarView';
+
+interface EventCalendarProps {
+  mode: CalendarMode;
+  anchor: Date;
+  onNavigate: (direction: 1 | -1) => void;
+  onToday: () => void;
+  events: EventData[];
+  meals: Match[]; // Matched meals, shown alongside events
+  getFreeSlots: (date: Date) => string[]; // The user's saved availability for that day
+  isAvailable: (event: EventData) => boolean;
+}
+
+const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const MAX_MONTH_ITEMS = 3;
+
+const formatTime = (date: Date): string =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+const getMealLabel = (meal: Match): string => `Meal with ${meal.matchUser?.displayName || 'your match'}`;
+
+// Week and month grids of events, matched meals and the user's free time
+const EventCalendar: React.FC<EventCalendarProps> = ({
+  mode,
+  anchor,
+  onNavigate,
+  onToday,
+  events,
+  meals,
+  getFreeSlots,
+  isAvailable,
+}) => {
+  const days = getCalendarDays(mode, anchor);
+  const eventsByDay = groupByDay(events, event => event.start.toDate());
+  const mealsByDay = groupByDay(meals, meal => meal.suggestedTime.toDate());
+  const todayKey = toLocalDateKey(new Date());
+
+  const renderEvent = (event: EventData, compact: boolean) => (
+    <Link
+      key={event.id}
+      href={`/events/${event.id}`}
+      className={`block truncate rounded px-1.5 py-0.5 text-xs ${
+        isAvailable(event)
+          ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200'
+          : 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/40 dark:text-indigo-200'
+      } ${event.cancelled ? 'line-through opacity-60' : ''}`}
+      title={`${event.name}${isAvailable(event) ? ' (fits your availability)' : ''}`}
+    >
+      {!compact && <span className="font-mono mr-1">{formatTime(event.start.toDate())}</span>}
+      {event.name}
+    </Link>
+  );
+
+  const renderMeal = (meal: Match, compact: boolean) => (
+    <p
+      key={meal.id}
+      className="truncate rounded px-1.5 py-0.5 text-xs bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200"
+      title={`${getMealLabel(meal)} at ${meal.suggestedLocation}`}
+    >
+      {!compact && <span className="font-mono mr-1">{formatTime(meal.suggestedTime.toDate())}</span>}
+      {getMealLabel(meal)}
+    </p>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <div className="flex items-center justify-between mb-3">
+        <button type="button" onClick={() => onNavigate(-1)} aria-label={`Previous ${mode}`} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+          <ChevronLeftIcon className="h-5 w-5 text-gray-600 dark:text-gray-300" />
+        </button>
+        <div className="text-center">
+          <h2 className="text-base font-semibold text-gray-800 dark:text-gray-200">{getCalendarTitle(mode, anchor)}</h2>
+          <button type="button" onClick={onToday} className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline">Today</button>
+        </div>
+        <button type="button" onClick={() => onNavigate(1)} aria-label={`Next ${mode}`} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+          <ChevronRightIcon className="h-5 w-5 text-gray-600 dark:text-gray-300" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-3 text-xs text-gray-600 dark:text-gray-400">
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-green-100 dark:bg-green-900/40" />Fits your availability</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-indigo-100 dark:bg-indigo-900/40" />Event</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-amber-100 dark:bg-amber-900/40" />Matched meal</span>
+      </div>
+
+      {mode === 'week' ? (
+        <div className="grid grid-cols-1 sm:grid-cols-7 gap-2">
+          {days.map((day, index) => {
+            const key = toLocalDateKey(day);
+            const freeRanges = groupSlotRanges(getFreeSlots(day));
+            return (
+              <div
+                key={key}
+                className={`min-h-[6rem] rounded-md border p-1.5 space-y-1 ${key === todayKey ? 'border-indigo-500' : 'border-gray-200 dark:border-gray-700'}`}
+              >
+                <p className="text-xs font-semibold text-gray-700 dark:text-gray-300">
+                  {WEEKDAY_NAMES[index]} {day.getDate()}
+                </p>
+                {freeRanges.map(range => (
+                  <p key={range} className="text-[10px] text-green-700 dark:text-green-400" title="You're free">
+                    Free {range}
+                  </p>
+                ))}
+                {(mealsByDay[key] || []).map(meal => renderMeal(meal, false))}
+                {(eventsByDay[key] || []).map(event => renderEvent(event, false))}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 gap-1">
+          {WEEKDAY_NAMES.map(name => (
+            <p key={name} className="text-center text-xs font-semibold text-gray-500 dark:text-gray-400">{name}</p>
+          ))}
+          {days.map(day => {
+            const key = toLocalDateKey(day);
+            const items = [
+              ...(mealsByDay[key] || []).map(meal => renderMeal(meal, true)),
+              ...(eventsByDay[key] || []).map(event => renderEvent(event, true)),
+            ];
+            const hasFreeTime = getFreeSlots(day).length > 0;
+            return (
+              <div
+                key={key}
+                className={`min-h-[4.5rem] rounded border p-1 space-y-0.5 ${day.getMonth() !== anchor.getMonth() ? 'opacity-40' : ''} ${key === todayKey ? 'border-indigo-500' : 'border-gray-200 dark:border-gray-700'}`}
+              >
+                <p className="flex items-center justify-between text-xs text-gray-700 dark:text-gray-300">
+                  {day.getDate()}
+                  {hasFreeTime && <span className="h-2 w-2 rounded-full bg-green-500" title="You have free time" />}
+                </p>
+                {items.slice(0, MAX_MONTH_ITEMS)}
+                {items.length > MAX_MONTH_ITEMS && (
+                  <p className="text-[10px] text-gray-500 dark:text-gray-400">+{items.length - MAX_MONTH_ITEMS} more</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventCalendar;
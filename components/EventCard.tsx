@@ -4,12 +4,18 @@ import React from 'react';
 import { useRouter } from 'next/navigation';
 import { Timestamp } from 'firebase/firestore';
 import CapacityBar from './CapacityBar';
+import TagList from './TagList';
 import { EventData } from '@/lib/api'; // Adjust path if needed
-import { CheckCircleIcon } from '@heroicons/react/24/solid'; // Icon for availability
+import { CheckCircleIcon, MapPinIcon, LockClosedIcon, SparklesIcon, StarIcon } from '@heroicons/react/24/solid'; // Icons for availability, location, visibility, recommendations and hosting
+import { formatEventLocation } from '@/lib/locations';
+import { EVENT_VISIBILITY_OPTIONS, getEventVisibility } from '@/lib/visibility';
+import { getEventHosts, isEventHost } from '@/lib/hosts';
 
 interface EventCardProps {
   event: EventData;
   isUserAvailable?: boolean; // Add optional prop
+  explanation?: string; // Why the event was recommended, shown in the "For you" feed
+  viewerId?: string | null; // Marks events the viewer is hosting
 }
 
 // Helper function to format Firestore Timestamps
@@ -25,7 +31,7 @@ const formatTimestamp = (timestamp: Timestamp | undefined): string => {
   });
 };
 
-const EventCard: React.FC<EventCardProps> = ({ event, isUserAvailable = false }) => {
+const EventCard: React.FC<EventCardProps> = ({ event, isUserAvailable = false, explanation, viewerId = null }) => {
   const router = useRouter();
 
   if (!event || !event.id) {
@@ -34,6 +40,9 @@ const EventCard: React.FC<EventCardProps> = ({ event, isUserAvailable = false })
     return <div className="p-4 border rounded-lg shadow bg-red-100 text-red-700">Invalid Event Data</div>;
   }
 
+  const visibility = getEventVisibility(event);
+  const hostCount = getEventHosts(event).length;
+
   const handleCardClick = () => {
     router.push(`/events/${event.id}`);
   };
@@ -54,8 +63,33 @@ const EventCard: React.FC<EventCardProps> = ({ event, isUserAvailable = false })
       <p className="text-sm font-mono text-gray-600 dark:text-gray-400 mt-1">
         {formatTimestamp(event.start)} – {formatTimestamp(event.end)}
       </p>
+      <p className="flex items-center text-sm text-gray-600 dark:text-gray-400 mt-1 truncate">
+        <MapPinIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+        {formatEventLocation(event.location)}
+      </p>
+      <TagList tags={event.tags ?? []} className="mt-2" />
+      {explanation && (
+        <p className="flex items-center text-xs font-medium text-amber-600 dark:text-amber-400 mt-1">
+          <SparklesIcon className="h-3 w-3 mr-1 flex-shrink-0" />
+          {explanation}
+        </p>
+      )}
+      {(isEventHost(event, viewerId) || hostCount > 1) && (
+        <p className="flex items-center text-xs font-medium text-purple-600 dark:text-purple-400 mt-1">
+          <StarIcon className="h-3 w-3 mr-1 flex-shrink-0" />
+          {isEventHost(event, viewerId)
+            ? (event.creator === viewerId ? "You're hosting" : "You're co-hosting")
+            : `${hostCount} hosts`}
+        </p>
+      )}
+      {visibility !== 'public' && (
+        <p className="flex items-center text-xs font-medium text-indigo-600 dark:text-indigo-400 mt-1">
+          <LockClosedIcon className="h-3 w-3 mr-1 flex-shrink-0" />
+          {EVENT_VISIBILITY_OPTIONS.find(option => option.value === visibility)?.label}
+        </p>
+      )}
       <div className="mt-2">
-        <CapacityBar filled={event.participants.length} capacity={event.capacity} />
+        <CapacityBar filled={event.participants.length} capacity={event.capacity} waitlistCount={event.waitlist.length} />
       </div>
     </div>
   );
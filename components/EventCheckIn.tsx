@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { User } from 'firebase/auth';
+import Button from './Button';
+import Spinner from './Spinner';
+import {
+  EventData,
+  UserProfile,
+  getCheckInSecret,
+  checkInToEvent,
+  getAttendanceSummary,
+  recordNoShows,
+} from '@/lib/api';
+import {
+  AttendanceSummary,
+  CHECK_IN_CODE_LENGTH,
+  getCheckInCode,
+  getCheckInCodeExpiry,
+  getUnmarkedNoShows,
+  isCheckInOpen,
+} from '@/lib/checkIn';
+import { isEventHost } from '@/lib/hosts';
+
+interface EventCheckInProps {
+  event: EventData;
+  user: User;
+  profiles: Record<string, UserProfile>;
+  onAttendanceChange: () => void; // After a check-in or recording no-shows, so the event can be reloaded
+}
+
+const getDisplayName = (uid: string, profiles: Record<string, UserProfile>): string =>
+  profiles[uid]?.displayName || profiles[uid]?.email || `${uid.substring(0, 8)}...`;
+
+// The hosts' rotating code, refreshed whenever it changes
+const CheckInCodeDisplay: React.FC<{ eventId: string; userId: string }> = ({ eventId, userId }) => {
+  const [secret, setSecret] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCheckInSecret(eventId, userId)
+      .then(setSecret)
+      .catch(err => setError(err instanceof Error ? err.message : "Could not load the check-in code."));
+  }, [eventId, userId]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (error) return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+  if (!secret) return <Spinner size="sm" />;
+
+  return (
+    <div className="text-center">
+      <p className="text-sm text-gray-600 dark:text-gray-400">Show this code to guests so they can check in</p>
+      <p className="text-4xl font-mono font-bold tracking-widest text-indigo-600 dark:text-indigo-400 my-2" aria-live="polite">
+        {getCheckInCode(secret, now)}
+      </p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        New code in {Math.ceil(getCheckInCodeExpiry(now) / 1000)}s
+      </p>
+    </div>
+  );
+};
+
+// Check-in during the event window, and the attendance summary for the hosts
+const EventCheckIn: React.FC<EventCheckInProps> = ({ event, user, profiles, onAttendanceChange }) => {
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<AttendanceSummary | null>(null);
+
+  const isHost = isEventHost(event, user.uid);
+  const isGoing = event.participants.includes(user.uid);
+  const isCheckedIn = event.attendance[user.uid]?.status === 'attended';
+  const checkInOpen = isCheckInOpen(event, new Date());
+  const hasStarted = new Date() >= event.start.toDate();
+  const hasEnded = new Date() > event.end.toDate();
+  const unmarkedNoShows = hasEnded ? getUnmarkedNoShows(event) : [];
+
+  useEffect(() => {
+    if (!isHost || !event.id) return;
+    getAttendanceSummary(event.id, user.uid)
+      .then(setSummary)
+      .catch(err => console.error("Failed to load attendance:", err));
+  }, [isHost, event, user.uid]);
+
+  const handleCheckIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!event.id || isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await checkInToEvent(event.id, code);
+      setCode('');
+      onAttendanceChange();
+    } catch (err) {
+      console.error("Failed to check in:", err);
+      setError(err instanceof Error ? err.message : "Could not check in.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRecordNoShows = async () => {
+    if (!event.id || isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await recordNoShows(event.id, user.uid);
+      onAttendanceChange();
+    } catch (err) {
+      console.error("Failed to record no-shows:", err);
+      setError(err instanceof Error ? err.message : "Could not record no-shows.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (event.cancelled || (!isHost && !isGoing)) return null;
+  if (isHost && !checkInOpen && !hasStarted) return null;
+  if (!isHost && !checkInOpen && !isCheckedIn) return null;
+
+  return (
+    <div className="p-4 rounded-md border border-gray-200 dark:border-gray-700 space-y-3">
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Check-in</h2>
+
+      {isHost && checkInOpen && event.id && <CheckInCodeDisplay eventId={event.id} userId={user.uid} />}
+
+      {!isHost && (isCheckedIn ? (
+        <p className="text-center text-green-700 dark:text-green-400 font-medium bg-green-100 dark:bg-green-900/30 p-3 rounded-md">
+          You&apos;re checked in. Enjoy the meal!
+        </p>
+      ) : (
+        <form onSubmit={handleCheckIn} className="flex gap-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            maxLength={CHECK_IN_CODE_LENGTH}
+            placeholder="Code from the host"
+            aria-label="Check-in code"
+            className="flex-1 px-3 py-2 font-mono border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            disabled={isSubmitting}
+          />
+          <Button type="submit" size="auto" disabled={isSubmitting || code.trim().length !== CHECK_IN_CODE_LENGTH}>
+            {isSubmitting ? <Spinner size="sm" /> : 'Check In'}
+          </Button>
+        </form>
+      ))}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {isHost && summary && (hasStarted || summary.attended.length > 0) && (
+        <div className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+          <p>
+            <span className="font-semibold">{summary.attended.length}</span> checked in
+            {summary.notCheckedIn.length > 0 && <>, <span className="font-semibold">{summary.notCheckedIn.length}</span> not yet</>}
+            {summary.noShows.length > 0 && <>, <span className="font-semibold">{summary.noShows.length}</span> no-show{summary.noShows.length === 1 ? '' : 's'}</>}
+          </p>
+          {summary.attended.length > 0 && (
+            <p>Attended: {summary.attended.map(uid => getDisplayName(uid, profiles)).join(', ')}</p>
+          )}
+          {summary.noShows.length > 0 && (
+            <p>No-shows: {summary.noShows.map(uid => getDisplayName(uid, profiles)).join(', ')}</p>
+          )}
+          {unmarkedNoShows.length > 0 && (
+            <Button onClick={handleRecordNoShows} variant="secondary" size="auto" disabled={isSubmitting} className="h-9 text-sm">
+              {isSubmitting ? <Spinner size="sm" /> : 'Record No-Shows'}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventCheckIn;
@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { User } from 'firebase/auth';
+import { Timestamp } from 'firebase/firestore';
+import Button from './Button';
+import Spinner from './Spinner';
+import {
+  EventComment,
+  EventData,
+  canCommentOnEvent,
+  subscribeToEventComments,
+  addEventComment,
+  updateEventComment,
+  deleteEventComment,
+} from '@/lib/api';
+import { MAX_COMMENT_LENGTH } from '@/lib/validators';
+import { isEventHost } from '@/lib/hosts';
+
+interface EventCommentsProps {
+  event: EventData;
+  user: User | null;
+}
+
+const formatCommentTime = (timestamp: Timestamp | undefined): string => {
+  if (!timestamp) return '';
+  return timestamp.toDate().toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const textareaClasses = "w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+// Real-time discussion thread for an event's participants and creator
+const EventComments: React.FC<EventCommentsProps> = ({ event, user }) => {
+  const [comments, setComments] = useState<EventComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newComment, setNewComment] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!event.id) return;
+    setIsLoading(true);
+    const unsubscribe = subscribeToEventComments(
+      event.id,
+      (latest) => {
+        setComments(latest);
+        setIsLoading(false);
+      },
+      (err) => {
+        setError(err.message);
+        setIsLoading(false);
+      }
+    );
+    return unsubscribe;
+  }, [event.id]);
+
+  const canComment = !!user && canCommentOnEvent(event, user.uid);
+
+  // Mutations all share the same submitting flag and error handling
+  const runMutation = async (mutation: () => Promise<void>) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await mutation();
+    } catch (err) {
+      console.error("Failed to update comments:", err);
+      setError(err instanceof Error ? err.message : "Could not update comments.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePost = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !event.id || isSubmitting) return;
+    runMutation(async () => {
+      await addEventComment(event.id!, user.uid, user.displayName, newComment);
+      setNewComment('');
+    });
+  };
+
+  const handleSaveEdit = (commentId: string) => {
+    if (!user || !event.id || isSubmitting) return;
+    runMutation(async () => {
+      await updateEventComment(event.id!, commentId, user.uid, editText);
+      setEditingId(null);
+    });
+  };
+
+  const handleDelete = (commentId: string) => {
+    if (!user || !event.id || isSubmitting) return;
+    if (!window.confirm('Delete this comment?')) return;
+    runMutation(() => deleteEventComment(event.id!, commentId, user.uid));
+  };
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2">Discussion ({comments.length})</h2>
+
+      {error && (
+        <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Spinner />
+        </div>
+      ) : comments.length > 0 ? (
+        <ul className="space-y-3 mb-4">
+          {comments.map((comment) => {
+            const isAuthor = !!user && comment.authorId === user.uid;
+            const canDelete = isAuthor || isEventHost(event, user?.uid);
+            return (
+              <li key={comment.id} className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md">
+                <div className="flex justify-between items-baseline gap-2 mb-1">
+                  <span className="text-sm font-semibold text-gray-800 dark:text-gray-200">
+                    {comment.authorName || 'Anonymous'}
+                    {isEventHost(event, comment.authorId) && (
+                      <span className="ml-2 text-xs font-semibold text-indigo-600 dark:text-indigo-400">(Host)</span>
+                    )}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatCommentTime(comment.createdAt)}
+                    {comment.editedAt && ' (edited)'}
+                  </span>
+                </div>
+
+                {editingId === comment.id ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      maxLength={MAX_COMMENT_LENGTH}
+                      rows={2}
+                      aria-label="Edit comment"
+                      className={textareaClasses}
+                    />
+                    <div className="flex gap-2">
+                      <Button size="auto" onClick={() => handleSaveEdit(comment.id!)} disabled={isSubmitting || !editText.trim()} className="text-sm">
+                        Save
+                      </Button>
+                      <Button size="auto" variant="secondary" onClick={() => setEditingId(null)} disabled={isSubmitting} className="text-sm">
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">{comment.text}</p>
+                )}
+
+                {editingId !== comment.id && (isAuthor || canDelete) && (
+                  <div className="mt-1 flex gap-3 text-xs">
+                    {isAuthor && (
+                      <button
+                        type="button"
+                        onClick={() => { setEditingId(comment.id!); setEditText(comment.text); }}
+                        className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                      >
+                        Edit
+                      </button>
+                    )}
+                    {canDelete && (
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(comment.id!)}
+                        className="text-red-600 dark:text-red-400 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">No comments yet.</p>
+      )}
+
+      {canComment ? (
+        <form onSubmit={handlePost} className="space-y-2">
+          <textarea
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            maxLength={MAX_COMMENT_LENGTH}
+            rows={3}
+            placeholder="Ask a question or coordinate with the group..."
+            aria-label="New comment"
+            className={textareaClasses}
+          />
+          <Button type="submit" size="auto" disabled={isSubmitting || !newComment.trim()} className="text-sm">
+            {isSubmitting ? <Spinner size="sm" /> : 'Post Comment'}
+          </Button>
+        </form>
+      ) : user ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Join the event to take part in the discussion.</p>
+      ) : null}
+    </div>
+  );
+};
+
+export default EventComments;
@@ -4,17 +4,36 @@ import React, { useState } from 'react';
 import { Timestamp } from 'firebase/firestore';
 import Button from './Button';
 import Spinner from './Spinner';
+import { RecurrenceRule, RecurrenceFrequency, MAX_OCCURRENCES, WEEKDAY_LABELS, validateRecurrenceRule } from '@/lib/recurrence';
+import { DINING_HALLS, EventLocation } from '@/lib/locations';
+import { validateEventFields, EventFieldErrors } from '@/lib/validators';
+import { EventVisibility, EVENT_VISIBILITY_OPTIONS } from '@/lib/visibility';
+import { EVENT_TAGS } from '@/lib/eventFilters';
+
+export interface EventFormData {
+  name: string;
+  description: string;
+  tags: string[];
+  start: Date;
+  end: Date;
+  capacity: number;
+  location?: EventLocation; // Unset means "location TBD"
+  visibility: EventVisibility;
+  recurrence?: RecurrenceRule; // Only set when the user chose a repeating event
+}
 
 interface EventFormProps {
-  onSubmit: (formData: { name: string; start: Date; end: Date; capacity: number }) => Promise<void>;
+  onSubmit: (formData: EventFormData) => Promise<void>;
   isSubmitting: boolean;
+  initialValues?: Partial<EventFormData>; // Prefill when editing an existing event
+  submitLabel?: string;
+  allowRecurrence?: boolean; // Hide the repeat options, e.g. when editing a single occurrence
+  locationOptions?: string[]; // Campus spots from the `locations` collection, shown alongside dining halls
+  defaultDurationMinutes?: number; // Fill in the end time from the start, e.g. when starting from a template
 }
 
-interface FormErrors {
-  name?: string;
-  start?: string;
-  end?: string;
-  capacity?: string;
+interface FormErrors extends EventFieldErrors {
+  recurrence?: string;
   general?: string;
 }
 
@@ -29,21 +48,76 @@ const formatDateToDateTimeLocal = (date: Date | null): string => {
   return `${year}-${month}-${day}T${hours}:${minutes}`;
 };
 
-const EventForm: React.FC<EventFormProps> = ({ onSubmit, isSubmitting }) => {
-  const [name, setName] = useState('');
-  const [start, setStart] = useState<Date | null>(null);
-  const [end, setEnd] = useState<Date | null>(null);
-  const [capacity, setCapacity] = useState<number | ''>('');
+// The location <select> encodes its choice as "<type>:<name>", or "custom" for free text
+const CUSTOM_LOCATION_CHOICE = 'custom';
+const locationToChoice = (location: EventLocation | undefined): string => {
+  if (!location) return '';
+  return location.type === 'custom' ? CUSTOM_LOCATION_CHOICE : `${location.type}:${location.name}`;
+};
+
+// Helper to format Date to date input string (local time)
+const formatDateToDateInput = (date: Date | null): string => {
+  if (!date) return '';
+  return formatDateToDateTimeLocal(date).split('T')[0];
+};
+
+const EventForm: React.FC<EventFormProps> = ({
+  onSubmit,
+  isSubmitting,
+  initialValues,
+  submitLabel = 'Create Event',
+  allowRecurrence = true,
+  locationOptions = [],
+  defaultDurationMinutes,
+}) => {
+  const [name, setName] = useState(initialValues?.name ?? '');
+  const [description, setDescription] = useState(initialValues?.description ?? '');
+  const [tags, setTags] = useState<string[]>(initialValues?.tags ?? []);
+  const [start, setStart] = useState<Date | null>(initialValues?.start ?? null);
+  const [end, setEnd] = useState<Date | null>(initialValues?.end ?? null);
+  const [capacity, setCapacity] = useState<number | ''>(initialValues?.capacity ?? '');
+  const [locationChoice, setLocationChoice] = useState(locationToChoice(initialValues?.location));
+  const [customLocation, setCustomLocation] = useState(
+    initialValues?.location?.type === 'custom' ? initialValues.location.name : ''
+  );
+  const [visibility, setVisibility] = useState<EventVisibility>(initialValues?.visibility ?? 'public');
+  const [repeat, setRepeat] = useState<RecurrenceFrequency | 'none'>('none');
+  const [repeatDays, setRepeatDays] = useState<number[]>([]);
+  const [endMode, setEndMode] = useState<'until' | 'count'>('count');
+  const [until, setUntil] = useState<Date | null>(null);
+  const [count, setCount] = useState<number | ''>(4);
   const [errors, setErrors] = useState<FormErrors>({});
+  const [endEdited, setEndEdited] = useState(false);
+
+  const buildLocation = (): EventLocation | undefined => {
+    if (!locationChoice) return undefined;
+    if (locationChoice === CUSTOM_LOCATION_CHOICE) {
+      return { type: 'custom', name: customLocation.trim() };
+    }
+    const separatorIndex = locationChoice.indexOf(':');
+    return {
+      type: locationChoice.slice(0, separatorIndex) as EventLocation['type'],
+      name: locationChoice.slice(separatorIndex + 1),
+    };
+  };
+
+  const buildRecurrenceRule = (): RecurrenceRule | undefined => {
+    if (!allowRecurrence || repeat === 'none') return undefined;
+    return {
+      frequency: repeat,
+      daysOfWeek: repeat === 'custom' ? repeatDays : undefined,
+      until: endMode === 'until' && until ? until : undefined,
+      count: endMode === 'count' && count !== '' ? Number(count) : undefined,
+    };
+  };
 
   const validateForm = (): boolean => {
-    const newErrors: FormErrors = {};
-    if (!name.trim()) newErrors.name = 'Name is required.';
-    if (!start) newErrors.start = 'Start date and time are required.';
-    if (!end) newErrors.end = 'End date and time are required.';
-    if (start && end && end <= start) newErrors.end = 'End time must be after start time.';
-    if (capacity === '') newErrors.capacity = 'Capacity is required.';
-    else if (Number(capacity) < 1) newErrors.capacity = 'Capacity must be at least 1.';
+    const newErrors: FormErrors = validateEventFields({ name, start, end, capacity, location: buildLocation() });
+    const rule = buildRecurrenceRule();
+    if (rule && start) {
+      const recurrenceError = validateRecurrenceRule(rule, start);
+      if (recurrenceError) newErrors.recurrence = recurrenceError;
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -58,9 +132,14 @@ const EventForm: React.FC<EventFormProps> = ({ onSubmit, isSubmitting }) => {
     try {
       await onSubmit({ 
         name: name.trim(), 
+        description: description.trim(),
+        tags,
         start: start, // Pass Date objects
         end: end, 
-        capacity: Number(capacity) 
+        capacity: Number(capacity),
+        location: buildLocation(),
+        visibility,
+        recurrence: buildRecurrenceRule(),
       });
       // Reset form on success could be done here or handled by parent
     } catch (error) {
@@ -78,6 +157,23 @@ const EventForm: React.FC<EventFormProps> = ({ onSubmit, isSubmitting }) => {
       }
   };
 
+  // Keep the end a fixed duration after the start until the user sets the end themselves
+  const handleStartChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newStart = e.target.value ? new Date(e.target.value) : null;
+    setStart(newStart);
+    if (newStart && defaultDurationMinutes && !endEdited) {
+      setEnd(new Date(newStart.getTime() + defaultDurationMinutes * 60000));
+    }
+  };
+
+  const toggleTag = (tag: string) => {
+    setTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const toggleRepeatDay = (day: number) => {
+    setRepeatDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+  };
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       {errors.general && (
@@ -99,13 +195,25 @@ const EventForm: React.FC<EventFormProps> = ({ onSubmit, isSubmitting }) => {
         {errors.name && <p id="name-error" className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.name}</p>}
       </div>
 
+      <div>
+        <label htmlFor="eventDescription" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description <span className="font-normal text-gray-500">(optional)</span></label>
+        <textarea
+          id="eventDescription"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+          disabled={isSubmitting}
+        />
+      </div>
+
       <div>
         <label htmlFor="eventStart" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Start Time</label>
         <input
           type="datetime-local"
           id="eventStart"
           value={formatDateToDateTimeLocal(start)}
-          onChange={handleDateTimeChange(setStart)}
+          onChange={handleStartChange}
           className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-1 ${errors.start ? 'border-red-500 focus:ring-red-500 focus:border-red-500' : 'border-gray-300 dark:border-gray-600 focus:ring-indigo-500 focus:border-indigo-500'} dark:bg-gray-700 dark:text-white`}
           aria-describedby={errors.start ? "start-error" : undefined}
           aria-invalid={!!errors.start}
@@ -120,7 +228,7 @@ const EventForm: React.FC<EventFormProps> = ({ onSubmit, isSubmitting }) => {
           type="datetime-local"
           id="eventEnd"
           value={formatDateToDateTimeLocal(end)}
-          onChange={handleDateTimeChange(setEnd)}
+          onChange={(e) => { setEndEdited(true); handleDateTimeChange(setEnd)(e); }}
           className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-1 ${errors.end ? 'border-red-500 focus:ring-red-500 focus:border-red-500' : 'border-gray-300 dark:border-gray-600 focus:ring-indigo-500 focus:border-indigo-500'} dark:bg-gray-700 dark:text-white`}
           aria-describedby={errors.end ? "end-error" : undefined}
           aria-invalid={!!errors.end}
@@ -145,8 +253,177 @@ const EventForm: React.FC<EventFormProps> = ({ onSubmit, isSubmitting }) => {
         {errors.capacity && <p id="capacity-error" className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.capacity}</p>}
       </div>
 
-      <Button type="submit" disabled={isSubmitting} aria-label="Create new event">
-        {isSubmitting ? <Spinner /> : 'Create Event'}
+      <div>
+        <label htmlFor="eventLocation" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Location</label>
+        <select
+          id="eventLocation"
+          value={locationChoice}
+          onChange={(e) => setLocationChoice(e.target.value)}
+          className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-1 ${errors.location ? 'border-red-500 focus:ring-red-500 focus:border-red-500' : 'border-gray-300 dark:border-gray-600 focus:ring-indigo-500 focus:border-indigo-500'} dark:bg-gray-700 dark:text-white`}
+          disabled={isSubmitting}
+        >
+          <option value="">To be decided</option>
+          <optgroup label="Dining halls">
+            {DINING_HALLS.map(hall => (
+              <option key={hall} value={`dining_hall:${hall}`}>{hall}</option>
+            ))}
+          </optgroup>
+          {locationOptions.length > 0 && (
+            <optgroup label="Campus spots">
+              {locationOptions.filter(name => !DINING_HALLS.includes(name)).map(name => (
+                <option key={name} value={`venue:${name}`}>{name}</option>
+              ))}
+            </optgroup>
+          )}
+          <option value={CUSTOM_LOCATION_CHOICE}>Somewhere else (off campus)…</option>
+        </select>
+        {locationChoice === CUSTOM_LOCATION_CHOICE && (
+          <input
+            type="text"
+            aria-label="Custom location"
+            placeholder="e.g. Coupa Cafe, University Ave"
+            value={customLocation}
+            onChange={(e) => setCustomLocation(e.target.value)}
+            className="mt-2 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+            aria-describedby={errors.location ? "location-error" : undefined}
+            aria-invalid={!!errors.location}
+            disabled={isSubmitting}
+          />
+        )}
+        {errors.location && <p id="location-error" className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.location}</p>}
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tags</span>
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Event tags">
+          {EVENT_TAGS.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => toggleTag(tag)}
+              aria-pressed={tags.includes(tag)}
+              className={`px-3 py-1 rounded-full text-sm border ${tags.includes(tag) ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'}`}
+              disabled={isSubmitting}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="eventVisibility" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Who can see this event</label>
+        <select
+          id="eventVisibility"
+          value={visibility}
+          onChange={(e) => setVisibility(e.target.value as EventVisibility)}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+          aria-describedby="visibility-help"
+          disabled={isSubmitting}
+        >
+          {EVENT_VISIBILITY_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <p id="visibility-help" className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          {EVENT_VISIBILITY_OPTIONS.find(option => option.value === visibility)?.description}
+        </p>
+      </div>
+
+      {allowRecurrence && (
+        <div>
+          <label htmlFor="eventRepeat" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Repeats</label>
+          <select
+            id="eventRepeat"
+            value={repeat}
+            onChange={(e) => setRepeat(e.target.value as RecurrenceFrequency | 'none')}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+            disabled={isSubmitting}
+          >
+            <option value="none">Does not repeat</option>
+            <option value="weekly">Every week</option>
+            <option value="biweekly">Every 2 weeks</option>
+            <option value="custom">On specific days each week</option>
+          </select>
+
+          {repeat === 'custom' && (
+            <div className="flex flex-wrap gap-3 mt-3" role="group" aria-label="Repeat on days">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <label key={label} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={repeatDays.includes(day)}
+                    onChange={() => toggleRepeatDay(day)}
+                    className="mr-1 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    disabled={isSubmitting}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {repeat !== 'none' && (
+            <div className="mt-3 space-y-2">
+              <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="radio"
+                  id="endByCount"
+                  name="recurrenceEnd"
+                  checked={endMode === 'count'}
+                  onChange={() => setEndMode('count')}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                  disabled={isSubmitting}
+                />
+                <label htmlFor="endByCount">After</label>
+                <input
+                  type="number"
+                  aria-label="Number of occurrences"
+                  value={count}
+                  onChange={(e) => setCount(e.target.value === '' ? '' : parseInt(e.target.value, 10))}
+                  min="1"
+                  max={MAX_OCCURRENCES}
+                  className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                  disabled={isSubmitting || endMode !== 'count'}
+                />
+                <span>occurrences</span>
+              </div>
+              <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="radio"
+                  id="endByDate"
+                  name="recurrenceEnd"
+                  checked={endMode === 'until'}
+                  onChange={() => setEndMode('until')}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                  disabled={isSubmitting}
+                />
+                <label htmlFor="endByDate">On</label>
+                <input
+                  type="date"
+                  aria-label="Series end date"
+                  value={formatDateToDateInput(until)}
+                  onChange={(e) => {
+                    if (e.target.value) {
+                      const [year, month, day] = e.target.value.split('-').map(Number);
+                      setUntil(new Date(year, month - 1, day));
+                    } else {
+                      setUntil(null);
+                    }
+                  }}
+                  min={formatDateToDateInput(start)}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                  disabled={isSubmitting || endMode !== 'until'}
+                />
+              </div>
+            </div>
+          )}
+          {errors.recurrence && <p id="recurrence-error" className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.recurrence}</p>}
+        </div>
+      )}
+
+      <Button type="submit" disabled={isSubmitting} aria-label={submitLabel}>
+        {isSubmitting ? <Spinner /> : submitLabel}
       </Button>
     </form>
   );
@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useState } from 'react';
+import { User } from 'firebase/auth';
+import Button from './Button';
+import Spinner from './Spinner';
+import ParticipantListItem from './ParticipantListItem';
+import { EventData, UserProfile, addCoHost, removeCoHost } from '@/lib/api';
+import { MAX_CO_HOSTS, getEventHosts, isEventHost } from '@/lib/hosts';
+
+interface EventHostsProps {
+  event: EventData;
+  user: User | null;
+  profiles: Record<string, UserProfile>;
+  onHostsChanged: () => void;
+}
+
+const getDisplayName = (uid: string, profiles: Record<string, UserProfile>): string =>
+  profiles[uid]?.displayName || profiles[uid]?.email || `${uid.substring(0, 8)}...`;
+
+// Who is hosting, plus the creator's controls for adding and removing co-hosts
+const EventHosts: React.FC<EventHostsProps> = ({ event, user, profiles, onHostsChanged }) => {
+  const [selectedId, setSelectedId] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hosts = getEventHosts(event);
+  const coHosts = hosts.slice(1);
+  const viewerFriends = (user && profiles[user.uid]?.friends) || [];
+  const isCreator = !!user && event.creator === user.uid;
+  const isCoHost = !!user && !isCreator && isEventHost(event, user.uid);
+  const canManage = !event.cancelled && event.end.toDate() >= new Date() && (isCreator || isCoHost);
+  // Co-hosts are picked from the people going
+  const candidates = event.participants.filter(uid => !isEventHost(event, uid));
+
+  const runUpdate = async (update: () => Promise<void>) => {
+    setIsUpdating(true);
+    setError(null);
+    try {
+      await update();
+      onHostsChanged();
+    } catch (err) {
+      console.error("Failed to update co-hosts:", err);
+      setError(err instanceof Error ? err.message : "Could not update co-hosts.");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!event.id || !user || !selectedId || isUpdating) return;
+    runUpdate(async () => {
+      await addCoHost(event.id!, user.uid, selectedId);
+      setSelectedId('');
+    });
+  };
+
+  const handleStepDown = () => {
+    if (!event.id || !user || isUpdating) return;
+    if (!window.confirm("Stop co-hosting this event? You'll lose access to its management tools.")) return;
+    runUpdate(() => removeCoHost(event.id!, user.uid, user.uid));
+  };
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2">Hosted by</h2>
+      <ul className="space-y-2">
+        {hosts.map(uid => (
+          <ParticipantListItem
+            key={uid}
+            uid={uid}
+            profile={profiles[uid]}
+            isCurrentUser={!!user && uid === user.uid}
+            isFriend={viewerFriends.includes(uid)}
+          />
+        ))}
+      </ul>
+
+      {canManage && isCreator && (
+        <div className="mt-3 space-y-2">
+          {coHosts.length > 0 && (
+            <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1" aria-label="Co-hosts">
+              {coHosts.map(uid => (
+                <li key={uid} className="flex justify-between items-center">
+                  <span>{getDisplayName(uid, profiles)}</span>
+                  <button
+                    type="button"
+                    onClick={() => runUpdate(() => removeCoHost(event.id!, user!.uid, uid))}
+                    className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                    disabled={isUpdating}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {coHosts.length < MAX_CO_HOSTS && (
+            candidates.length > 0 ? (
+              <div className="flex gap-2">
+                <select
+                  value={selectedId}
+                  onChange={(e) => setSelectedId(e.target.value)}
+                  aria-label="New co-host"
+                  className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                  disabled={isUpdating}
+                >
+                  <option value="">Choose someone who&apos;s going</option>
+                  {candidates.map(uid => (
+                    <option key={uid} value={uid}>{getDisplayName(uid, profiles)}</option>
+                  ))}
+                </select>
+                <Button onClick={handleAdd} variant="secondary" size="auto" className="text-sm" disabled={isUpdating || !selectedId}>
+                  {isUpdating ? <Spinner size="sm" /> : 'Add Co-host'}
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">People who are going can be added as co-hosts.</p>
+            )
+          )}
+        </div>
+      )}
+
+      {canManage && isCoHost && (
+        <button
+          type="button"
+          onClick={handleStepDown}
+          className="mt-2 text-sm text-red-600 dark:text-red-400 hover:underline"
+          disabled={isUpdating}
+        >
+          Step down as co-host
+        </button>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default EventHosts;
@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState } from 'react';
+import { User } from 'firebase/auth';
+import Button from './Button';
+import Spinner from './Spinner';
+import { EventData, UserProfile, seatEventParticipants } from '@/lib/api';
+import {
+  SEATING_MIN_PARTICIPANTS,
+  DEFAULT_TABLE_SIZE,
+  MIN_TABLE_SIZE,
+  MAX_TABLE_SIZE,
+  findUserTable,
+} from '@/lib/seating';
+import { isEventHost } from '@/lib/hosts';
+
+interface EventSeatingProps {
+  event: EventData;
+  user: User | null;
+  profiles: Record<string, UserProfile>;
+  onSeated: () => void;
+}
+
+const getDisplayName = (uid: string, profiles: Record<string, UserProfile>): string =>
+  profiles[uid]?.displayName || profiles[uid]?.email || `${uid.substring(0, 8)}...`;
+
+// Table assignments for large events, and the hosts' control for (re)seating people
+const EventSeating: React.FC<EventSeatingProps> = ({ event, user, profiles, onSeated }) => {
+  const [tableSize, setTableSize] = useState<number | ''>(event.seating?.tableSize ?? DEFAULT_TABLE_SIZE);
+  const [isSeating, setIsSeating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSeat = isEventHost(event, user?.uid) && !event.cancelled && event.participants.length >= SEATING_MIN_PARTICIPANTS;
+  if (!event.seating && !canSeat) return null;
+
+  const seating = event.seating;
+  const userTable = user && seating ? findUserTable(seating, user.uid) : -1;
+  // People who joined after the last seating run
+  const unseated = seating ? event.participants.filter(uid => findUserTable(seating, uid) === -1) : [];
+
+  const handleSeat = async () => {
+    if (!event.id || !user || isSeating) return;
+    if (seating && !window.confirm('Re-seat everyone? Current table assignments will be replaced and everyone will be notified.')) return;
+    setIsSeating(true);
+    setError(null);
+    try {
+      await seatEventParticipants(event.id, user.uid, Number(tableSize));
+      onSeated();
+    } catch (err) {
+      console.error("Failed to seat participants:", err);
+      setError(err instanceof Error ? err.message : "Could not seat participants.");
+    } finally {
+      setIsSeating(false);
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2">Seating</h2>
+
+      {userTable !== -1 && (
+        <p className="mb-3 text-center text-indigo-700 dark:text-indigo-300 font-medium bg-indigo-100 dark:bg-indigo-900/30 p-3 rounded-md">
+          You&apos;re at Table {userTable + 1}
+        </p>
+      )}
+
+      {seating && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {seating.tables.map((table, index) => (
+            <div
+              key={index}
+              className={`p-3 rounded-md border ${index === userTable ? 'border-indigo-500' : 'border-gray-200 dark:border-gray-700'}`}
+            >
+              <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-1">Table {index + 1}</h3>
+              <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-0.5">
+                {table.map(uid => (
+                  <li key={uid} className={uid === user?.uid ? 'font-semibold' : ''}>{getDisplayName(uid, profiles)}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {unseated.length > 0 && (
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+          Not seated yet: {unseated.map(uid => getDisplayName(uid, profiles)).join(', ')}
+        </p>
+      )}
+
+      {canSeat && (
+        <div className="mt-3 flex items-end gap-2">
+          <div>
+            <label htmlFor="tableSize" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">People per table</label>
+            <input
+              type="number"
+              id="tableSize"
+              min={MIN_TABLE_SIZE}
+              max={MAX_TABLE_SIZE}
+              value={tableSize}
+              onChange={(e) => setTableSize(e.target.value === '' ? '' : Number(e.target.value))}
+              className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+              disabled={isSeating}
+            />
+          </div>
+          <Button size="auto" variant={seating ? 'secondary' : 'primary'} onClick={handleSeat} disabled={isSeating || tableSize === ''}>
+            {isSeating ? <Spinner size="sm" /> : seating ? 'Re-seat People' : 'Seat People'}
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default EventSeating;
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CheckIcon, XMarkIcon, UserGroupIcon } from '@heroicons/react/24/solid';
+import Button from './Button';
+import Spinner from './Spinner';
+import AddToCalendarButton from './AddToCalendarButton';
+import { GroupMeal, acceptGroupMeal, declineGroupMeal } from '@/lib/api';
+import { getSharedContacts } from '@/lib/groupMatching';
+import { groupMealToIcsEvent } from '@/lib/ics';
+
+interface GroupMealCardProps {
+  groupMeal: GroupMeal;
+  viewerId: string;
+  onResponded: () => void;
+}
+
+// A suggested group meal on the dashboard: who's in it, how many have accepted, and once it's
+// confirmed, the contact details of the others who accepted
+const GroupMealCard: React.FC<GroupMealCardProps> = ({ groupMeal, viewerId, onResponded }) => {
+  const [isResponding, setIsResponding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const time = groupMeal.suggestedTime.toDate();
+  const members = groupMeal.members ?? [];
+  const acceptedCount = Object.keys(groupMeal.acceptedBy).length;
+  const hasAccepted = !!groupMeal.acceptedBy[viewerId];
+  const isConfirmed = groupMeal.status === 'confirmed';
+  const contacts = getSharedContacts(groupMeal, viewerId);
+  const everyoneNeeded = groupMeal.quorum >= groupMeal.memberIds.length;
+
+  const respond = async (accept: boolean) => {
+    if (!groupMeal.id || isResponding) return;
+    setIsResponding(true);
+    setError(null);
+    try {
+      if (accept) {
+        await acceptGroupMeal(viewerId, groupMeal.id);
+      } else {
+        await declineGroupMeal(viewerId, groupMeal.id);
+      }
+      onResponded();
+    } catch (err) {
+      console.error("Failed to respond to group meal:", err);
+      setError(err instanceof Error ? err.message : "Could not respond to this group meal.");
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  let statusText: string;
+  if (isConfirmed) {
+    statusText = hasAccepted ? "It's on! Reach out to the group:" : "It's on! Accept to join in.";
+  } else if (hasAccepted) {
+    statusText = `You accepted. ${acceptedCount} of the ${groupMeal.quorum} needed have accepted so far.`;
+  } else {
+    statusText = everyoneNeeded
+      ? 'Happens once everyone accepts.'
+      : `Happens once ${groupMeal.quorum} of the ${groupMeal.memberIds.length} accept.`;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg p-4 mb-4">
+      <div className="flex justify-between items-start mb-3">
+        <div className="flex items-center">
+          <UserGroupIcon className="w-12 h-12 text-indigo-400 dark:text-indigo-300 mr-3" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Group meal with {members.filter(member => member.uid !== viewerId).map(member => member.displayName || 'Anonymous User').join(', ')}
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {groupMeal.suggestedLocation} - {time.toLocaleDateString()} at {time.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+            </p>
+          </div>
+        </div>
+        <span
+          className={`px-2 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap ${
+            isConfirmed
+              ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200'
+              : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200'
+          }`}
+        >
+          {isConfirmed ? 'Confirmed' : `${acceptedCount}/${groupMeal.memberIds.length} Accepted`}
+        </span>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">{statusText}</p>
+
+      {contacts.length > 0 && (
+        <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1 mb-3" aria-label="Group contacts">
+          {contacts.map(contact => (
+            <li key={contact.uid}>
+              <span className="font-medium">{contact.displayName || 'Anonymous User'}: </span>
+              {contact.surveyData?.phoneNumber || 'No number shared'}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isConfirmed && hasAccepted && (
+        <AddToCalendarButton
+          getIcsEvent={() => groupMealToIcsEvent(groupMeal, contacts)}
+          filename={`munch-group-${groupMeal.id}`}
+          className="mb-3"
+        />
+      )}
+
+      {!hasAccepted && (
+        <div className="flex space-x-3">
+          <Button onClick={() => respond(true)} disabled={isResponding} size="auto" className="flex-1">
+            {isResponding ? <Spinner size="sm" /> : <CheckIcon className="w-4 h-4 mr-1" />} {isConfirmed ? 'Join' : 'Accept'}
+          </Button>
+          <Button
+            onClick={() => respond(false)}
+            disabled={isResponding}
+            variant="secondary"
+            size="auto"
+            className="flex-1 bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/30 dark:text-red-300 dark:hover:bg-red-900/50"
+          >
+            {isResponding ? <Spinner size="sm" /> : <XMarkIcon className="w-4 h-4 mr-1" />} Decline
+          </Button>
+        </div>
+      )}
+
+      {hasAccepted && !isConfirmed && (
+        <button
+          type="button"
+          onClick={() => respond(false)}
+          className="text-sm text-red-600 dark:text-red-400 hover:underline"
+          disabled={isResponding}
+        >
+          I can&apos;t make it after all
+        </button>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default GroupMealCard;
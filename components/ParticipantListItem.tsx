@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import { UserCircleIcon } from '@heroicons/react/24/solid';
+import { UserProfile } from '@/lib/api';
+
+interface ParticipantListItemProps {
+  uid: string;
+  profile?: UserProfile; // Missing while profiles load or when the user has no profile
+  isCurrentUser: boolean;
+  isFriend: boolean;
+  isHost?: boolean;
+  note?: string;
+}
+
+// Fallback label when a profile can't be resolved
+const truncateUid = (uid: string, length = 8): string => {
+  return uid.length > length ? `${uid.substring(0, length)}...` : uid;
+};
+
+const ParticipantListItem: React.FC<ParticipantListItemProps> = ({ uid, profile, isCurrentUser, isFriend, isHost = false, note }) => {
+  const name = profile?.displayName || profile?.email || null;
+  return (
+    <li className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+      {profile?.photoURL ? (
+        <img src={profile.photoURL} alt={name || 'User'} className="h-6 w-6 rounded-full flex-shrink-0" />
+      ) : (
+        <UserCircleIcon className="h-6 w-6 text-gray-400 dark:text-gray-500 flex-shrink-0" aria-hidden="true" />
+      )}
+      <span className="min-w-0">
+        {name ? <span className="font-medium">{name}</span> : <span className="font-mono">{truncateUid(uid)}</span>}
+        {isCurrentUser && <span className="ml-2 text-xs font-semibold text-indigo-600 dark:text-indigo-400">(You)</span>}
+        {isHost && <span className="ml-2 text-xs font-semibold text-indigo-600 dark:text-indigo-400">(Host)</span>}
+        {isFriend && !isCurrentUser && (
+          <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">Friend</span>
+        )}
+        {note && <span className="ml-2 text-gray-500 dark:text-gray-400">“{note}”</span>}
+      </span>
+    </li>
+  );
+};
+
+export default ParticipantListItem;
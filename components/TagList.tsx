@@ -0,0 +1,23 @@
+'use client';
+
+import React from 'react';
+
+interface TagListProps {
+  tags: string[];
+  className?: string;
+}
+
+const TagList: React.FC<TagListProps> = ({ tags, className = '' }) => {
+  if (tags.length === 0) return null;
+  return (
+    <ul className={`flex flex-wrap gap-1 ${className}`} aria-label="Tags">
+      {tags.map(tag => (
+        <li key={tag} className="px-2 py-0.5 rounded-full text-xs bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300">
+          {tag}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default TagList;
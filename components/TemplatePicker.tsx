@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Button from './Button';
+import Spinner from './Spinner';
+import {
+  UserProfile,
+  getUserProfiles,
+  shareEventTemplate,
+  unshareEventTemplate,
+  deleteEventTemplate,
+} from '@/lib/api';
+import { EventTemplate } from '@/lib/templates';
+
+interface TemplatePickerProps {
+  templates: EventTemplate[];
+  userId: string;
+  selectedId: string;
+  onSelect: (template: EventTemplate | null) => void;
+  onTemplatesChanged: () => Promise<void>; // Reload after sharing or deleting
+}
+
+const inputClasses = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white";
+
+// Start a new event from a saved template, and manage sharing for templates the user owns
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ templates, userId, selectedId, onSelect, onTemplatesChanged }) => {
+  const [shareEmail, setShareEmail] = useState('');
+  const [organizers, setOrganizers] = useState<Record<string, UserProfile>>({});
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = templates.find(template => template.id === selectedId) ?? null;
+  const isOwner = selected?.ownerId === userId;
+
+  // Names for the organizers a template is shared with (and the owners of shared templates)
+  useEffect(() => {
+    const userIds = Array.from(new Set(templates.flatMap(template => [template.ownerId, ...template.sharedWith])));
+    if (userIds.length === 0) return;
+    getUserProfiles(userIds)
+      .then(setOrganizers)
+      .catch(err => console.error("Failed to load organizers:", err));
+  }, [templates]);
+
+  const getOrganizerName = (uid: string): string =>
+    organizers[uid]?.displayName || organizers[uid]?.email || 'Another organizer';
+
+  const runUpdate = async (update: () => Promise<void>) => {
+    setIsUpdating(true);
+    setError(null);
+    try {
+      await update();
+      await onTemplatesChanged();
+    } catch (err) {
+      console.error("Failed to update template:", err);
+      setError(err instanceof Error ? err.message : "Could not update the template.");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleShare = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected?.id || isUpdating) return;
+    runUpdate(async () => {
+      await shareEventTemplate(selected.id!, userId, shareEmail);
+      setShareEmail('');
+    });
+  };
+
+  const handleDelete = () => {
+    if (!selected?.id || isUpdating) return;
+    if (!window.confirm(`Delete the "${selected.name}" template? Organizers you shared it with will lose it too.`)) return;
+    runUpdate(async () => {
+      await deleteEventTemplate(selected.id!, userId);
+      onSelect(null);
+    });
+  };
+
+  if (templates.length === 0) return null;
+
+  return (
+    <div className="mb-6 pb-6 border-b border-gray-200 dark:border-gray-700 space-y-3">
+      <div>
+        <label htmlFor="eventTemplate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Start from a template</label>
+        <select
+          id="eventTemplate"
+          value={selectedId}
+          onChange={(e) => onSelect(templates.find(template => template.id === e.target.value) ?? null)}
+          className={inputClasses}
+          disabled={isUpdating}
+        >
+          <option value="">Blank event</option>
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>
+              {template.name}{template.ownerId !== userId ? ` (from ${getOrganizerName(template.ownerId)})` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {selected && isOwner && (
+        <div className="space-y-2">
+          <form onSubmit={handleShare} className="flex gap-2">
+            <input
+              type="email"
+              value={shareEmail}
+              onChange={(e) => setShareEmail(e.target.value)}
+              placeholder="Share with an organizer's email"
+              aria-label="Organizer email"
+              className={inputClasses}
+              disabled={isUpdating}
+            />
+            <Button type="submit" variant="secondary" size="auto" disabled={isUpdating || !shareEmail.trim()} className="text-sm">
+              {isUpdating ? <Spinner size="sm" /> : 'Share'}
+            </Button>
+          </form>
+          {selected.sharedWith.length > 0 && (
+            <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1" aria-label="Shared with">
+              {selected.sharedWith.map(uid => (
+                <li key={uid} className="flex justify-between items-center">
+                  <span>{getOrganizerName(uid)}</span>
+                  <button
+                    type="button"
+                    onClick={() => runUpdate(() => unshareEventTemplate(selected.id!, userId, uid))}
+                    className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                    disabled={isUpdating}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <button
+            type="button"
+            onClick={handleDelete}
+            className="text-sm text-red-600 dark:text-red-400 hover:underline"
+            disabled={isUpdating}
+          >
+            Delete template
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default TemplatePicker;
@@ -0,0 +1,957 @@
+// Server-side reads and writes for route handlers and cron jobs, through the Admin SDK.
+// Mirrors the parts of lib/api.ts the server needs; client code keeps using lib/api.ts.
+import { DocumentReference, DocumentSnapshot, FieldPath, FieldValue, Query, Timestamp, Transaction } from "firebase-admin/firestore";
+import type { Timestamp as StoredTimestamp } from "firebase/firestore";
+import { getAdminAuth, getAdminDb } from "./firebaseAdmin";
+import type {
+  EventData,
+  GroupMeal,
+  Match,
+  Notification,
+  UserProfile,
+  WeeklyAvailabilityData,
+} from "./api";
+import { BusyInterval, formatDateKey, getMonday } from "./availability";
+import { toEventData } from "./eventDocs";
+import { DEFAULT_MEAL_LOCATIONS, formatEventLocation } from "./locations";
+import {
+  ScoringConfig,
+  DEFAULT_SCORING_CONFIG,
+  getBaselineScores,
+  getMatchReasons,
+  normalizeScoringConfig,
+} from "./scoring";
+import { getPairKey } from "./seating";
+import { getEventInterval, removeBusySlots } from "./conflicts";
+import { isCheckInOpen, isValidCheckInCode } from "./checkIn";
+import { isEventHost } from "./hosts";
+import { canViewEvent, getEventVisibility, needsCreatorFriends } from "./visibility";
+import {
+  DEFAULT_MAX_MATCHES_PER_USER,
+  MatchCandidate,
+  PlannedMatch,
+  alignAvailabilityToWeek,
+  getSharedSlots,
+  planBatchMatches,
+} from "./batchMatching";
+import {
+  PlannedGroupMeal,
+  MIN_GROUP_QUORUM,
+  MAX_GROUP_SIZE,
+  getGroupKey,
+  getGroupQuorum,
+  planGroupMeals,
+} from "./groupMatching";
+import { MATCHED_MEAL_DURATION_MINUTES } from "./ics";
+import { createRandom, createSeed } from "./random";
+import { Clock, systemClock, ReminderTarget, PlannedReminder, planReminders } from "./reminders";
+import { NotificationChannel } from "./notificationChannels";
+
+const MAX_BATCH_WRITES = 500; // Firestore's limit per batch
+
+// Firestore allows at most 30 values in an `in` filter
+const MAX_IN_QUERY_VALUES = 30;
+
+const getCollection = (path: string) => getAdminDb().collection(path);
+
+// The shared types use the client SDK's Timestamp. The Admin SDK's is stored the same way and has
+// the same methods apart from toJSON, which nothing calls on stored data.
+const asStored = (timestamp: Timestamp): StoredTimestamp => timestamp as unknown as StoredTimestamp;
+
+const mapSnapToEvent = (docSnap: DocumentSnapshot): EventData =>
+  toEventData(docSnap.id, docSnap.data() ?? {}, millis => asStored(Timestamp.fromMillis(millis)));
+
+// --- Request Auth --- 
+
+// The signed-in user behind a route request, from the Firebase ID token the client sends as
+// `Authorization: Bearer <token>` (see callServerRoute in lib/api.ts), or null without a valid one
+export const getRequestUserId = async (request: Request): Promise<string | null> => {
+  const idToken = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+  if (!idToken) return null;
+  try {
+    return (await getAdminAuth().verifyIdToken(idToken)).uid;
+  } catch {
+    return null;
+  }
+};
+
+// --- Users --- 
+
+// Profiles keyed by UID, one query per 30 users; users without a profile are left out
+const getUserProfiles = async (userIds: string[]): Promise<Record<string, UserProfile>> => {
+  const uniqueIds = Array.from(new Set(userIds));
+  const profiles: Record<string, UserProfile> = {};
+  for (let i = 0; i < uniqueIds.length; i += MAX_IN_QUERY_VALUES) {
+    const chunk = uniqueIds.slice(i, i + MAX_IN_QUERY_VALUES);
+    const snapshot = await getCollection("users").where(FieldPath.documentId(), "in", chunk).get();
+    snapshot.docs.forEach(docSnap => {
+      profiles[docSnap.id] = docSnap.data() as UserProfile;
+    });
+  }
+  return profiles;
+};
+
+// --- Events --- 
+
+// The events a user is going to that start on or after `from`, soonest first (see getJoinedEvents in lib/api.ts)
+export const getJoinedEvents = async (userId: string, from: Date): Promise<EventData[]> => {
+  const [rsvpSnapshot, legacySnapshot] = await Promise.all([
+    getCollection("events").where(`rsvps.${userId}.status`, "==", "going").get(),
+    getCollection("events")
+      .where("participants", "array-contains", userId)
+      .where("start", ">=", Timestamp.fromDate(from))
+      .get(),
+  ]);
+  const eventsById = new Map<string, EventData>();
+  [...rsvpSnapshot.docs, ...legacySnapshot.docs].map(mapSnapToEvent).forEach(event => {
+    if (event.id) eventsById.set(event.id, event);
+  });
+  return Array.from(eventsById.values())
+    .filter(event => event.start.toDate() >= from && event.participants.includes(userId))
+    .sort((a, b) => a.start.toMillis() - b.start.toMillis());
+};
+
+const getJoinedEventIntervals = async (userId: string, from: Date): Promise<BusyInterval[]> =>
+  (await getJoinedEvents(userId, from)).filter(event => !event.cancelled).map(getEventInterval);
+
+// Most events one page request may ask for; the calendar views load a whole range at once
+const MAX_EVENT_PAGE_SIZE = 200;
+// Hidden (cancelled or private) events can leave a page short; stop topping it up after this many reads
+const MAX_PAGE_FETCHES = 5;
+
+export interface EventPageQuery {
+  viewerId: string | null; // Signed-in user; anonymous viewers only see public events
+  locationName?: string;
+  from?: Date; // Earliest start, inclusive
+  to?: Date; // Latest start, inclusive
+  pageSize: number;
+  cursor?: string | null; // `nextCursor` from the previous page
+}
+
+export interface VisibleEventPage {
+  events: EventData[];
+  nextCursor: string | null; // Null once there are no more events
+}
+
+// Cursors are the last event's start and ID, the two fields pages are ordered by
+const formatEventCursor = (docSnap: DocumentSnapshot): string =>
+  `${(docSnap.get("start") as Timestamp).toMillis()}_${docSnap.id}`;
+
+const parseEventCursor = (cursor: string): [Timestamp, string] | null => {
+  const match = cursor.match(/^(\d+)_(.+)$/);
+  return match ? [Timestamp.fromMillis(Number(match[1])), match[2]] : null;
+};
+
+// Friends lists of the given creators, keyed by UID
+const getCreatorFriends = async (creatorIds: string[]): Promise<Record<string, string[]>> => {
+  const profiles = creatorIds.length > 0 ? await getUserProfiles(creatorIds) : {};
+  return Object.fromEntries(creatorIds.map(creatorId => [creatorId, profiles[creatorId]?.friends || []]));
+};
+
+// Drop the events a viewer isn't allowed to see, looking up each friends-only creator once
+const filterVisibleEvents = async (events: EventData[], viewerId: string | null): Promise<EventData[]> => {
+  const creatorIds = Array.from(new Set(
+    events.filter(event => needsCreatorFriends(event, viewerId)).map(event => event.creator)
+  ));
+  const friendsByCreator = await getCreatorFriends(creatorIds);
+  return events.filter(event => canViewEvent(event, viewerId, friendsByCreator[event.creator]));
+};
+
+// One page of events, soonest first, for the event list (see getAllEvents in lib/api.ts). Clients
+// can only list events they're part of, so the visibility check happens here. Cancelled and hidden
+// events are skipped, and the page is topped up so callers get a full page whenever more exist.
+export const getVisibleEventPage = async ({
+  viewerId,
+  locationName,
+  from,
+  to,
+  pageSize,
+  cursor = null,
+}: EventPageQuery): Promise<VisibleEventPage> => {
+  const limit = Math.min(Math.max(1, pageSize), MAX_EVENT_PAGE_SIZE);
+  let eventsQuery: Query = getCollection("events");
+  if (locationName) eventsQuery = eventsQuery.where("location.name", "==", locationName);
+  if (from) eventsQuery = eventsQuery.where("start", ">=", Timestamp.fromDate(from));
+  if (to) eventsQuery = eventsQuery.where("start", "<=", Timestamp.fromDate(to));
+  eventsQuery = eventsQuery.orderBy("start", "asc").orderBy(FieldPath.documentId(), "asc");
+
+  const events: EventData[] = [];
+  let position = cursor ? parseEventCursor(cursor) : null;
+  let lastCursor = cursor;
+  let hasMore = true;
+
+  for (let fetches = 0; fetches < MAX_PAGE_FETCHES && hasMore && events.length < limit; fetches++) {
+    const snapshot = await (position ? eventsQuery.startAfter(...position) : eventsQuery).limit(limit).get();
+    hasMore = snapshot.docs.length === limit;
+
+    const candidates = snapshot.docs.map(mapSnapToEvent).filter(event => !event.cancelled);
+    const visibleById = new Map((await filterVisibleEvents(candidates, viewerId)).map(event => [event.id, event]));
+
+    for (let i = 0; i < snapshot.docs.length; i++) {
+      const eventDoc = snapshot.docs[i];
+      lastCursor = formatEventCursor(eventDoc);
+      position = [eventDoc.get("start") as Timestamp, eventDoc.id];
+      const event = visibleById.get(eventDoc.id);
+      if (event) events.push(event);
+      if (events.length === limit) {
+        // Unread documents in this batch mean there's at least one more page
+        if (i < snapshot.docs.length - 1) hasMore = true;
+        break;
+      }
+    }
+  }
+
+  return { events, nextCursor: hasMore ? lastCursor : null };
+};
+
+// --- Event Invites --- 
+
+// Invite links carry a token that is the ID of a document here, so checking a link is a single
+// read and the token never sits on the event. Clients can't read them at all: hosts get the token
+// and guests redeem it through the invite route.
+const EVENT_INVITES = "eventInvites";
+
+const generateInviteToken = (): string => crypto.randomUUID().replace(/-/g, '');
+
+// The token for an invite-only event's link (hosts only), created on first use. Each occurrence
+// of a series gets its own. Events from before invites had their own collection kept the token on
+// the event document; that field is removed when the new invite is created, so old links stop working.
+export const getEventInviteToken = async (eventId: string, userId: string): Promise<string> => {
+  const eventRef = getCollection("events").doc(eventId);
+  const eventSnap = await eventRef.get();
+  if (!eventSnap.exists) throw new Error("Event not found.");
+  const event = mapSnapToEvent(eventSnap);
+  if (!isEventHost(event, userId)) throw new Error("Only the event's hosts can see the invite link.");
+  if (event.cancelled) throw new Error("This event has already been cancelled.");
+  if (getEventVisibility(event) !== 'invite') throw new Error("Only invite-only events have an invite link.");
+
+  try {
+    const inviteSnap = await getCollection(EVENT_INVITES).where("eventId", "==", eventId).limit(1).get();
+    if (!inviteSnap.empty) return inviteSnap.docs[0].id;
+
+    const inviteToken = generateInviteToken();
+    const batch = getAdminDb().batch();
+    batch.set(getCollection(EVENT_INVITES).doc(inviteToken), { eventId, createdAt: Timestamp.now() });
+    batch.update(eventRef, { inviteToken: FieldValue.delete() });
+    await batch.commit();
+    return inviteToken;
+  } catch (error) {
+    console.error("Error getting invite link: ", error);
+    throw new Error("Failed to load the invite link");
+  }
+};
+
+// Open an event through its invite link. A signed-in viewer is recorded as a guest
+// (events/{eventId}/guests/{uid}), which is what lets the Firestore rules show them the event from then on.
+export const openEventInvite = async (eventId: string, inviteToken: string, viewerId: string | null): Promise<EventData> => {
+  const eventRef = getCollection("events").doc(eventId);
+  const [inviteSnap, eventSnap] = await Promise.all([getCollection(EVENT_INVITES).doc(inviteToken).get(), eventRef.get()]);
+  if (!eventSnap.exists) throw new Error("Event not found.");
+  if (!inviteSnap.exists || inviteSnap.data()?.eventId !== eventId) {
+    throw new Error("This invite link isn't valid. Ask the host for a new one.");
+  }
+
+  try {
+    if (viewerId) {
+      await eventRef.collection("guests").doc(viewerId).set({ invitedAt: Timestamp.now() });
+    }
+    return mapSnapToEvent(eventSnap);
+  } catch (error) {
+    console.error("Error opening event invite: ", error);
+    throw new Error("Failed to open the invite");
+  }
+};
+
+// --- Event Check-In --- 
+
+// Check a going participant in with the code a host is showing (see checkInToEvent in lib/api.ts).
+// This runs on the server so participants never see the secret the code comes from.
+export const checkInToEvent = async (eventId: string, userId: string, code: string): Promise<void> => {
+  const eventRef = getCollection("events").doc(eventId);
+  const eventSnap = await eventRef.get();
+  if (!eventSnap.exists) throw new Error("Event not found.");
+  const event = mapSnapToEvent(eventSnap);
+  if (event.cancelled) throw new Error("This event has been cancelled.");
+  if (!event.participants.includes(userId)) throw new Error("Only people going to this event can check in.");
+  if (event.attendance[userId]?.status === 'attended') return;
+  const now = new Date();
+  if (!isCheckInOpen(event, now)) throw new Error("Check-in is only open during the event.");
+  const secretSnap = await getCollection("eventCheckInSecrets").doc(eventId).get();
+  const secret = secretSnap.data()?.secret as string | undefined;
+  if (!secret || !isValidCheckInCode(secret, code, now)) {
+    throw new Error("That code isn't valid. Ask the host for the current code.");
+  }
+
+  try {
+    await eventRef.update({
+      [`attendance.${userId}`]: { status: 'attended', recordedAt: Timestamp.now() },
+    });
+  } catch (error) {
+    console.error("Error checking in to event: ", error);
+    throw new Error("Failed to check in");
+  }
+};
+
+// --- Availability and Scores --- 
+
+// A user's availability for the week containing `weekDate`, falling back to their repeating schedule
+const getUserAvailability = async (userId: string, weekDate: Date): Promise<WeeklyAvailabilityData | null> => {
+  const weekKey = formatDateKey(getMonday(weekDate));
+  const weekSnap = await getCollection("userAvailability").doc(`${userId}_${weekKey}`).get();
+  if (weekSnap.exists) return weekSnap.data() as WeeklyAvailabilityData;
+  const repeatingSnap = await getCollection("userAvailability").doc(`${userId}_repeating`).get();
+  return repeatingSnap.exists
+    ? { ...(repeatingSnap.data() as WeeklyAvailabilityData), weekStartDate: weekKey }
+    : null;
+};
+
+const getScoringConfig = async (): Promise<ScoringConfig> => {
+  try {
+    const configSnap = await getCollection("config").doc("scoring").get();
+    return normalizeScoringConfig(configSnap.exists ? configSnap.data() : null);
+  } catch (error) {
+    console.error("Error getting scoring config:", error);
+    return DEFAULT_SCORING_CONFIG; // Default to the built-in scoring if the config can't be read
+  }
+};
+
+// Stored priority scores for every pair in the group, keyed by getPairKey, with baseline scores
+// for pairs that don't have one yet
+const getPriorityScores = async (
+  userIds: string[],
+  profiles: Record<string, UserProfile>,
+  scoringConfig: ScoringConfig
+): Promise<Record<string, number>> => {
+  const uniqueIds = Array.from(new Set(userIds));
+  const scores = getBaselineScores(uniqueIds, profiles, scoringConfig);
+  const idSet = new Set(uniqueIds);
+  for (let i = 0; i < uniqueIds.length; i += MAX_IN_QUERY_VALUES) {
+    const chunk = uniqueIds.slice(i, i + MAX_IN_QUERY_VALUES);
+    const snapshot = await getCollection("priorityScores").where("user1Id", "in", chunk).get();
+    snapshot.docs.forEach(docSnap => {
+      const data = docSnap.data();
+      if (idSet.has(data.user2Id)) scores[getPairKey(data.user1Id, data.user2Id)] = data.score;
+    });
+  }
+  return scores;
+};
+
+const getMealLocations = async (): Promise<string[]> => {
+  const locationsSnapshot = await getCollection("locations").get();
+  return locationsSnapshot.docs.map(docSnap => docSnap.data().name as string);
+};
+
+// --- Reminders --- 
+
+// One document per reminder sent, keyed by getReminderKey, so overlapping runs never repeat one
+const SENT_REMINDERS = "sentReminders";
+
+export interface ReminderRunOptions {
+  clock?: Clock;
+  offsetsMinutes: number[];
+  channels?: NotificationChannel[]; // Delivery beyond the in-app notification list
+}
+
+export interface ReminderRunResult {
+  sent: number;
+  deliveryFailures: number;
+}
+
+// Upcoming events and matched meals that fall within the longest reminder offset
+const getReminderTargets = async (now: Date, horizon: Date): Promise<ReminderTarget[]> => {
+  const [eventsSnapshot, matchesSnapshot] = await Promise.all([
+    getCollection("events")
+      .where("start", ">", Timestamp.fromDate(now))
+      .where("start", "<=", Timestamp.fromDate(horizon))
+      .orderBy("start")
+      .get(),
+    getCollection("matches")
+      .where("status", "==", "matched")
+      .where("suggestedTime", ">", Timestamp.fromDate(now))
+      .where("suggestedTime", "<=", Timestamp.fromDate(horizon))
+      .get(),
+  ]);
+
+  const eventTargets: ReminderTarget[] = eventsSnapshot.docs
+    .map(mapSnapToEvent)
+    .filter(event => !event.cancelled && event.id)
+    .map(event => ({
+      kind: 'event',
+      id: event.id as string,
+      userIds: event.participants,
+      startsAt: event.start.toDate(),
+      title: event.name,
+      location: event.location ? formatEventLocation(event.location) : undefined,
+    }));
+
+  const matches = matchesSnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Match));
+  const profiles = matches.length > 0
+    ? await getUserProfiles(matches.flatMap(match => [match.userId, match.matchUserId]))
+    : {};
+  const matchTargets: ReminderTarget[] = matches.flatMap(match =>
+    [[match.userId, match.matchUserId], [match.matchUserId, match.userId]].map(([userId, otherUserId]) => ({
+      kind: 'match' as const,
+      id: match.id,
+      userIds: [userId],
+      startsAt: match.suggestedTime.toDate(),
+      title: `Your meal with ${profiles[otherUserId]?.displayName || 'your match'}`,
+      location: match.suggestedLocation,
+    }))
+  );
+
+  return [...eventTargets, ...matchTargets];
+};
+
+// Which of the candidate reminder keys have already been sent
+const getSentReminderKeys = async (keys: string[]): Promise<Set<string>> => {
+  const sentKeys = new Set<string>();
+  for (let i = 0; i < keys.length; i += MAX_IN_QUERY_VALUES) {
+    const chunk = keys.slice(i, i + MAX_IN_QUERY_VALUES);
+    const snapshot = await getCollection(SENT_REMINDERS).where(FieldPath.documentId(), "in", chunk).get();
+    snapshot.docs.forEach(docSnap => sentKeys.add(docSnap.id));
+  }
+  return sentKeys;
+};
+
+const buildReminderNotification = (reminder: PlannedReminder): { ref: DocumentReference; notification: Notification } => {
+  const ref = getCollection("notifications").doc();
+  return {
+    ref,
+    notification: {
+      id: ref.id,
+      userId: reminder.userId,
+      type: reminder.kind === 'event' ? 'event_reminder' : 'match_reminder',
+      content: reminder.content,
+      ...(reminder.kind === 'event' ? { relatedEventId: reminder.targetId } : { relatedMatchId: reminder.targetId }),
+      read: false,
+      createdAt: asStored(Timestamp.now())
+    }
+  };
+};
+
+// Send every reminder that has come due: each is stored as a notification, recorded in
+// `sentReminders` and then handed to the configured channels. Meant to run on a schedule;
+// the clock is injectable so runs can be simulated at any time.
+export const sendDueReminders = async ({
+  clock = systemClock,
+  offsetsMinutes,
+  channels = [],
+}: ReminderRunOptions): Promise<ReminderRunResult> => {
+  const now = clock();
+  const horizon = new Date(now.getTime() + Math.max(0, ...offsetsMinutes) * 60000);
+
+  const notifications: Notification[] = [];
+  try {
+    const targets = await getReminderTargets(now, horizon);
+    const candidateKeys = planReminders(targets, offsetsMinutes, now, new Set())
+      .flatMap(reminder => [reminder.key, ...reminder.coveredKeys]);
+    const sentKeys = await getSentReminderKeys(candidateKeys);
+    const reminders = planReminders(targets, offsetsMinutes, now, sentKeys);
+
+    // Each reminder writes its notification plus up to one record per offset
+    const remindersPerBatch = Math.floor(MAX_BATCH_WRITES / (offsetsMinutes.length + 1));
+    for (let i = 0; i < reminders.length; i += remindersPerBatch) {
+      const batch = getAdminDb().batch();
+      reminders.slice(i, i + remindersPerBatch).forEach(reminder => {
+        const { ref, notification } = buildReminderNotification(reminder);
+        batch.set(ref, notification);
+        [reminder.key, ...reminder.coveredKeys].forEach(key => {
+          batch.set(getCollection(SENT_REMINDERS).doc(key), { userId: reminder.userId, sentAt: Timestamp.now() });
+        });
+        notifications.push(notification);
+      });
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error("Error sending reminders: ", error);
+    throw new Error("Failed to send reminders");
+  }
+
+  // The in-app notifications are already saved, so a failing channel doesn't stop the run
+  let deliveryFailures = 0;
+  for (const channel of channels) {
+    const results = await Promise.allSettled(notifications.map(notification => channel.deliver(notification)));
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        deliveryFailures++;
+        console.error(`Error delivering reminder via ${channel.name}: `, result.reason);
+      }
+    });
+  }
+  return { sent: notifications.length, deliveryFailures };
+};
+
+// --- Weekly Matching --- 
+
+// One document per matched week, keyed by its Monday, so a week is only ever matched once.
+// Each run records its seed and, in an `inputs` subcollection, exactly what the matcher was given.
+// The record is written as in progress before anything else, so a retry after a partial failure
+// picks up the same seed and, once they're recorded, the same inputs.
+const MATCHING_RUNS = "matchingRuns";
+
+// How long an unfinished run keeps the week to itself. The owner renews it between steps; after
+// it runs out (the invocation died or timed out) the next one takes over.
+const MATCHING_LEASE_MS = 10 * 60 * 1000;
+
+export interface MatchingRunOptions {
+  clock?: Clock;
+  weekDate?: Date; // Any day in the week to match; defaults to the current week
+  maxMatchesPerUser?: number;
+  seed?: number; // A fresh seed is drawn when omitted; ignored when retrying an unfinished run
+  groupQuorum?: number; // Acceptances a group meal needs; everyone in the group when omitted
+}
+
+export interface MatchingRunResult {
+  weekKey: string;
+  seed: number | null; // Null when the week had already been matched
+  candidates: number;
+  matchesCreated: number;
+  groupMealsCreated: number;
+  alreadyRan: boolean; // Also set while another invocation holds the week's lease
+}
+
+export interface PlannedWeek {
+  matches: PlannedMatch[];
+  groupMeals: PlannedGroupMeal[];
+}
+
+type MatchingRunStatus = 'in_progress' | 'complete';
+
+interface MatchingRunRecord {
+  weekKey: string;
+  status?: MatchingRunStatus; // Missing on runs recorded before retries were tracked, which all completed
+  ranAt: Timestamp;
+  seed: number;
+  maxMatchesPerUser: number;
+  fallbackLocations: string[];
+  candidateIds: string[]; // In the order the matcher saw them, which the shuffle depends on
+  candidates: number;
+  matchesCreated: number;
+  groupMealsCreated?: number;
+  scoringConfig?: ScoringConfig; // Which strategy and weights produced the baseline scores
+}
+
+// The settings a week is planned with besides its seed and cap, known once the inputs are recorded
+type RecordedInputs = Pick<MatchingRunRecord, 'fallbackLocations' | 'candidateIds'> & { scoringConfig: ScoringConfig };
+
+// An unfinished run: who holds the week and until when. From the moment `recorded` is set, every
+// attempt plans from the recorded inputs rather than live data.
+interface MatchingRunClaim extends Pick<MatchingRunRecord, 'weekKey' | 'ranAt' | 'seed' | 'maxMatchesPerUser'> {
+  status: 'in_progress';
+  ownerId: string;
+  leaseExpiresAt: Timestamp;
+  recorded?: RecordedInputs;
+}
+
+// What the matcher knew about one candidate. Priority scores are stored once per pair, on the
+// candidate that comes first in `candidateIds`.
+interface MatchingRunInput extends MatchCandidate {
+  priorityScores: Record<string, number>;
+  groupMeals?: boolean; // Opted in to group meals; missing from runs made before they existed
+}
+
+const getMatchingRunInputsCollection = (weekKey: string) => getCollection(MATCHING_RUNS).doc(weekKey).collection("inputs");
+
+// A user's free slots for the week: their availability lined up with the week, minus the time
+// that has already passed and events they joined
+const getMatchCandidate = async (profile: UserProfile, weekStart: Date, now: Date): Promise<MatchCandidate> => {
+  const [availability, joinedEvents] = await Promise.all([
+    getUserAvailability(profile.uid, weekStart),
+    getJoinedEventIntervals(profile.uid, weekStart),
+  ]);
+  const busy: BusyInterval[] = [{ start: new Date(0), end: now }, ...joinedEvents];
+  return {
+    uid: profile.uid,
+    availability: removeBusySlots(alignAvailabilityToWeek(availability?.availability ?? {}, weekStart), busy),
+    favoriteDiningHalls: profile.surveyData?.favoriteDiningHalls ?? [],
+  };
+};
+
+// Group meals first, from the people who opted in, then one-on-one matches for everyone. A group
+// meal counts towards the per-user cap and its time is kept free. Both steps draw from one
+// generator, so the run and its replay have to go through here in the same order.
+const planWeek = (
+  candidates: MatchCandidate[],
+  groupCandidateIds: Set<string>,
+  getScore: (userId1: string, userId2: string) => number,
+  { maxMatchesPerUser, fallbackLocations, seed }: { maxMatchesPerUser: number; fallbackLocations: string[]; seed: number }
+): PlannedWeek => {
+  const random = createRandom(seed);
+  const groupMeals = planGroupMeals(candidates.filter(candidate => groupCandidateIds.has(candidate.uid)), getScore, { random });
+  const alreadyBooked: Record<string, BusyInterval[]> = {};
+  groupMeals.forEach(groupMeal => {
+    const meal = { start: groupMeal.time, end: new Date(groupMeal.time.getTime() + MATCHED_MEAL_DURATION_MINUTES * 60 * 1000) };
+    groupMeal.memberIds.forEach(uid => {
+      alreadyBooked[uid] = [...(alreadyBooked[uid] ?? []), meal];
+    });
+  });
+  const matches = planBatchMatches(candidates, getScore, { maxMatchesPerUser, fallbackLocations, random, alreadyBooked });
+  return { matches, groupMeals };
+};
+
+// Plan a week from what was recorded about it. First attempts, retries and replays all plan
+// through here, so they come up with the same matches.
+const planRecordedWeek = (
+  run: Pick<MatchingRunRecord, 'seed' | 'maxMatchesPerUser' | 'fallbackLocations' | 'candidateIds'>,
+  inputs: Map<string, MatchingRunInput>
+): PlannedWeek => {
+  const candidates = run.candidateIds.map(uid => {
+    const input = inputs.get(uid);
+    if (!input) throw new Error(`Missing matching input for ${uid}`);
+    return input;
+  });
+  const getRecordedScore = (userId1: string, userId2: string): number =>
+    inputs.get(userId1)?.priorityScores[userId2] ?? inputs.get(userId2)?.priorityScores[userId1] ?? 0;
+  return planWeek(
+    candidates.map(({ uid, availability, favoriteDiningHalls }) => ({ uid, availability, favoriteDiningHalls })),
+    new Set(candidates.filter(candidate => candidate.groupMeals).map(candidate => candidate.uid)),
+    getRecordedScore,
+    { maxMatchesPerUser: run.maxMatchesPerUser, fallbackLocations: run.fallbackLocations, seed: run.seed }
+  );
+};
+
+const getRecordedInputs = async (weekKey: string): Promise<Map<string, MatchingRunInput>> => {
+  const inputsSnapshot = await getMatchingRunInputsCollection(weekKey).get();
+  return new Map(inputsSnapshot.docs.map(docSnap => [docSnap.id, docSnap.data() as MatchingRunInput]));
+};
+
+// Everything the matcher needs about this week's candidates, read from live data, in the order
+// the matcher will see them
+const gatherMatchingInputs = async (weekStart: Date, now: Date): Promise<{
+  profiles: Record<string, UserProfile>;
+  inputs: MatchingRunInput[];
+  fallbackLocations: string[];
+  scoringConfig: ScoringConfig;
+}> => {
+  const usersSnapshot = await getCollection("users").where('surveyCompleted', '==', true).get();
+  const profiles: Record<string, UserProfile> = {};
+  usersSnapshot.forEach(docSnap => {
+    const profile = docSnap.data() as UserProfile;
+    profiles[profile.uid] = profile;
+  });
+  const candidates = (await Promise.all(
+    Object.values(profiles).map(profile => getMatchCandidate(profile, weekStart, now))
+  )).filter(candidate => Object.keys(candidate.availability).length > 0);
+
+  const scoringConfig = await getScoringConfig();
+  const [priorityScores, locations] = await Promise.all([
+    getPriorityScores(candidates.map(candidate => candidate.uid), profiles, scoringConfig),
+    getMealLocations(),
+  ]);
+  const inputs: MatchingRunInput[] = candidates.map((candidate, index) => ({
+    ...candidate,
+    priorityScores: Object.fromEntries(
+      candidates.slice(index + 1).map(other => [other.uid, priorityScores[getPairKey(candidate.uid, other.uid)]])
+    ),
+    groupMeals: !!profiles[candidate.uid].surveyData?.groupMeals,
+  }));
+  return {
+    profiles,
+    inputs,
+    fallbackLocations: locations.length > 0 ? locations : DEFAULT_MEAL_LOCATIONS,
+    scoringConfig,
+  };
+};
+
+// Claim a week for this invocation: a fresh run, or an unfinished one whose lease has run out,
+// keeping its settings. Null when the week is done or someone else holds it.
+const claimMatchingRun = async (
+  runRef: DocumentReference,
+  ownerId: string,
+  clock: Clock,
+  fresh: Pick<MatchingRunRecord, 'weekKey' | 'seed' | 'maxMatchesPerUser'>
+): Promise<MatchingRunClaim | null> =>
+  getAdminDb().runTransaction(async (transaction) => {
+    const runSnap = await transaction.get(runRef);
+    const now = clock();
+    const leaseExpiresAt = Timestamp.fromMillis(now.getTime() + MATCHING_LEASE_MS);
+    if (runSnap.exists) {
+      const existing = runSnap.data() as MatchingRunRecord | MatchingRunClaim;
+      if (existing.status !== 'in_progress') return null;
+      const unfinished = existing as MatchingRunClaim;
+      // Runs claimed before leases existed have none; treat them as abandoned
+      if (unfinished.leaseExpiresAt && unfinished.leaseExpiresAt.toMillis() > now.getTime()) return null;
+      const takenOver: MatchingRunClaim = { ...unfinished, ownerId, leaseExpiresAt };
+      transaction.set(runRef, takenOver);
+      return takenOver;
+    }
+    const claim: MatchingRunClaim = { ...fresh, status: 'in_progress', ranAt: Timestamp.fromDate(now), ownerId, leaseExpiresAt };
+    transaction.set(runRef, claim);
+    return claim;
+  });
+
+// Write the run record, but only while this invocation still holds the week. Throws if another
+// invocation took it over in the meantime, so this one stops writing.
+const writeOwnedRun = async (
+  runRef: DocumentReference,
+  ownerId: string,
+  write: (transaction: Transaction) => void
+): Promise<void> =>
+  getAdminDb().runTransaction(async (transaction) => {
+    const runSnap = await transaction.get(runRef);
+    if ((runSnap.data() as MatchingRunClaim | undefined)?.ownerId !== ownerId) {
+      throw new Error("Another invocation took over this week's matching");
+    }
+    write(transaction);
+  });
+
+// Extend this invocation's lease before its next step
+const renewMatchingLease = (runRef: DocumentReference, ownerId: string, clock: Clock, changes: Partial<MatchingRunClaim> = {}) =>
+  writeOwnedRun(runRef, ownerId, transaction => transaction.update(runRef, {
+    ...changes,
+    leaseExpiresAt: Timestamp.fromMillis(clock().getTime() + MATCHING_LEASE_MS),
+  }));
+
+// Write each document together with the ones that belong to it (its notifications), in one
+// transaction per chunk, skipping every document whose main document already exists. A retry
+// therefore leaves alone whatever the members already answered.
+const createMissingDocs = async (
+  items: Array<{ ref: DocumentReference; data: object; related: Array<{ ref: DocumentReference; data: object }> }>,
+  writesPerItem: number
+): Promise<void> => {
+  const itemsPerChunk = Math.floor(MAX_BATCH_WRITES / writesPerItem);
+  for (let i = 0; i < items.length; i += itemsPerChunk) {
+    const chunk = items.slice(i, i + itemsPerChunk);
+    await getAdminDb().runTransaction(async (transaction) => {
+      const snapshots = await transaction.getAll(...chunk.map(item => item.ref));
+      chunk.forEach((item, index) => {
+        if (snapshots[index].exists) return;
+        transaction.create(item.ref, item.data);
+        item.related.forEach(related => transaction.set(related.ref, related.data));
+      });
+    });
+  }
+};
+
+const describeNewMatch = (planned: PlannedMatch): string =>
+  `You have a new meal match! Meet at ${planned.location} on ${planned.time.toLocaleDateString()} at ${planned.time.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}.`;
+
+const describeNewGroupMeal = (planned: PlannedGroupMeal): string =>
+  `You've been matched into a group meal with ${planned.memberIds.length - 1} others! Meet at ${planned.location} on ${planned.time.toLocaleDateString()} at ${planned.time.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}.`;
+
+// Match every user who finished the survey for a week in one pass: group meals for those who
+// opted in, then a maximum-weight matching over priority scores and shared free time, capped per
+// user. Each match or group meal is one document every member sees, and all of them are notified.
+// One invocation at a time holds the week (see claimMatchingRun). A retry after a partial failure
+// reuses the unfinished run's seed, time, per-user cap and recorded inputs, so it plans the same
+// matches; document IDs are derived from the week and the people, and ones that already exist are
+// skipped rather than reset.
+export const runWeeklyMatching = async ({
+  clock = systemClock,
+  weekDate,
+  maxMatchesPerUser: requestedMaxMatchesPerUser = DEFAULT_MAX_MATCHES_PER_USER,
+  seed: requestedSeed,
+  groupQuorum,
+}: MatchingRunOptions = {}): Promise<MatchingRunResult> => {
+  if (!Number.isInteger(requestedMaxMatchesPerUser) || requestedMaxMatchesPerUser < 1) {
+    throw new Error("Each user needs room for at least one match.");
+  }
+  if (groupQuorum !== undefined && (!Number.isInteger(groupQuorum) || groupQuorum < MIN_GROUP_QUORUM)) {
+    throw new Error(`A group meal quorum must be at least ${MIN_GROUP_QUORUM} people.`);
+  }
+  const weekStart = getMonday(weekDate ?? clock());
+  const weekKey = formatDateKey(weekStart);
+
+  try {
+    const runRef = getCollection(MATCHING_RUNS).doc(weekKey);
+    const ownerId = crypto.randomUUID();
+    const claim = await claimMatchingRun(runRef, ownerId, clock, {
+      weekKey,
+      seed: requestedSeed ?? createSeed(),
+      maxMatchesPerUser: requestedMaxMatchesPerUser,
+    });
+    if (!claim) {
+      return { weekKey, seed: null, candidates: 0, matchesCreated: 0, groupMealsCreated: 0, alreadyRan: true };
+    }
+    const { seed, maxMatchesPerUser } = claim;
+    const now = claim.ranAt.toDate();
+
+    let recorded: RecordedInputs;
+    let inputs: Map<string, MatchingRunInput>;
+    let profiles: Record<string, UserProfile>;
+    if (claim.recorded) {
+      recorded = claim.recorded;
+      inputs = await getRecordedInputs(weekKey);
+      profiles = await getUserProfiles(recorded.candidateIds);
+    } else {
+      const gathered = await gatherMatchingInputs(weekStart, now);
+      for (let i = 0; i < gathered.inputs.length; i += MAX_BATCH_WRITES) {
+        const batch = getAdminDb().batch();
+        gathered.inputs.slice(i, i + MAX_BATCH_WRITES).forEach(input => {
+          batch.set(getMatchingRunInputsCollection(weekKey).doc(input.uid), input);
+        });
+        await batch.commit();
+      }
+      recorded = {
+        fallbackLocations: gathered.fallbackLocations,
+        candidateIds: gathered.inputs.map(input => input.uid),
+        scoringConfig: gathered.scoringConfig,
+      };
+      await renewMatchingLease(runRef, ownerId, clock, { recorded });
+      inputs = new Map(gathered.inputs.map(input => [input.uid, input]));
+      profiles = gathered.profiles;
+    }
+    const { matches: planned, groupMeals: plannedGroups } = planRecordedWeek({ seed, maxMatchesPerUser, ...recorded }, inputs);
+
+    await renewMatchingLease(runRef, ownerId, clock);
+    // Each match is three writes: the match and a notification for each person
+    await createMissingDocs(planned.map(plannedMatch => {
+      const matchRef = getCollection("matches").doc(`${weekKey}_${getPairKey(plannedMatch.userId1, plannedMatch.userId2)}`);
+      const match: Omit<Match, 'id'> = {
+        userId: plannedMatch.userId1,
+        matchUserId: plannedMatch.userId2,
+        matchUser: profiles[plannedMatch.userId2],
+        participantIds: [plannedMatch.userId1, plannedMatch.userId2],
+        suggestedTime: asStored(Timestamp.fromDate(plannedMatch.time)),
+        suggestedLocation: plannedMatch.location,
+        status: 'pending',
+        createdAt: asStored(Timestamp.fromDate(now)),
+        priorityScore: plannedMatch.priorityScore,
+        weekKey,
+        reasons: getMatchReasons(
+          profiles[plannedMatch.userId1],
+          profiles[plannedMatch.userId2],
+          getSharedSlots(
+            inputs.get(plannedMatch.userId1)?.availability ?? {},
+            inputs.get(plannedMatch.userId2)?.availability ?? {}
+          )
+        ),
+      };
+      const related = [[plannedMatch.userId1, plannedMatch.userId2], [plannedMatch.userId2, plannedMatch.userId1]].map(([userId, otherUserId]) => {
+        const ref = getCollection("notifications").doc(`${matchRef.id}_${userId}`);
+        const notification: Notification = {
+          id: ref.id,
+          userId,
+          type: 'new_match',
+          content: describeNewMatch(plannedMatch),
+          relatedUserId: otherUserId,
+          relatedMatchId: matchRef.id,
+          read: false,
+          createdAt: asStored(Timestamp.fromDate(now))
+        };
+        return { ref, data: notification };
+      });
+      return { ref: matchRef, data: match, related };
+    }), 3);
+
+    await renewMatchingLease(runRef, ownerId, clock);
+    // Each group meal is the meal plus a notification per member
+    await createMissingDocs(plannedGroups.map(plannedGroup => {
+      const groupMealRef = getCollection("groupMeals").doc(`${weekKey}_${getGroupKey(plannedGroup.memberIds)}`);
+      const groupMeal: Omit<GroupMeal, 'id'> = {
+        memberIds: plannedGroup.memberIds,
+        suggestedTime: asStored(Timestamp.fromDate(plannedGroup.time)),
+        suggestedLocation: plannedGroup.location,
+        status: 'pending',
+        quorum: getGroupQuorum(plannedGroup.memberIds.length, groupQuorum),
+        acceptedBy: {},
+        declinedBy: [],
+        priorityScore: plannedGroup.priorityScore,
+        weekKey,
+        createdAt: asStored(Timestamp.fromDate(now)),
+      };
+      const related = plannedGroup.memberIds.map(userId => {
+        const ref = getCollection("notifications").doc(`${groupMealRef.id}_${userId}`);
+        const notification: Notification = {
+          id: ref.id,
+          userId,
+          type: 'new_group_meal',
+          content: describeNewGroupMeal(plannedGroup),
+          relatedGroupMealId: groupMealRef.id,
+          read: false,
+          createdAt: asStored(Timestamp.fromDate(now))
+        };
+        return { ref, data: notification };
+      });
+      return { ref: groupMealRef, data: groupMeal, related };
+    }), 1 + MAX_GROUP_SIZE);
+
+    const record: MatchingRunRecord = {
+      weekKey,
+      status: 'complete',
+      ranAt: claim.ranAt,
+      seed,
+      maxMatchesPerUser,
+      ...recorded,
+      candidates: recorded.candidateIds.length,
+      matchesCreated: planned.length,
+      groupMealsCreated: plannedGroups.length,
+    };
+    await writeOwnedRun(runRef, ownerId, transaction => transaction.set(runRef, record));
+    return {
+      weekKey,
+      seed,
+      candidates: recorded.candidateIds.length,
+      matchesCreated: planned.length,
+      groupMealsCreated: plannedGroups.length,
+      alreadyRan: false,
+    };
+  } catch (error) {
+    console.error("Error running weekly matching: ", error);
+    throw new Error("Failed to run weekly matching");
+  }
+};
+
+// Re-run a past week's matching from its recorded seed and inputs, without writing anything.
+// Gives back exactly the matches and group meals that run made, for looking into complaints.
+export const replayMatchingRun = async (weekKey: string): Promise<PlannedWeek> => {
+  const runSnap = await getCollection(MATCHING_RUNS).doc(weekKey).get();
+  if (!runSnap.exists) throw new Error("No matching run was recorded for that week.");
+  const run = runSnap.data() as MatchingRunRecord;
+  if (run.status === 'in_progress') throw new Error("That week's matching hasn't finished yet.");
+
+  try {
+    return planRecordedWeek(run, await getRecordedInputs(weekKey));
+  } catch (error) {
+    console.error("Error replaying matching run: ", error);
+    throw new Error("Failed to replay the matching run");
+  }
+};
+
+// --- Calendar Feed --- 
+
+// Each feed is a document whose auto-generated ID doubles as the secret token in the feed URL,
+// so subscribing never exposes the user's UID. Only the server reads or writes them.
+const CALENDAR_FEEDS = "calendarFeeds";
+
+// Get the user's calendar feed token, creating one on first use
+export const getOrCreateCalendarFeedToken = async (userId: string): Promise<string> => {
+  try {
+    const feedsSnapshot = await getCollection(CALENDAR_FEEDS).where("userId", "==", userId).limit(1).get();
+    if (!feedsSnapshot.empty) {
+      return feedsSnapshot.docs[0].id;
+    }
+
+    const feedRef = getCollection(CALENDAR_FEEDS).doc();
+    await feedRef.set({ userId, createdAt: Timestamp.now() });
+    return feedRef.id;
+  } catch (error) {
+    console.error("Error getting calendar feed token:", error);
+    throw new Error("Failed to set up calendar feed.");
+  }
+};
+
+// Resolve a feed token to the user it belongs to, or null if the token is unknown
+export const getCalendarFeedOwner = async (token: string): Promise<string | null> => {
+  try {
+    const feedSnap = await getCollection(CALENDAR_FEEDS).doc(token).get();
+    return feedSnap.exists ? (feedSnap.data()?.userId as string) : null;
+  } catch (error) {
+    console.error("Error resolving calendar feed token:", error);
+    throw new Error("Failed to load calendar feed.");
+  }
+};
+
+// The user's confirmed matches, each with the other person's profile (see getMatchedMeals in lib/api.ts)
+export const getMatchedMeals = async (userId: string): Promise<Match[]> => {
+  const [asCreator, asMatchedUser] = await Promise.all([
+    getCollection("matches").where("userId", "==", userId).where("status", "==", "matched").get(),
+    getCollection("matches").where("matchUserId", "==", userId).where("status", "==", "matched").get(),
+  ]);
+  const matches = [...asCreator.docs, ...asMatchedUser.docs].map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Match));
+  const profiles = await getUserProfiles(matches.map(match => match.userId === userId ? match.matchUserId : match.userId));
+  return matches.map(match => {
+    const otherUserId = match.userId === userId ? match.matchUserId : match.userId;
+    return { ...match, matchUser: profiles[otherUserId] || { uid: otherUserId, email: null, displayName: null } };
+  });
+};
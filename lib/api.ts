@@ -14,46 +14,181 @@ import {
   DocumentData,
   QueryDocumentSnapshot,
   FirestoreError,
+  DocumentReference,
   setDoc,
   writeBatch,
   increment,
+  runTransaction,
+  onSnapshot,
+  deleteDoc,
+  Unsubscribe,
+  deleteField,
+  documentId,
+  WriteBatch,
 } from "firebase/firestore";
 import { db, auth } from "./firebase";
 import { User } from "firebase/auth"; // Import User type
+import { RecurrenceRule, expandRecurrence, validateRecurrenceRule } from "./recurrence";
+import { EventLocation, formatEventLocation } from "./locations";
+import { getEventValidationError, getCommentValidationError } from "./validators";
+import { EventVisibility } from "./visibility";
+import {
+  MatchReasons,
+  ScoringConfig,
+  DEFAULT_SCORING_CONFIG,
+  calculateBaselineScore,
+  getBaselineScores,
+  getMatchReasons,
+  normalizeScoringConfig,
+} from "./scoring";
+import {
+  EventSeating,
+  SEATING_MIN_PARTICIPANTS,
+  MIN_TABLE_SIZE,
+  MAX_TABLE_SIZE,
+  FRIEND_PAIR_BONUS,
+  assignTables,
+  getPairKey,
+} from "./seating";
+import { EventTemplate, getTemplateFields, sortTemplates } from "./templates";
+import { fromWireValue, toEventData } from "./eventDocs";
+import { MAX_CO_HOSTS, getEventHosts, isEventHost } from "./hosts";
+import { formatDateKey, getMonday } from "./availability";
+import { ScheduleConflict, findScheduleConflicts, getEventInterval } from "./conflicts";
+import { getGroupMealStatus } from "./groupMatching";
+import {
+  EventRsvps,
+  RsvpStatus,
+  RsvpResult,
+  MAX_RSVP_NOTE_LENGTH,
+  getRsvpUserIds,
+  promoteWaitlist,
+  applyRsvpChange,
+} from "./rsvp";
+import {
+  EventAttendance,
+  AttendanceSummary,
+  summarizeAttendance,
+  getUnmarkedNoShows,
+} from "./checkIn";
 
 // Define the structure of an Event document
 export interface EventData {
   id?: string; // Optional: Only present after fetching or adding
   name: string;
+  description?: string;
+  tags?: string[]; // From EVENT_TAGS, e.g. "vegetarian" or "late night"
   start: Timestamp;
   end: Timestamp;
   capacity: number;
-  participants: string[]; // Array of user UIDs
+  location?: EventLocation; // Missing on events created before locations existed
+  rsvps: EventRsvps; // Going / maybe / can't-go answers keyed by user UID
+  participants: string[]; // Derived from `rsvps`: UIDs that are going, earliest first. Not stored.
+  waitlist: string[]; // Ordered array of user UIDs waiting for a spot (first in line at index 0)
   creator: string; // User UID
+  coHosts?: string[]; // UIDs the creator added to help run this event
+  seriesId?: string; // Present when the event is an occurrence of a recurring series
+  seriesDetached?: boolean; // True once this occurrence was edited on its own and no longer follows series edits
+  cancelled?: boolean;
+  visibility?: EventVisibility; // Missing on events created before visibility existed (treated as public)
+  attendance: EventAttendance; // Check-ins and no-shows keyed by user UID
+  seating?: EventSeating; // Table assignments, once the creator has seated a large event
 }
 
+// Fields a creator may change on an existing event
+export type EventUpdate = Partial<Pick<EventData, 'name' | 'description' | 'tags' | 'start' | 'end' | 'capacity' | 'location' | 'visibility'>>;
+
+// Optional filters shared by the event list queries
+export interface EventQueryOptions {
+  locationName?: string; // Only events at this location (matches EventLocation.name)
+  includePast?: boolean; // Events that started before today are hidden unless this is set
+  pageSize?: number; // Defaults to DEFAULT_EVENT_PAGE_SIZE
+  cursor?: EventCursor | null; // `nextCursor` from the previous page
+}
+
+// Opaque position in an event query; pass it back to fetch the following page
+export type EventCursor = string;
+
+export interface EventPage {
+  events: EventData[];
+  nextCursor: EventCursor | null; // Null once there are no more events
+}
+
+export const DEFAULT_EVENT_PAGE_SIZE = 20;
+
+// Result of a join attempt: either a spot was taken or the user was added to the waitlist
+export type JoinEventResult = 'joined' | 'waitlisted';
+
+export interface JoinEventOutcome {
+  result: JoinEventResult;
+  conflicts: ScheduleConflict[]; // Other plans at the same time. These are warnings; the join still goes ahead.
+}
+
+// Events that started up to a day before another one can still be running when it starts
+const CONFLICT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// Call one of the app's route handlers, as the signed-in user if there is one. The route checks
+// the ID token (see getRequestUserId in lib/adminApi.ts); its `error` message is thrown on failure.
+const callServerRoute = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const currentUser = auth.currentUser;
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...init.headers,
+      ...(currentUser ? { Authorization: `Bearer ${await currentUser.getIdToken()}` } : {}),
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || "Something went wrong. Please try again.");
+  return body as T;
+};
+
+const MAX_BATCH_WRITES = 500; // Firestore's limit per batch
+
+type BatchWrite = (batch: WriteBatch) => void;
+
+// Commit groups of writes in as few batches as Firestore allows. A group's writes always share a
+// batch, so a change never lands without the notifications that go with it.
+const commitInBatches = async (writeGroups: BatchWrite[][]): Promise<void> => {
+  let batch = writeBatch(db);
+  let pendingWrites = 0;
+  for (const group of writeGroups) {
+    if (pendingWrites > 0 && pendingWrites + group.length > MAX_BATCH_WRITES) {
+      await batch.commit();
+      batch = writeBatch(db);
+      pendingWrites = 0;
+    }
+    group.forEach(write => write(batch));
+    pendingWrites += group.length;
+  }
+  if (pendingWrites > 0) await batch.commit();
+};
+
 const eventsCollection = collection(db, "events");
 
+// Fields written whenever RSVPs change. Drops the legacy participants array so it can't go stale.
+const getRsvpWriteFields = (rsvps: EventRsvps, waitlist: string[]) => ({
+  rsvps,
+  waitlist,
+  participants: deleteField(),
+});
+
 // Helper to convert Firestore doc to EventData
-const mapDocToEvent = (doc: QueryDocumentSnapshot<DocumentData>): EventData => {
-  const data = doc.data();
-  return {
-    id: doc.id,
-    name: data.name,
-    start: data.start,
-    end: data.end,
-    capacity: data.capacity,
-    participants: data.participants || [],
-    creator: data.creator,
-  };
-};
+const mapDocToEvent = (doc: QueryDocumentSnapshot<DocumentData>): EventData =>
+  toEventData(doc.id, doc.data(), Timestamp.fromMillis);
+
+// Events that come back from route handlers as JSON (see toWireValue in lib/eventDocs.ts)
+const fromWireEvent = (event: unknown): EventData => fromWireValue(event, Timestamp.fromMillis) as EventData;
 
 // Add a new event
-export const addEvent = async (eventData: Omit<EventData, 'id' | 'participants'>): Promise<string> => {
+export const addEvent = async (eventData: Omit<EventData, 'id' | 'rsvps' | 'participants' | 'waitlist' | 'attendance'>): Promise<string> => {
   try {
     const docRef = await addDoc(eventsCollection, {
       ...eventData,
-      participants: [], // Initialize participants as empty array
+      rsvps: {}, // No one has responded yet
+      waitlist: [],
+      attendance: {},
     });
     return docRef.id;
   } catch (error) {
@@ -62,32 +197,46 @@ export const addEvent = async (eventData: Omit<EventData, 'id' | 'participants'>
   }
 };
 
-// Get all events (consider pagination for large datasets)
-export const getAllEvents = async (): Promise<EventData[]> => {
+const getStartOfToday = (): Date => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+// Read one page of the events the viewer may see. Friends-only and invite-only events are only
+// listed by the server, so pages come from the events route (see getVisibleEventPage in lib/adminApi.ts).
+const fetchEventPage = async (bounds: { from?: Date; to?: Date }, options: EventQueryOptions): Promise<EventPage> => {
+  const params = new URLSearchParams({ pageSize: String(options.pageSize ?? DEFAULT_EVENT_PAGE_SIZE) });
+  if (options.locationName) params.set("location", options.locationName);
+  if (bounds.from) params.set("from", String(bounds.from.getTime()));
+  if (bounds.to) params.set("to", String(bounds.to.getTime()));
+  if (options.cursor) params.set("cursor", options.cursor);
+
+  const page = await callServerRoute<{ events: unknown[]; nextCursor: EventCursor | null }>(`/api/events?${params}`);
+  return { events: page.events.map(fromWireEvent), nextCursor: page.nextCursor };
+};
+
+// Get a page of upcoming events, soonest first
+export const getAllEvents = async (options: EventQueryOptions = {}): Promise<EventPage> => {
   try {
-    const q = query(eventsCollection, orderBy("start", "asc"));
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(mapDocToEvent);
+    return await fetchEventPage({ from: options.includePast ? undefined : getStartOfToday() }, options);
   } catch (error) {
     console.error("Error getting events: ", error);
     throw new Error("Failed to fetch events");
   }
 };
 
-// Get events within a date range
-export const getEventsInRange = async (startTime: Date, endTime: Date): Promise<EventData[]> => {
+// Get a page of events starting within a date range
+export const getEventsInRange = async (
+  startTime: Date,
+  endTime: Date,
+  options: EventQueryOptions = {}
+): Promise<EventPage> => {
   try {
-    const startTimestamp = Timestamp.fromDate(startTime);
-    const endTimestamp = Timestamp.fromDate(endTime);
+    const today = getStartOfToday();
+    const rangeStart = !options.includePast && startTime < today ? today : startTime;
 
-    const q = query(
-      eventsCollection,
-      where("start", ">=", startTimestamp),
-      where("start", "<=", endTimestamp),
-      orderBy("start", "asc")
-    );
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(mapDocToEvent);
+    return await fetchEventPage({ from: rangeStart, to: endTime }, options);
   } catch (error) {
     console.error("Error getting events in range: ", error);
     throw new Error("Failed to fetch events for the selected range");
@@ -109,35 +258,904 @@ export const getEventById = async (id: string): Promise<EventData | null> => {
     }
   } catch (error) {
     console.error("Error getting event by ID: ", error);
+    // The Firestore rules only let people read friends-only and invite-only events they may see
+    if ((error as FirestoreError).code === 'permission-denied') {
+      throw new Error(auth.currentUser
+        ? "You don't have access to this event. Ask the host for an invite link."
+        : "This event is private. Sign in or use an invite link to view it.");
+    }
     throw new Error("Failed to fetch event details");
   }
 };
 
-// Join an event (add user ID to participants)
-export const joinEvent = async (eventId: string, userId: string): Promise<void> => {
+// Open an event through its invite link. Signed-in guests are remembered, so the event stays
+// visible to them afterwards without the link (see openEventInvite in lib/adminApi.ts).
+export const openEventInvite = async (eventId: string, inviteToken: string): Promise<EventData> => {
+  const { event } = await callServerRoute<{ event: unknown }>(`/api/events/${eventId}/invite`, {
+    method: "POST",
+    body: JSON.stringify({ token: inviteToken }),
+  });
+  return fromWireEvent(event);
+};
+
+// Get the events a user is going to that start on or after `from`, soonest first.
+// The RSVP map can't share a composite index with `start`, so the date filter runs here.
+export const getJoinedEvents = async (userId: string, from: Date): Promise<EventData[]> => {
+  try {
+    const [rsvpSnapshot, legacySnapshot] = await Promise.all([
+      getDocs(query(eventsCollection, where(`rsvps.${userId}.status`, "==", "going"))),
+      getDocs(query(
+        eventsCollection,
+        where("participants", "array-contains", userId),
+        where("start", ">=", Timestamp.fromDate(from))
+      )),
+    ]);
+    const eventsById = new Map<string, EventData>();
+    [...rsvpSnapshot.docs, ...legacySnapshot.docs].map(mapDocToEvent).forEach(event => {
+      if (event.id) eventsById.set(event.id, event);
+    });
+    return Array.from(eventsById.values())
+      .filter(event => event.start.toDate() >= from && event.participants.includes(userId))
+      .sort((a, b) => a.start.toMillis() - b.start.toMillis());
+  } catch (error) {
+    console.error("Error getting joined events: ", error);
+    throw new Error("Failed to fetch your events");
+  }
+};
+
+const buildWaitlistPromotion = (event: EventData, userId: string): { ref: DocumentReference; notification: Notification } => {
+  const ref = doc(notificationsCollection);
+  return {
+    ref,
+    notification: {
+      id: ref.id,
+      userId,
+      type: 'waitlist_promoted',
+      content: `A spot opened up! You've been moved off the waitlist for ${event.name}.`,
+      relatedEventId: event.id,
+      read: false,
+      createdAt: Timestamp.now()
+    }
+  };
+};
+
+// Record a user's RSVP. Runs in a transaction so concurrent responses can never push the event
+// over capacity: asking to go when it's full joins the waitlist instead, and giving up a spot
+// promotes (and notifies) the people at the front of the waitlist.
+// Friends-only and invite-only events can't be read, and so can't be answered, by users who
+// couldn't see them (see firestore.rules).
+export const setEventRsvp = async (
+  eventId: string,
+  userId: string,
+  status: RsvpStatus,
+  options: { note?: string } = {}
+): Promise<RsvpResult> => {
+  if (options.note && options.note.trim().length > MAX_RSVP_NOTE_LENGTH) {
+    throw new Error(`Notes can be at most ${MAX_RSVP_NOTE_LENGTH} characters.`);
+  }
+  if (!(await getEventById(eventId))) throw new Error("Event not found.");
+
   try {
     const eventRef = doc(db, "events", eventId);
-    // Consider adding a transaction here to check capacity before joining
-    await updateDoc(eventRef, {
-      participants: arrayUnion(userId),
+    return await runTransaction(db, async (transaction) => {
+      const eventSnap = await transaction.get(eventRef);
+      if (!eventSnap.exists()) {
+        throw new Error("Event not found");
+      }
+
+      const event = mapDocToEvent(eventSnap as QueryDocumentSnapshot<DocumentData>);
+      if (event.cancelled) {
+        throw new Error("This event has been cancelled");
+      }
+
+      const { rsvps, waitlist, result, promoted } = applyRsvpChange(event, userId, status, Timestamp.now(), options.note);
+      transaction.update(eventRef, getRsvpWriteFields(rsvps, waitlist));
+
+      promoted.forEach(promotedUserId => {
+        const { ref, notification } = buildWaitlistPromotion(event, promotedUserId);
+        transaction.set(ref, notification);
+      });
+      return result;
     });
   } catch (error) {
-    console.error("Error joining event: ", error);
-    // More specific error handling might be needed (e.g., event full)
-    throw new Error("Failed to join event");
+    console.error("Error updating RSVP: ", error);
+    throw new Error("Failed to update your RSVP");
   }
 };
 
-// Leave an event (remove user ID from participants)
+// Joined events and matched meals that overlap the given event
+export const getScheduleConflicts = async (event: EventData, userId: string): Promise<ScheduleConflict[]> => {
+  try {
+    const [joinedEvents, matchedMeals] = await Promise.all([
+      getJoinedEvents(userId, new Date(event.start.toMillis() - CONFLICT_LOOKBACK_MS)),
+      getMatchedMeals(userId),
+    ]);
+    return findScheduleConflicts(getEventInterval(event), joinedEvents, matchedMeals, event.id);
+  } catch (error) {
+    console.error("Error checking schedule conflicts: ", error);
+    throw new Error("Failed to check your schedule");
+  }
+};
+
+// RSVP "going"; once the event is full the user is appended to the waitlist instead.
+// Overlapping events and meals are reported back rather than blocking the join.
+export const joinEvent = async (eventId: string, userId: string, options: { note?: string } = {}): Promise<JoinEventOutcome> => {
+  const result = await setEventRsvp(eventId, userId, 'going', options);
+  const event = await getEventById(eventId);
+  // The user is in either way, so a failed check just means no warning
+  const conflicts = event ? await getScheduleConflicts(event, userId).catch(() => []) : [];
+  return { result: result === 'waitlisted' ? 'waitlisted' : 'joined', conflicts };
+};
+
+// Leave an event or its waitlist, recorded as "can't go"
 export const leaveEvent = async (eventId: string, userId: string): Promise<void> => {
+  await setEventRsvp(eventId, userId, 'not_going');
+};
+
+// Notification text for participants when an event's time or location changes
+const describeEventUpdate = (event: EventData): string => {
+  const start = event.start.toDate();
+  return `${event.name} has changed: it's now on ${start.toLocaleDateString()} at ${start.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}, ${formatEventLocation(event.location)}.`;
+};
+
+const describeEventCancellation = (event: EventData): string =>
+  `${event.name} on ${event.start.toDate().toLocaleDateString()} has been cancelled.`;
+
+// Whether an edit moved the event in time or space (the changes participants need to hear about)
+const hasScheduleChanged = (before: EventData, after: EventData): boolean =>
+  before.start.toMillis() !== after.start.toMillis() ||
+  before.end.toMillis() !== after.end.toMillis() ||
+  before.location?.type !== after.location?.type ||
+  before.location?.name !== after.location?.name;
+
+// Build one notification per participant and host, skipping the user who made the change
+const buildParticipantNotifications = (
+  event: EventData,
+  type: Notification['type'],
+  content: string,
+  actorId: string
+): Array<{ ref: DocumentReference; notification: Notification }> =>
+  Array.from(new Set([...event.participants, ...getEventHosts(event)]))
+    .filter(uid => uid !== actorId)
+    .map(uid => {
+      const ref = doc(notificationsCollection);
+      return {
+        ref,
+        notification: {
+          id: ref.id,
+          userId: uid,
+          type,
+          content,
+          relatedEventId: event.id,
+          read: false,
+          createdAt: Timestamp.now()
+        }
+      };
+    });
+
+// Check an edit against the EventForm rules and current attendance; returns an error message or null
+const getEventUpdateError = (event: EventData, updates: EventUpdate): string | null => {
+  const merged = { ...event, ...updates };
+  const fieldError = getEventValidationError({
+    name: merged.name,
+    start: merged.start.toDate(),
+    end: merged.end.toDate(),
+    capacity: merged.capacity,
+    location: merged.location,
+  });
+  if (fieldError) return fieldError;
+  if (merged.capacity < event.participants.length) {
+    return `Capacity can't be lower than the ${event.participants.length} people already attending.`;
+  }
+  return null;
+};
+
+// Load an event and make sure the given user is allowed to manage it (the creator or a co-host)
+const getManageableEvent = async (eventId: string, userId: string): Promise<EventData> => {
+  const event = await getEventById(eventId);
+  if (!event) throw new Error("Event not found.");
+  if (!isEventHost(event, userId)) throw new Error("Only the event's hosts can change this event.");
+  if (event.cancelled) throw new Error("This event has already been cancelled.");
+  return event;
+};
+
+// The token for an invite-only event's link (hosts only), created on first use. Invites are only
+// readable by the server (see getEventInviteToken in lib/adminApi.ts).
+export const getEventInviteToken = async (eventId: string): Promise<string> => {
+  const { token } = await callServerRoute<{ token: string }>(`/api/events/${eventId}/invite`);
+  return token;
+};
+
+// Apply an edit to one event in a transaction. `getUpdates` works the edit out from the latest
+// copy of the event, or returns null to leave it alone. Participants are notified when the time
+// or location changes, and raising the capacity lets people in from the waitlist.
+const applyEventUpdate = async (
+  eventId: string,
+  userId: string,
+  getUpdates: (event: EventData) => EventUpdate | null,
+  extraFields: (event: EventData) => DocumentData = () => ({})
+): Promise<void> => {
+  const eventRef = doc(db, "events", eventId);
+  await runTransaction(db, async (transaction) => {
+    const eventSnap = await transaction.get(eventRef);
+    if (!eventSnap.exists()) throw new Error("Event not found");
+
+    // Re-check against the latest attendance in case someone joined since the form was loaded
+    const event = mapDocToEvent(eventSnap as QueryDocumentSnapshot<DocumentData>);
+    const updates = getUpdates(event);
+    if (!updates) return;
+    if (getEventUpdateError(event, updates)) throw new Error("Event changed while saving");
+
+    const updatedEvent = { ...event, ...updates };
+    const rsvps = { ...event.rsvps };
+    const waitlist = [...event.waitlist];
+    const promoted = promoteWaitlist(rsvps, waitlist, updatedEvent.capacity, Timestamp.now());
+
+    transaction.update(eventRef, {
+      ...updates,
+      ...getRsvpWriteFields(rsvps, waitlist),
+      ...extraFields(event),
+    });
+
+    if (hasScheduleChanged(event, updatedEvent)) {
+      buildParticipantNotifications(event, 'event_updated', describeEventUpdate(updatedEvent), userId)
+        .forEach(({ ref, notification }) => transaction.set(ref, notification));
+    }
+    promoted.forEach(promotedUserId => {
+      const { ref, notification } = buildWaitlistPromotion(updatedEvent, promotedUserId);
+      transaction.set(ref, notification);
+    });
+  });
+};
+
+// Edit an event (hosts only). Occurrences of a series are detached so later series-wide edits skip them.
+export const updateEvent = async (eventId: string, userId: string, updates: EventUpdate): Promise<void> => {
+  const existingEvent = await getManageableEvent(eventId, userId);
+  const updateError = getEventUpdateError(existingEvent, updates);
+  if (updateError) throw new Error(updateError);
+
   try {
-    const eventRef = doc(db, "events", eventId);
-    await updateDoc(eventRef, {
-      participants: arrayRemove(userId),
+    await applyEventUpdate(eventId, userId, () => updates, event => (event.seriesId ? { seriesDetached: true } : {}));
+  } catch (error) {
+    console.error("Error updating event: ", error);
+    throw new Error("Failed to update event");
+  }
+};
+
+// Cancel an event (or a single occurrence of a series) and let every participant and host know
+export const cancelEvent = async (eventId: string, userId: string): Promise<void> => {
+  const event = await getManageableEvent(eventId, userId);
+
+  try {
+    const batch = writeBatch(db);
+    batch.update(doc(db, "events", eventId), { cancelled: true });
+    buildParticipantNotifications(event, 'event_cancelled', describeEventCancellation(event), userId)
+      .forEach(({ ref, notification }) => batch.set(ref, notification));
+    await batch.commit();
+  } catch (error) {
+    console.error("Error cancelling event: ", error);
+    throw new Error("Failed to cancel event");
+  }
+};
+
+// --- Event Series --- 
+
+// A recurring series; each occurrence is materialized as its own event document
+export interface EventSeries {
+  id?: string;
+  name: string;
+  description: string;
+  tags: string[];
+  capacity: number;
+  location: EventLocation | null;
+  visibility: EventVisibility;
+  creator: string; // User UID
+  firstStart: Timestamp;
+  durationMinutes: number;
+  rule: {
+    frequency: RecurrenceRule['frequency'];
+    daysOfWeek: number[];
+    until: Timestamp | null;
+    count: number | null;
+  };
+  cancelled: boolean;
+  createdAt: Timestamp;
+  updatedFrom?: string; // The occurrence a host last changed the series from, which firestore.rules checks they host
+}
+
+const eventSeriesCollection = collection(db, "eventSeries");
+
+// Create a recurring series and materialize all of its occurrences in one batch
+export const addEventSeries = async (
+  eventData: Omit<EventData, 'id' | 'rsvps' | 'participants' | 'waitlist' | 'attendance'>,
+  rule: RecurrenceRule
+): Promise<{ seriesId: string; eventIds: string[] }> => {
+  const ruleError = validateRecurrenceRule(rule, eventData.start.toDate());
+  if (ruleError) throw new Error(ruleError);
+  const occurrences = expandRecurrence(eventData.start.toDate(), eventData.end.toDate(), rule);
+  if (occurrences.length === 0) throw new Error("The recurrence rule does not produce any events.");
+
+  try {
+    const batch = writeBatch(db);
+    const seriesRef = doc(eventSeriesCollection);
+    const series: Omit<EventSeries, 'id'> = {
+      name: eventData.name,
+      description: eventData.description ?? '',
+      tags: eventData.tags ?? [],
+      capacity: eventData.capacity,
+      location: eventData.location ?? null,
+      visibility: eventData.visibility ?? 'public',
+      creator: eventData.creator,
+      firstStart: eventData.start,
+      durationMinutes: Math.round((eventData.end.toMillis() - eventData.start.toMillis()) / 60000),
+      rule: {
+        frequency: rule.frequency,
+        daysOfWeek: rule.daysOfWeek || [],
+        until: rule.until ? Timestamp.fromDate(rule.until) : null,
+        count: rule.count ?? null,
+      },
+      cancelled: false,
+      createdAt: Timestamp.now(),
+    };
+    batch.set(seriesRef, series);
+
+    const eventIds = occurrences.map(occurrence => {
+      const eventRef = doc(eventsCollection);
+      batch.set(eventRef, {
+        ...eventData,
+        start: Timestamp.fromDate(occurrence.start),
+        end: Timestamp.fromDate(occurrence.end),
+        rsvps: {},
+        waitlist: [],
+        attendance: {},
+        seriesId: seriesRef.id,
+        seriesDetached: false,
+        cancelled: false,
+      });
+      return eventRef.id;
+    });
+
+    await batch.commit();
+    return { seriesId: seriesRef.id, eventIds };
+  } catch (error) {
+    console.error("Error adding event series: ", error);
+    throw new Error("Failed to add recurring event");
+  }
+};
+
+// Load the series an event belongs to, making sure the given user hosts that event. Hosts of an
+// occurrence (the creator or a co-host) manage the series from it.
+const getManageableSeries = async (eventId: string, userId: string): Promise<{ event: EventData; series: EventSeries }> => {
+  const event = await getManageableEvent(eventId, userId);
+  if (!event.seriesId) throw new Error("This event isn't part of a series.");
+  const seriesSnap = await getDoc(doc(eventSeriesCollection, event.seriesId));
+  if (!seriesSnap.exists()) throw new Error("Series not found.");
+  return { event, series: { id: seriesSnap.id, ...seriesSnap.data() } as EventSeries };
+};
+
+// Occurrences of a series that have not started yet and that the user hosts, which for the
+// creator is all of them. Filtering on the hosts lets the Firestore rules see that every result
+// is theirs to read and change.
+const getUpcomingSeriesEvents = async (seriesId: string, userId: string): Promise<EventData[]> => {
+  const [asCreator, asCoHost] = await Promise.all([
+    getDocs(query(
+      eventsCollection,
+      where("seriesId", "==", seriesId),
+      where("creator", "==", userId),
+      where("start", ">=", Timestamp.now())
+    )),
+    getDocs(query(
+      eventsCollection,
+      where("seriesId", "==", seriesId),
+      where("coHosts", "array-contains", userId),
+      where("start", ">=", Timestamp.now())
+    )),
+  ]);
+  const eventsById = new Map<string, EventData>();
+  [...asCreator.docs, ...asCoHost.docs].map(mapDocToEvent).forEach(event => {
+    if (event.id && !event.cancelled) eventsById.set(event.id, event);
+  });
+  return Array.from(eventsById.values());
+};
+
+// Edit every upcoming occurrence of an event's series that hasn't been edited individually, the
+// way updateEvent edits one event (so a higher capacity lets people in from each waitlist).
+// Only the time of day and duration of updates.start/end are applied, so each occurrence keeps its date.
+export const updateEventSeries = async (eventId: string, userId: string, updates: EventUpdate): Promise<void> => {
+  const { series } = await getManageableSeries(eventId, userId);
+  const seriesId = series.id as string;
+  const upcoming = (await getUpcomingSeriesEvents(seriesId, userId)).filter(event => !event.seriesDetached && event.id);
+
+  let newStart: Date | null = null;
+  let durationMs = 0;
+  if (updates.start && updates.end) {
+    newStart = updates.start.toDate();
+    durationMs = updates.end.toMillis() - updates.start.toMillis();
+  }
+
+  const getOccurrenceUpdates = (event: EventData): EventUpdate => {
+    const eventUpdates: EventUpdate = {};
+    if (updates.name !== undefined) eventUpdates.name = updates.name;
+    if (updates.description !== undefined) eventUpdates.description = updates.description;
+    if (updates.tags !== undefined) eventUpdates.tags = updates.tags;
+    if (updates.capacity !== undefined) eventUpdates.capacity = updates.capacity;
+    if (updates.location !== undefined) eventUpdates.location = updates.location;
+    if (updates.visibility !== undefined) eventUpdates.visibility = updates.visibility;
+    if (newStart) {
+      const day = event.start.toDate();
+      const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), newStart.getHours(), newStart.getMinutes());
+      eventUpdates.start = Timestamp.fromDate(start);
+      eventUpdates.end = Timestamp.fromDate(new Date(start.getTime() + durationMs));
+    }
+    return eventUpdates;
+  };
+
+  // Validate every occurrence's edit before anything is written
+  for (const event of upcoming) {
+    const updateError = getEventUpdateError(event, getOccurrenceUpdates(event));
+    if (updateError) {
+      throw new Error(`${event.start.toDate().toLocaleDateString()}: ${updateError}`);
+    }
+  }
+
+  try {
+    // Each occurrence is edited like a single event, against its latest attendance. One that was
+    // edited on its own or cancelled in the meantime is left alone.
+    for (const event of upcoming) {
+      await applyEventUpdate(event.id as string, userId, latest =>
+        latest.seriesDetached || latest.cancelled ? null : getOccurrenceUpdates(latest)
+      );
+    }
+
+    const seriesUpdates: DocumentData = { updatedFrom: eventId };
+    if (updates.name !== undefined) seriesUpdates.name = updates.name;
+    if (updates.description !== undefined) seriesUpdates.description = updates.description;
+    if (updates.tags !== undefined) seriesUpdates.tags = updates.tags;
+    if (updates.capacity !== undefined) seriesUpdates.capacity = updates.capacity;
+    if (updates.location !== undefined) seriesUpdates.location = updates.location;
+    if (updates.visibility !== undefined) seriesUpdates.visibility = updates.visibility;
+    if (newStart) seriesUpdates.durationMinutes = Math.round(durationMs / 60000);
+    await updateDoc(doc(eventSeriesCollection, seriesId), seriesUpdates);
+  } catch (error) {
+    console.error("Error updating event series: ", error);
+    throw new Error("Failed to update recurring event");
+  }
+};
+
+// Cancel an event's whole series: the series itself and every occurrence that hasn't started yet
+export const cancelEventSeries = async (eventId: string, userId: string): Promise<void> => {
+  const { series } = await getManageableSeries(eventId, userId);
+  const seriesId = series.id as string;
+
+  try {
+    const upcoming = await getUpcomingSeriesEvents(seriesId, userId);
+    // Each occurrence goes with its notifications; the series itself is marked last
+    await commitInBatches([
+      ...upcoming.filter(event => event.id).map((event): BatchWrite[] => [
+        batch => batch.update(doc(db, "events", event.id as string), { cancelled: true }),
+        ...buildParticipantNotifications(event, 'event_cancelled', describeEventCancellation(event), userId)
+          .map(({ ref, notification }): BatchWrite => batch => batch.set(ref, notification)),
+      ]),
+      [batch => batch.update(doc(eventSeriesCollection, seriesId), { cancelled: true, updatedFrom: eventId })],
+    ]);
+  } catch (error) {
+    console.error("Error cancelling event series: ", error);
+    throw new Error("Failed to cancel recurring event");
+  }
+};
+
+// --- Event Comments --- 
+
+// Stored in the events/{eventId}/comments subcollection
+export interface EventComment {
+  id?: string;
+  authorId: string;
+  authorName: string | null; // Display name when the comment was posted
+  text: string;
+  createdAt: Timestamp;
+  editedAt?: Timestamp;
+}
+
+const COMMENT_PREVIEW_LENGTH = 80;
+
+const getCommentsCollection = (eventId: string) => collection(db, "events", eventId, "comments");
+
+const mapDocToComment = (doc: QueryDocumentSnapshot<DocumentData>): EventComment => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    authorId: data.authorId,
+    authorName: data.authorName ?? null,
+    text: data.text,
+    createdAt: data.createdAt,
+    editedAt: data.editedAt,
+  };
+};
+
+// Only people taking part in the event can join its discussion
+export const canCommentOnEvent = (event: EventData, userId: string): boolean =>
+  isEventHost(event, userId) || event.participants.includes(userId);
+
+const describeEventComment = (event: EventData, authorName: string | null, text: string): string => {
+  const trimmed = text.trim();
+  const preview = trimmed.length > COMMENT_PREVIEW_LENGTH ? `${trimmed.slice(0, COMMENT_PREVIEW_LENGTH)}…` : trimmed;
+  return `${authorName || 'Someone'} commented on ${event.name}: "${preview}"`;
+};
+
+const getCommentById = async (eventId: string, commentId: string): Promise<EventComment | null> => {
+  const commentSnap = await getDoc(doc(db, "events", eventId, "comments", commentId));
+  return commentSnap.exists() ? mapDocToComment(commentSnap as QueryDocumentSnapshot<DocumentData>) : null;
+};
+
+// Listen to an event's comments, oldest first. Returns the function that stops listening.
+export const subscribeToEventComments = (
+  eventId: string,
+  onChange: (comments: EventComment[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  const q = query(getCommentsCollection(eventId), orderBy("createdAt", "asc"));
+  return onSnapshot(
+    q,
+    (snapshot) => onChange(snapshot.docs.map(mapDocToComment)),
+    (error) => {
+      console.error("Error listening to event comments: ", error);
+      onError(new Error("Failed to load comments"));
+    }
+  );
+};
+
+// Post a comment and notify everyone else on the event
+export const addEventComment = async (
+  eventId: string,
+  userId: string,
+  authorName: string | null,
+  text: string
+): Promise<string> => {
+  const event = await getEventById(eventId);
+  if (!event) throw new Error("Event not found.");
+  if (!canCommentOnEvent(event, userId)) throw new Error("Only participants and the event's hosts can comment.");
+  const commentError = getCommentValidationError(text);
+  if (commentError) throw new Error(commentError);
+
+  try {
+    const batch = writeBatch(db);
+    const commentRef = doc(getCommentsCollection(eventId));
+    const comment: Omit<EventComment, 'id'> = {
+      authorId: userId,
+      authorName,
+      text: text.trim(),
+      createdAt: Timestamp.now(),
+    };
+    batch.set(commentRef, comment);
+    buildParticipantNotifications(event, 'event_comment', describeEventComment(event, authorName, text), userId)
+      .forEach(({ ref, notification }) => batch.set(ref, notification));
+    await batch.commit();
+    return commentRef.id;
+  } catch (error) {
+    console.error("Error adding event comment: ", error);
+    throw new Error("Failed to post comment");
+  }
+};
+
+// Authors can edit their own comments
+export const updateEventComment = async (
+  eventId: string,
+  commentId: string,
+  userId: string,
+  text: string
+): Promise<void> => {
+  const comment = await getCommentById(eventId, commentId);
+  if (!comment) throw new Error("Comment not found.");
+  if (comment.authorId !== userId) throw new Error("You can only edit your own comments.");
+  const commentError = getCommentValidationError(text);
+  if (commentError) throw new Error(commentError);
+
+  try {
+    await updateDoc(doc(db, "events", eventId, "comments", commentId), {
+      text: text.trim(),
+      editedAt: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error("Error updating event comment: ", error);
+    throw new Error("Failed to update comment");
+  }
+};
+
+// Authors can delete their own comments; the event's hosts can delete any comment
+export const deleteEventComment = async (eventId: string, commentId: string, userId: string): Promise<void> => {
+  const [comment, event] = await Promise.all([getCommentById(eventId, commentId), getEventById(eventId)]);
+  if (!comment || !event) throw new Error("Comment not found.");
+  if (comment.authorId !== userId && !isEventHost(event, userId)) {
+    throw new Error("You can only delete your own comments.");
+  }
+
+  try {
+    await deleteDoc(doc(db, "events", eventId, "comments", commentId));
+  } catch (error) {
+    console.error("Error deleting event comment: ", error);
+    throw new Error("Failed to delete comment");
+  }
+};
+
+// --- Event Check-In --- 
+
+// Only the event's hosts can read the secret behind the rotating code (see firestore.rules), and
+// codes are checked by the check-in route, so attendance is only written for a valid code.
+const eventCheckInSecretsCollection = collection(db, "eventCheckInSecrets");
+
+// The secret the hosts' rotating check-in code is derived from, created on first use
+export const getCheckInSecret = async (eventId: string, userId: string): Promise<string> => {
+  await getManageableEvent(eventId, userId);
+
+  try {
+    const secretRef = doc(eventCheckInSecretsCollection, eventId);
+    const secretSnap = await getDoc(secretRef);
+    if (secretSnap.exists()) return secretSnap.data().secret as string;
+    const secret = crypto.randomUUID();
+    await setDoc(secretRef, { secret, createdAt: Timestamp.now() });
+    return secret;
+  } catch (error) {
+    console.error("Error getting check-in secret: ", error);
+    throw new Error("Failed to load the check-in code");
+  }
+};
+
+// Check the signed-in user in with the code a host is showing. Only works during the event
+// (and shortly before it starts); checking in twice keeps the first check-in time.
+export const checkInToEvent = async (eventId: string, code: string): Promise<void> => {
+  await callServerRoute<void>(`/api/events/${eventId}/check-in`, {
+    method: "POST",
+    body: JSON.stringify({ code }),
+  });
+};
+
+// Attendance for the hosts. Going participants who never checked in count as no-shows once the
+// event has ended; recordNoShows writes that down.
+export const getAttendanceSummary = async (eventId: string, userId: string): Promise<AttendanceSummary> => {
+  const event = await getEventById(eventId);
+  if (!event) throw new Error("Event not found.");
+  if (!isEventHost(event, userId)) throw new Error("Only the event's hosts can see attendance.");
+  return summarizeAttendance(event, new Date());
+};
+
+// Record every going participant who never checked in as a no-show, once the event has ended.
+// Returns the UIDs that were marked.
+export const recordNoShows = async (eventId: string, userId: string): Promise<string[]> => {
+  const event = await getManageableEvent(eventId, userId);
+  if (new Date() <= event.end.toDate()) throw new Error("No-shows can only be recorded after the event ends.");
+  const noShows = getUnmarkedNoShows(event);
+  if (noShows.length === 0) return [];
+
+  try {
+    const recordedAt = Timestamp.now();
+    const noShowFields: DocumentData = {};
+    noShows.forEach(uid => {
+      noShowFields[`attendance.${uid}`] = { status: 'no_show', recordedAt };
+    });
+    await updateDoc(doc(db, "events", eventId), noShowFields);
+    return noShows;
+  } catch (error) {
+    console.error("Error recording no-shows: ", error);
+    throw new Error("Failed to record no-shows");
+  }
+};
+
+// --- Event Seating --- 
+
+// Split the people going into tables (hosts only), favouring pairs with high priority scores
+// and friends. Replaces any earlier seating and tells everyone which table they're at.
+export const seatEventParticipants = async (eventId: string, userId: string, tableSize: number): Promise<EventSeating> => {
+  const event = await getManageableEvent(eventId, userId);
+  if (event.participants.length < SEATING_MIN_PARTICIPANTS) {
+    throw new Error(`Seating is available once at least ${SEATING_MIN_PARTICIPANTS} people are going.`);
+  }
+  if (!Number.isInteger(tableSize) || tableSize < MIN_TABLE_SIZE || tableSize > MAX_TABLE_SIZE) {
+    throw new Error(`Tables must seat between ${MIN_TABLE_SIZE} and ${MAX_TABLE_SIZE} people.`);
+  }
+
+  try {
+    const profiles = await getUserProfiles(event.participants);
+    const priorityScores = await getPriorityScores(event.participants, profiles);
+    const isFriendPair = (userId1: string, userId2: string): boolean =>
+      !!profiles[userId1]?.friends?.includes(userId2) || !!profiles[userId2]?.friends?.includes(userId1);
+    const tables = assignTables(event.participants, tableSize, (userId1, userId2) =>
+      priorityScores[getPairKey(userId1, userId2)] + (isFriendPair(userId1, userId2) ? FRIEND_PAIR_BONUS : 0)
+    );
+    const seating: EventSeating = { tableSize, tables, seatedAt: Timestamp.now() };
+
+    const batch = writeBatch(db);
+    batch.update(doc(db, "events", eventId), { seating });
+    tables.forEach((table, index) => {
+      table.filter(uid => uid !== userId).forEach(uid => {
+        const ref = doc(notificationsCollection);
+        const notification: Notification = {
+          id: ref.id,
+          userId: uid,
+          type: 'event_seating',
+          content: `You're at Table ${index + 1} for ${event.name}.`,
+          relatedEventId: eventId,
+          read: false,
+          createdAt: Timestamp.now()
+        };
+        batch.set(ref, notification);
+      });
     });
+    await batch.commit();
+    return seating;
+  } catch (error) {
+    console.error("Error seating event participants: ", error);
+    throw new Error("Failed to seat participants");
+  }
+};
+
+// --- Event Co-Hosts --- 
+
+// Hosts can only change while the event is still to come or running
+const assertHostsChangeable = (event: EventData): void => {
+  if (event.cancelled) throw new Error("This event has already been cancelled.");
+  if (event.end.toDate() < new Date()) throw new Error("This event has already ended.");
+};
+
+// Add a co-host (creator only). Co-hosts can edit, cancel, seat and run check-in for the event.
+export const addCoHost = async (eventId: string, creatorId: string, coHostId: string): Promise<void> => {
+  const event = await getManageableEvent(eventId, creatorId);
+  if (event.creator !== creatorId) throw new Error("Only the event creator can add co-hosts.");
+  assertHostsChangeable(event);
+  if (isEventHost(event, coHostId)) throw new Error("That person is already hosting this event.");
+  if ((event.coHosts ?? []).length >= MAX_CO_HOSTS) {
+    throw new Error(`An event can have at most ${MAX_CO_HOSTS} co-hosts.`);
+  }
+
+  try {
+    const batch = writeBatch(db);
+    batch.update(doc(db, "events", eventId), { coHosts: arrayUnion(coHostId) });
+    const ref = doc(notificationsCollection);
+    const notification: Notification = {
+      id: ref.id,
+      userId: coHostId,
+      type: 'event_cohost',
+      content: `You're now co-hosting ${event.name}.`,
+      relatedUserId: creatorId,
+      relatedEventId: eventId,
+      read: false,
+      createdAt: Timestamp.now()
+    };
+    batch.set(ref, notification);
+    await batch.commit();
+  } catch (error) {
+    console.error("Error adding co-host: ", error);
+    throw new Error("Failed to add co-host");
+  }
+};
+
+// The creator can remove any co-host; co-hosts can step down themselves
+export const removeCoHost = async (eventId: string, userId: string, coHostId: string): Promise<void> => {
+  const event = await getEventById(eventId);
+  if (!event) throw new Error("Event not found.");
+  if (event.creator !== userId && coHostId !== userId) {
+    throw new Error("Only the event creator can remove other co-hosts.");
+  }
+  assertHostsChangeable(event);
+
+  try {
+    await updateDoc(doc(db, "events", eventId), { coHosts: arrayRemove(coHostId) });
+  } catch (error) {
+    console.error("Error removing co-host: ", error);
+    throw new Error("Failed to remove co-host");
+  }
+};
+
+// --- Event Templates --- 
+
+const eventTemplatesCollection = collection(db, "eventTemplates");
+
+const mapDocToTemplate = (doc: QueryDocumentSnapshot<DocumentData>): EventTemplate => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    ownerId: data.ownerId,
+    name: data.name,
+    description: data.description || '',
+    tags: data.tags || [],
+    durationMinutes: data.durationMinutes,
+    capacity: data.capacity,
+    location: data.location || null,
+    visibility: data.visibility || 'public',
+    sharedWith: data.sharedWith || [],
+    createdAt: data.createdAt,
+  };
+};
+
+// Load a template and make sure the given user owns it
+const getOwnedTemplate = async (templateId: string, userId: string): Promise<EventTemplate> => {
+  const templateSnap = await getDoc(doc(eventTemplatesCollection, templateId));
+  if (!templateSnap.exists()) throw new Error("Template not found.");
+  const template = mapDocToTemplate(templateSnap as QueryDocumentSnapshot<DocumentData>);
+  if (template.ownerId !== userId) throw new Error("Only the template's owner can change it.");
+  return template;
+};
+
+// Save an event's details (everything but its date) as a template owned by the host saving it
+export const saveEventAsTemplate = async (eventId: string, userId: string): Promise<string> => {
+  const event = await getEventById(eventId);
+  if (!event) throw new Error("Event not found.");
+  if (!isEventHost(event, userId)) throw new Error("Only the event's hosts can save it as a template.");
+
+  try {
+    const template: Omit<EventTemplate, 'id'> = {
+      ...getTemplateFields(event),
+      ownerId: userId,
+      sharedWith: [],
+      createdAt: Timestamp.now(),
+    };
+    const docRef = await addDoc(eventTemplatesCollection, template);
+    return docRef.id;
+  } catch (error) {
+    console.error("Error saving event template: ", error);
+    throw new Error("Failed to save template");
+  }
+};
+
+// Templates the user owns or that other organizers shared with them
+export const getEventTemplates = async (userId: string): Promise<EventTemplate[]> => {
+  try {
+    const [ownedSnapshot, sharedSnapshot] = await Promise.all([
+      getDocs(query(eventTemplatesCollection, where("ownerId", "==", userId))),
+      getDocs(query(eventTemplatesCollection, where("sharedWith", "array-contains", userId))),
+    ]);
+    return sortTemplates([...ownedSnapshot.docs, ...sharedSnapshot.docs].map(mapDocToTemplate), userId);
+  } catch (error) {
+    console.error("Error getting event templates: ", error);
+    throw new Error("Failed to fetch templates");
+  }
+};
+
+// Share a template with another organizer by their email address
+export const shareEventTemplate = async (templateId: string, ownerId: string, email: string): Promise<UserProfile> => {
+  const template = await getOwnedTemplate(templateId, ownerId);
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!normalizedEmail) throw new Error("Enter an email address.");
+
+  let organizer: UserProfile | undefined;
+  try {
+    const snapshot = await getDocs(query(usersCollection, where("email", "==", normalizedEmail)));
+    organizer = snapshot.docs.map(docSnap => docSnap.data() as UserProfile)[0];
+  } catch (error) {
+    console.error("Error looking up organizer: ", error);
+    throw new Error("Failed to share template");
+  }
+  if (!organizer) throw new Error("No one with that email has signed up yet.");
+  if (organizer.uid === ownerId) throw new Error("You already own this template.");
+  if (template.sharedWith.includes(organizer.uid)) return organizer;
+
+  try {
+    await updateDoc(doc(eventTemplatesCollection, templateId), { sharedWith: arrayUnion(organizer.uid) });
+    return organizer;
   } catch (error) {
-    console.error("Error leaving event: ", error);
-    throw new Error("Failed to leave event");
+    console.error("Error sharing event template: ", error);
+    throw new Error("Failed to share template");
+  }
+};
+
+export const unshareEventTemplate = async (templateId: string, ownerId: string, organizerId: string): Promise<void> => {
+  await getOwnedTemplate(templateId, ownerId);
+
+  try {
+    await updateDoc(doc(eventTemplatesCollection, templateId), { sharedWith: arrayRemove(organizerId) });
+  } catch (error) {
+    console.error("Error unsharing event template: ", error);
+    throw new Error("Failed to stop sharing template");
+  }
+};
+
+export const deleteEventTemplate = async (templateId: string, ownerId: string): Promise<void> => {
+  await getOwnedTemplate(templateId, ownerId);
+
+  try {
+    await deleteDoc(doc(eventTemplatesCollection, templateId));
+  } catch (error) {
+    console.error("Error deleting event template: ", error);
+    throw new Error("Failed to delete template");
   }
 };
 
@@ -163,6 +1181,7 @@ export interface UserSurveyData {
   favoriteDiningHalls: string[];
   phoneNumber: string;
   friendEmails?: string[];
+  groupMeals?: boolean; // Also wants to be put into small group meals, not just one-on-ones
 }
 
 const usersCollection = collection(db, "users");
@@ -205,6 +1224,34 @@ export const getUserProfile = async (userId: string): Promise<UserProfile | null
     }
 };
 
+// Firestore allows at most 30 values in an `in` filter
+const MAX_IN_QUERY_VALUES = 30;
+
+// Look up many profiles with one query per 30 users instead of a read per user.
+// Keyed by UID; users without a profile are left out.
+export const getUserProfiles = async (userIds: string[]): Promise<Record<string, UserProfile>> => {
+  const uniqueIds = Array.from(new Set(userIds));
+  const chunks: string[][] = [];
+  for (let i = 0; i < uniqueIds.length; i += MAX_IN_QUERY_VALUES) {
+    chunks.push(uniqueIds.slice(i, i + MAX_IN_QUERY_VALUES));
+  }
+  try {
+    const snapshots = await Promise.all(
+      chunks.map(chunk => getDocs(query(usersCollection, where(documentId(), "in", chunk))))
+    );
+    const profiles: Record<string, UserProfile> = {};
+    snapshots.forEach(snapshot => {
+      snapshot.docs.forEach(docSnap => {
+        profiles[docSnap.id] = docSnap.data() as UserProfile;
+      });
+    });
+    return profiles;
+  } catch (error) {
+    console.error("Error fetching user profiles: ", error);
+    throw new Error("Failed to fetch user profiles.");
+  }
+};
+
 // Get all users (excluding the current user)
 export const getAllUsers = async (currentUserId: string): Promise<UserProfile[]> => {
     try {
@@ -293,19 +1340,6 @@ export interface WeeklyAvailabilityData {
 const availabilityCollection = collection(db, "userAvailability");
 const repeatingAvailabilityDoc = 'repeating'; // Constant for the repeating availability document ID suffix
 
-// Helper to get Monday of a given date
-export const getMonday = (d: Date): Date => {
-  d = new Date(d);
-  const day = d.getDay(),
-      diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday (0)
-  return new Date(d.setDate(diff));
-};
-
-// Helper to format date as YYYY-MM-DD
-export const formatDateKey = (d: Date): string => {
-  return d.toISOString().split('T')[0];
-};
-
 // Get user availability for a specific week
 export const getUserAvailability = async (userId: string, weekDate: Date): Promise<WeeklyAvailabilityData | null> => {
   const monday = getMonday(weekDate);
@@ -403,74 +1437,18 @@ export interface PriorityScore {
 }
 
 const priorityScoreCollection = collection(db, "priorityScores");
+const configCollection = collection(db, "config");
 
-// Calculate baseline score based on survey agreement
-const calculateBaselineScore = (user1: UserProfile, user2: UserProfile): number => {
-  if (!user1.surveyData || !user2.surveyData) return 5; // Default middle score
-  
-  let points = 0;
-  let maxPoints = 0;
-  
-  // Compare meal talk preferences (0-1 points)
-  if (user1.surveyData.mealTalkPreferences && user2.surveyData.mealTalkPreferences) {
-    const overlappingPreferences = user1.surveyData.mealTalkPreferences.filter(
-      pref => user2.surveyData?.mealTalkPreferences.includes(pref)
-    );
-    const totalPreferences = new Set([
-      ...user1.surveyData.mealTalkPreferences,
-      ...user2.surveyData.mealTalkPreferences
-    ]).size;
-    
-    if (totalPreferences > 0) {
-      points += (overlappingPreferences.length / totalPreferences) * 2;
-    }
-    maxPoints += 2;
-  }
-  
-  // Compare conversation style (0-2 points)
-  if (user1.surveyData.conversationStyle && user2.surveyData.conversationStyle) {
-    if (user1.surveyData.conversationStyle === user2.surveyData.conversationStyle) {
-      points += 2;
-    }
-    maxPoints += 2;
-  }
-  
-  // Compare conversation pace (0-2 points)
-  if (user1.surveyData.conversationPace && user2.surveyData.conversationPace) {
-    if (user1.surveyData.conversationPace === user2.surveyData.conversationPace) {
-      points += 2;
-    }
-    maxPoints += 2;
-  }
-  
-  // Compare favorite dining halls (0-2 points)
-  if (user1.surveyData.favoriteDiningHalls && user2.surveyData.favoriteDiningHalls) {
-    const overlappingDiningHalls = user1.surveyData.favoriteDiningHalls.filter(
-      hall => user2.surveyData?.favoriteDiningHalls.includes(hall)
-    );
-    
-    if (overlappingDiningHalls.length > 0) {
-      points += Math.min(2, overlappingDiningHalls.length);
-    }
-    maxPoints += 2;
-  }
-  
-  // Compare food personality (0-2 points)
-  if (user1.surveyData.foodPersonality && user2.surveyData.foodPersonality) {
-    if (user1.surveyData.foodPersonality === user2.surveyData.foodPersonality) {
-      points += 2;
-    }
-    maxPoints += 2;
+// How baseline scores are worked out, from the `config/scoring` document. Missing or invalid
+// settings fall back to the defaults, so the strategy and weights can be changed in the console.
+export const getScoringConfig = async (): Promise<ScoringConfig> => {
+  try {
+    const configSnap = await getDoc(doc(configCollection, "scoring"));
+    return normalizeScoringConfig(configSnap.exists() ? configSnap.data() : null);
+  } catch (error) {
+    console.error("Error getting scoring config:", error);
+    return DEFAULT_SCORING_CONFIG; // Default to the built-in scoring if the config can't be read
   }
-  
-  // If not enough data for comparison, return middle score
-  if (maxPoints === 0) return 5;
-  
-  // Calculate final score (0-10 scale)
-  const normalizedScore = (points / maxPoints) * 10;
-  
-  // Return score between 3-7 to start, allowing room for future adjustments
-  return Math.max(3, Math.min(7, Math.round(normalizedScore)));
 };
 
 // Get priority score between two users
@@ -499,7 +1477,7 @@ export const getPriorityScore = async (userId1: string, userId2: string): Promis
     
     if (!user1Profile || !user2Profile) return 5; // Default middle score
     
-    const baselineScore = calculateBaselineScore(user1Profile, user2Profile);
+    const baselineScore = calculateBaselineScore(user1Profile, user2Profile, await getScoringConfig());
     
     // Save baseline score
     await addDoc(priorityScoreCollection, {
@@ -516,6 +1494,34 @@ export const getPriorityScore = async (userId1: string, userId2: string): Promis
   }
 };
 
+// Priority scores for every pair in a group, keyed by getPairKey. Stored scores are read in
+// batches; pairs without one fall back to their baseline score, which isn't saved here.
+// The scoring config is read when not passed in.
+export const getPriorityScores = async (
+  userIds: string[],
+  profiles: Record<string, UserProfile>,
+  scoringConfig?: ScoringConfig
+): Promise<Record<string, number>> => {
+  const uniqueIds = Array.from(new Set(userIds));
+  const scores = getBaselineScores(uniqueIds, profiles, scoringConfig ?? await getScoringConfig());
+
+  try {
+    const idSet = new Set(uniqueIds);
+    for (let i = 0; i < uniqueIds.length; i += MAX_IN_QUERY_VALUES) {
+      const chunk = uniqueIds.slice(i, i + MAX_IN_QUERY_VALUES);
+      const snapshot = await getDocs(query(priorityScoreCollection, where('user1Id', 'in', chunk)));
+      snapshot.docs.forEach(docSnap => {
+        const data = docSnap.data() as PriorityScore;
+        if (idSet.has(data.user2Id)) scores[getPairKey(data.user1Id, data.user2Id)] = data.score;
+      });
+    }
+  } catch (error) {
+    console.error("Error getting priority scores:", error);
+    // Baseline scores are a reasonable stand-in
+  }
+  return scores;
+};
+
 // Update priority score
 export const updatePriorityScore = async (userId1: string, userId2: string, adjustment: number): Promise<void> => {
   try {
@@ -574,6 +1580,9 @@ export interface Match {
   status: 'pending' | 'accepted' | 'matched' | 'declined';
   createdAt: Timestamp;
   priorityScore?: number; // Add priority score
+  participantIds?: string[]; // Both users, so either side can look the match up
+  weekKey?: string; // Monday (YYYY-MM-DD) of the weekly matching run that made it
+  reasons?: MatchReasons; // Why the pair was matched; worked out when read for matches made before this was stored
   acceptedBy?: {
     [userId: string]: {
       timestamp: Timestamp;
@@ -585,10 +1594,26 @@ export interface Match {
 export interface Notification {
   id: string;
   userId: string;
-  type: 'match_complete' | 'new_match' | 'received_text';
+  type:
+    | 'match_complete'
+    | 'new_match'
+    | 'new_group_meal'
+    | 'group_meal_confirmed'
+    | 'group_meal_cancelled'
+    | 'received_text'
+    | 'waitlist_promoted'
+    | 'event_updated'
+    | 'event_cancelled'
+    | 'event_comment'
+    | 'event_seating'
+    | 'event_cohost'
+    | 'event_reminder'
+    | 'match_reminder';
   content: string;
   relatedUserId?: string;
   relatedMatchId?: string;
+  relatedGroupMealId?: string;
+  relatedEventId?: string;
   read: boolean;
   createdAt: Timestamp;
 }
@@ -597,236 +1622,56 @@ const matchesCollection = collection(db, "matches");
 const locationsCollection = collection(db, "locations");
 const notificationsCollection = collection(db, "notifications");
 
-// Function to find potential matches based on availability and preferences
-export const findPotentialMatches = async (userId: string): Promise<Match[]> => {
+// Get the names of meal spots configured in the `locations` collection
+export const getMealLocations = async (): Promise<string[]> => {
   try {
-    // Get the user's availability
-    const userAvailability = await getUserAvailability(userId, new Date());
-    
-    if (!userAvailability || Object.keys(userAvailability.availability).length === 0) {
-      return [];
-    }
-
-    // Query for existing matches that are still pending
-    const q = query(
-      matchesCollection,
-      where('userId', '==', userId),
-      where('status', '==', 'pending')
-    );
-    
-    const matchesSnapshot = await getDocs(q);
-    const existingMatches: Match[] = [];
-    
-    matchesSnapshot.forEach(doc => {
-      existingMatches.push({ id: doc.id, ...doc.data() } as Match);
-    });
-    
-    // If there are already pending matches, return those first
-    if (existingMatches.length > 0) {
-      // Fetch the matched user's profile for each match
-      const matchesWithProfiles = await Promise.all(
-        existingMatches.map(async match => {
-          const matchedUserProfile = await getUserProfile(match.matchUserId);
-          return {
-            ...match,
-            matchUser: matchedUserProfile || {
-              uid: match.matchUserId,
-              email: null,
-              displayName: null
-            }
-          };
-        })
-      );
-      
-      return matchesWithProfiles;
-    }
-    
-    // Find users who have availability that overlaps with the current user
-    // This is a simplified version - in a real app, this would be more sophisticated
-    const availableDays = Object.keys(userAvailability.availability);
-    const matchedUsers: string[] = [];
-    const potentialMatches: Match[] = [];
-    
-    // Get all users with survey completed
-    const usersQuery = query(usersCollection, where('surveyCompleted', '==', true));
-    const usersSnapshot = await getDocs(usersQuery);
-    
-    const availableUsers: UserProfile[] = [];
-    usersSnapshot.forEach(doc => {
-      const userData = doc.data() as UserProfile;
-      if (userData.uid !== userId) {
-        availableUsers.push(userData);
-      }
-    });
-    
-    // Get some meal locations
     const locationsSnapshot = await getDocs(locationsCollection);
     const locations: string[] = [];
     locationsSnapshot.forEach(doc => {
       locations.push(doc.data().name);
     });
-    
-    // If no locations in DB, use these defaults
-    const defaultLocations = [
-      "Tresidder Union",
-      "Coho Cafe",
-      "Arbuckle Dining",
-      "Bytes Cafe",
-      "The Axe & Palm"
-    ];
-    
-    const mealLocations = locations.length > 0 ? locations : defaultLocations;
-    
-    // Get current user's profile to access their favorite dining halls
-    const currentUserProfile = await getUserProfile(userId);
-    const userFavoriteDiningHalls = currentUserProfile?.surveyData?.favoriteDiningHalls || [];
-    
-    // First check priority scores for all users
-    const usersWithPriorityScores = await Promise.all(
-      availableUsers.map(async (user) => {
-        // Get priority score between users (uses baseline if none exists)
-        const priorityScore = await getPriorityScore(userId, user.uid);
-        
-        // Skip users with priority score of 0 (incompatible)
-        if (priorityScore === 0) {
-          return null;
-        }
-        
-        // If user has no survey data, assume no overlap
-        if (!user.surveyData?.favoriteDiningHalls) {
-          return { user, overlap: 0, diningHalls: [], priorityScore };
-        }
-        
-        // Find overlapping dining halls
-        const otherUserDiningHalls = user.surveyData.favoriteDiningHalls;
-        const overlappingDiningHalls = otherUserDiningHalls.filter(hall => 
-          userFavoriteDiningHalls.includes(hall)
-        );
-        
-        return { 
-          user, 
-          overlap: overlappingDiningHalls.length,
-          diningHalls: overlappingDiningHalls.length > 0 ? overlappingDiningHalls : otherUserDiningHalls,
-          priorityScore
+    return locations;
+  } catch (error) {
+    console.error("Error getting meal locations:", error);
+    throw new Error("Failed to fetch locations.");
+  }
+};
+
+// Times a user has already committed to by joining events that start after `from`
+// The user's open matches (pending, or accepted by one side) from either side of the match.
+// Matches are made by the weekly run (see runWeeklyMatching in lib/adminApi.ts); this only reads them.
+// `matchUser` on each result is always the other person.
+// Every result has `reasons`, worked out from the profiles for matches that don't store them.
+export const findPotentialMatches = async (userId: string): Promise<Match[]> => {
+  try {
+    const [asParticipant, legacySnapshot] = await Promise.all([
+      getDocs(query(
+        matchesCollection,
+        where('participantIds', 'array-contains', userId),
+        where('status', 'in', ['pending', 'accepted'])
+      )),
+      // Matches made before `participantIds` existed were only visible to the user who asked for them
+      getDocs(query(matchesCollection, where('userId', '==', userId), where('status', '==', 'pending'))),
+    ]);
+
+    const matchesById = new Map<string, Match>();
+    [...asParticipant.docs, ...legacySnapshot.docs].forEach(docSnap => {
+      matchesById.set(docSnap.id, { id: docSnap.id, ...docSnap.data() } as Match);
+    });
+    const matches = Array.from(matchesById.values());
+    const otherUserIds = matches.map(match => (match.userId === userId ? match.matchUserId : match.userId));
+    const profiles = otherUserIds.length > 0 ? await getUserProfiles([userId, ...otherUserIds]) : {};
+
+    return matches
+      .map((match, index) => {
+        const matchUser = profiles[otherUserIds[index]] || { uid: otherUserIds[index], email: null, displayName: null };
+        return {
+          ...match,
+          matchUser,
+          reasons: match.reasons ?? (profiles[userId] ? getMatchReasons(profiles[userId], matchUser, null) : undefined),
         };
       })
-    );
-    
-    // Remove null entries (users with priority score of 0)
-    const filteredUsers = usersWithPriorityScores.filter(user => user !== null) as Array<{
-      user: UserProfile;
-      overlap: number;
-      diningHalls: string[];
-      priorityScore: number;
-    }>;
-    
-    // Sort by priority score (high to low) and then by dining hall overlap
-    filteredUsers.sort((a, b) => {
-      // First sort by priority score
-      if (b.priorityScore !== a.priorityScore) {
-        return b.priorityScore - a.priorityScore;
-      }
-      // Then sort by dining hall overlap
-      return b.overlap - a.overlap;
-    });
-    
-    // Limit to 3 matches for demo purposes
-    const usersToMatch = filteredUsers.slice(0, 3);
-    
-    for (const { user: otherUser, overlap, diningHalls, priorityScore } of usersToMatch) {
-      // Check if already in matches
-      if (matchedUsers.includes(otherUser.uid)) continue;
-      
-      // Get the other user's availability
-      const otherUserAvailability = await getUserAvailability(otherUser.uid, new Date());
-      
-      // Skip if the other user has no availability
-      if (!otherUserAvailability || Object.keys(otherUserAvailability.availability).length === 0) {
-        continue;
-      }
-      
-      matchedUsers.push(otherUser.uid);
-      
-      // Find overlapping availability between both users
-      let validMatchFound = false;
-      let matchDay = '';
-      let matchTime = '';
-      let matchDate: Date | null = null;
-      
-      // Randomly shuffle the available days to avoid always picking the first day
-      const shuffledDays = [...availableDays].sort(() => 0.5 - Math.random());
-      
-      for (const day of shuffledDays) {
-        // Skip if the current user has no availability for this day
-        const userTimesForDay = userAvailability.availability[day];
-        if (!userTimesForDay || userTimesForDay.length === 0) continue;
-        
-        // Skip if the other user has no availability for this day
-        const otherUserTimesForDay = otherUserAvailability.availability[day] || [];
-        if (otherUserTimesForDay.length === 0) continue;
-        
-        // Find overlapping times
-        const overlappingTimes = userTimesForDay.filter(time => 
-          otherUserTimesForDay.includes(time)
-        );
-        
-        if (overlappingTimes.length > 0) {
-          // Pick a random time from the overlapping available times
-          const randomTimeIndex = Math.floor(Math.random() * overlappingTimes.length);
-          matchTime = overlappingTimes[randomTimeIndex];
-          matchDay = day;
-          
-          // Parse the date and time
-          const [year, month, dayNum] = matchDay.split('-').map(Number);
-          const [hours, minutes] = matchTime.split(':').map(Number);
-          
-          matchDate = new Date(year, month - 1, dayNum, hours, minutes);
-          validMatchFound = true;
-          break;
-        }
-      }
-      
-      // Skip if no valid match time found
-      if (!validMatchFound || !matchDate) {
-        continue;
-      }
-      
-      // Pick location based on dining hall preferences
-      let matchLocation;
-      
-      if (diningHalls.length > 0) {
-        // If there are overlapping or at least one user's dining halls, pick from those
-        const randomDiningHallIndex = Math.floor(Math.random() * diningHalls.length);
-        matchLocation = diningHalls[randomDiningHallIndex];
-      } else {
-        // Fallback to default locations if no dining halls are available
-        const randomLocationIndex = Math.floor(Math.random() * mealLocations.length);
-        matchLocation = mealLocations[randomLocationIndex];
-      }
-      
-      // Create a new match document
-      const newMatch: Omit<Match, 'id'> = {
-        userId,
-        matchUserId: otherUser.uid,
-        matchUser: otherUser,
-        suggestedTime: Timestamp.fromDate(matchDate),
-        suggestedLocation: matchLocation,
-        status: 'pending',
-        createdAt: Timestamp.now(),
-        priorityScore // Add priority score to the match
-      };
-      
-      // Save the match to Firestore
-      const matchRef = await addDoc(matchesCollection, newMatch);
-      
-      potentialMatches.push({
-        id: matchRef.id,
-        ...newMatch
-      });
-    }
-    
-    return potentialMatches;
-    
+      .sort((a, b) => a.suggestedTime.toMillis() - b.suggestedTime.toMillis());
   } catch (error) {
     console.error("Error finding potential matches:", error);
     throw new Error("Failed to find meal matches.");
@@ -978,6 +1823,35 @@ export const declineMatch = async (userId: string, matchId: string): Promise<voi
   }
 };
 
+// Get a user's confirmed (matched) meals, from either side of the match.
+// `matchUser` on each result is always the other person.
+export const getMatchedMeals = async (userId: string): Promise<Match[]> => {
+  try {
+    const [asCreator, asMatchedUser] = await Promise.all([
+      getDocs(query(matchesCollection, where('userId', '==', userId), where('status', '==', 'matched'))),
+      getDocs(query(matchesCollection, where('matchUserId', '==', userId), where('status', '==', 'matched'))),
+    ]);
+
+    const matches: Match[] = [];
+    asCreator.forEach(doc => matches.push({ id: doc.id, ...doc.data() } as Match));
+    asMatchedUser.forEach(doc => matches.push({ id: doc.id, ...doc.data() } as Match));
+
+    return await Promise.all(
+      matches.map(async match => {
+        const otherUserId = match.userId === userId ? match.matchUserId : match.userId;
+        const otherUserProfile = await getUserProfile(otherUserId);
+        return {
+          ...match,
+          matchUser: otherUserProfile || { uid: otherUserId, email: null, displayName: null }
+        };
+      })
+    );
+  } catch (error) {
+    console.error("Error getting matched meals:", error);
+    throw new Error("Failed to get matched meals.");
+  }
+};
+
 // Get user notifications
 export const getUserNotifications = async (userId: string): Promise<Notification[]> => {
   try {
@@ -1013,3 +1887,175 @@ export const markNotificationAsRead = async (notificationId: string): Promise<vo
     throw new Error("Failed to update notification.");
   }
 };
+
+// --- Group Meals --- 
+
+export type GroupMealStatus = 'pending' | 'confirmed' | 'declined';
+
+// A meal for 3–4 people who opted in to groups, made by the weekly run alongside the one-on-one
+// matches. It goes ahead once `quorum` members accept, and those members can then see each
+// other's contact details.
+export interface GroupMeal {
+  id: string;
+  memberIds: string[];
+  members?: UserProfile[]; // Filled in when read, never stored
+  suggestedTime: Timestamp;
+  suggestedLocation: string;
+  status: GroupMealStatus;
+  quorum: number; // Acceptances needed to confirm
+  acceptedBy: Record<string, Timestamp>;
+  declinedBy: string[];
+  priorityScore: number;
+  weekKey: string;
+  createdAt: Timestamp;
+}
+
+const groupMealsCollection = collection(db, "groupMeals");
+
+const getGroupMealById = async (groupMealId: string): Promise<GroupMeal | null> => {
+  const groupMealSnap = await getDoc(doc(groupMealsCollection, groupMealId));
+  return groupMealSnap.exists() ? { id: groupMealSnap.id, ...groupMealSnap.data() } as GroupMeal : null;
+};
+
+const describeGroupMealTime = (groupMeal: Pick<GroupMeal, 'suggestedLocation' | 'suggestedTime'>): string => {
+  const time = groupMeal.suggestedTime.toDate();
+  return `at ${groupMeal.suggestedLocation} on ${time.toLocaleDateString()} at ${time.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}`;
+};
+
+// Notifications for the members who accepted, once the group meal is confirmed or called off
+const buildGroupMealNotifications = (
+  groupMeal: GroupMeal,
+  status: GroupMealStatus,
+  recipientIds: string[]
+): { ref: DocumentReference; notification: Notification }[] =>
+  recipientIds.map(userId => {
+    const ref = doc(notificationsCollection);
+    const notification: Notification = {
+      id: ref.id,
+      userId,
+      type: status === 'confirmed' ? 'group_meal_confirmed' : 'group_meal_cancelled',
+      content: status === 'confirmed'
+        ? `Your group meal is on! Meet ${describeGroupMealTime(groupMeal)}. Contact details are on your dashboard.`
+        : `Not enough people could make your group meal ${describeGroupMealTime(groupMeal)}, so it's been called off.`,
+      relatedGroupMealId: groupMeal.id,
+      read: false,
+      createdAt: Timestamp.now()
+    };
+    return { ref, notification };
+  });
+
+// A user's pending and confirmed group meals, soonest first, with every member's profile
+export const getGroupMeals = async (userId: string): Promise<GroupMeal[]> => {
+  try {
+    const groupMealsSnapshot = await getDocs(query(
+      groupMealsCollection,
+      where('memberIds', 'array-contains', userId),
+      where('status', 'in', ['pending', 'confirmed'])
+    ));
+    const groupMeals = groupMealsSnapshot.docs
+      .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as GroupMeal))
+      .filter(groupMeal => !groupMeal.declinedBy.includes(userId));
+    const memberIds = Array.from(new Set(groupMeals.flatMap(groupMeal => groupMeal.memberIds)));
+    const profiles = memberIds.length > 0 ? await getUserProfiles(memberIds) : {};
+
+    return groupMeals
+      .map(groupMeal => ({
+        ...groupMeal,
+        members: groupMeal.memberIds.map(uid => profiles[uid] || { uid, email: null, displayName: null }),
+      }))
+      .sort((a, b) => a.suggestedTime.toMillis() - b.suggestedTime.toMillis());
+  } catch (error) {
+    console.error("Error getting group meals: ", error);
+    throw new Error("Failed to get group meals.");
+  }
+};
+
+// Accept a group meal. Runs in a transaction because several members may answer at once; the
+// acceptance that reaches the quorum confirms the meal and tells everyone who accepted.
+// Members can still accept after that and join in.
+export const acceptGroupMeal = async (userId: string, groupMealId: string): Promise<GroupMealStatus> => {
+  const existing = await getGroupMealById(groupMealId);
+  if (!existing) throw new Error("Group meal not found.");
+  if (!existing.memberIds.includes(userId)) throw new Error("You aren't part of this group meal.");
+
+  try {
+    const groupMealRef = doc(groupMealsCollection, groupMealId);
+    return await runTransaction(db, async (transaction) => {
+      const groupMealSnap = await transaction.get(groupMealRef);
+      if (!groupMealSnap.exists()) {
+        throw new Error("Group meal not found");
+      }
+
+      const groupMeal = { id: groupMealSnap.id, ...groupMealSnap.data() } as GroupMeal;
+      if (groupMeal.status === 'declined') {
+        throw new Error("This group meal was called off");
+      }
+      if (groupMeal.acceptedBy[userId]) return groupMeal.status;
+
+      const acceptedBy = { ...groupMeal.acceptedBy, [userId]: Timestamp.now() };
+      const declinedBy = groupMeal.declinedBy.filter(uid => uid !== userId);
+      const status = groupMeal.status === 'confirmed'
+        ? 'confirmed'
+        : getGroupMealStatus(groupMeal.memberIds.length, groupMeal.quorum, Object.keys(acceptedBy).length, declinedBy.length);
+      transaction.update(groupMealRef, { acceptedBy, declinedBy, status });
+
+      // Everyone who accepted hears when the meal is confirmed; anyone joining later just sees it
+      const recipientIds = groupMeal.status === 'pending' && status === 'confirmed' ? Object.keys(acceptedBy) : [];
+      buildGroupMealNotifications(groupMeal, status, recipientIds)
+        .forEach(({ ref, notification }) => transaction.set(ref, notification));
+      return status;
+    });
+  } catch (error) {
+    console.error("Error accepting group meal: ", error);
+    throw new Error("Failed to accept group meal.");
+  }
+};
+
+// Decline a group meal. If that leaves too few people to reach the quorum the meal is called off
+// and those who had accepted are told. Once a confirmed meal has been accepted it's up to the
+// group to sort out changes between themselves.
+export const declineGroupMeal = async (userId: string, groupMealId: string): Promise<GroupMealStatus> => {
+  const existing = await getGroupMealById(groupMealId);
+  if (!existing) throw new Error("Group meal not found.");
+  if (!existing.memberIds.includes(userId)) throw new Error("You aren't part of this group meal.");
+  if (existing.status === 'confirmed' && existing.acceptedBy[userId]) {
+    throw new Error("You've already accepted this group meal. Let the group know if you can't make it.");
+  }
+
+  try {
+    const groupMealRef = doc(groupMealsCollection, groupMealId);
+    return await runTransaction(db, async (transaction) => {
+      const groupMealSnap = await transaction.get(groupMealRef);
+      if (!groupMealSnap.exists()) {
+        throw new Error("Group meal not found");
+      }
+
+      const groupMeal = { id: groupMealSnap.id, ...groupMealSnap.data() } as GroupMeal;
+      if (groupMeal.declinedBy.includes(userId) || groupMeal.status === 'declined') return groupMeal.status;
+
+      const acceptedBy = Object.fromEntries(Object.entries(groupMeal.acceptedBy).filter(([uid]) => uid !== userId));
+      const declinedBy = [...groupMeal.declinedBy, userId];
+      const status = groupMeal.status === 'confirmed'
+        ? 'confirmed'
+        : getGroupMealStatus(groupMeal.memberIds.length, groupMeal.quorum, Object.keys(acceptedBy).length, declinedBy.length);
+      transaction.update(groupMealRef, { acceptedBy, declinedBy, status });
+
+      const recipientIds = status === 'declined' ? Object.keys(acceptedBy) : [];
+      buildGroupMealNotifications(groupMeal, status, recipientIds)
+        .forEach(({ ref, notification }) => transaction.set(ref, notification));
+      return status;
+    });
+  } catch (error) {
+    console.error("Error declining group meal: ", error);
+    throw new Error("Failed to decline group meal.");
+  }
+};
+
+// --- Calendar Feed --- 
+
+// Get the signed-in user's calendar feed token, creating one on first use. Feeds live where only
+// the server can read them, since the token alone unlocks the feed (see app/api/calendar).
+export const getOrCreateCalendarFeedToken = async (): Promise<string> => {
+  const { token } = await callServerRoute<{ token: string }>("/api/calendar", { method: "POST" });
+  return token;
+};
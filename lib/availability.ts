@@ -0,0 +1,122 @@
+// Shared availability grid configuration and slot helpers.
+// Availability is stored as { 'YYYY-MM-DD': ['09:00', '09:30'] }, one entry per selected slot start.
+
+export const HOURS_START = 6; // 6 AM
+export const HOURS_END = 22; // 10 PM (exclusive, so last slot is 21:30)
+export const TIME_SLOT_MINUTES = 30;
+export const DAYS_IN_WEEK = 7;
+
+// Helper to get Monday of a given date
+export const getMonday = (d: Date): Date => {
+  d = new Date(d);
+  const day = d.getDay(),
+      diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday (0)
+  return new Date(d.setDate(diff));
+};
+
+// Helper to format date as YYYY-MM-DD
+export const formatDateKey = (d: Date): string => {
+  return d.toISOString().split('T')[0];
+};
+
+export interface AvailabilityDay {
+  date: Date;
+  dateKey: string; // YYYY-MM-DD
+}
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface DayAvailabilityChange {
+  added: string[];
+  removed: string[];
+}
+
+const formatSlotTime = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60).toString().padStart(2, '0');
+  const minutes = (totalMinutes % 60).toString().padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+const parseSlotTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Every "HH:MM" slot start between HOURS_START and HOURS_END
+export const getSlotTimes = (): string[] => {
+  const times: string[] = [];
+  for (let minutes = HOURS_START * 60; minutes < HOURS_END * 60; minutes += TIME_SLOT_MINUTES) {
+    times.push(formatSlotTime(minutes));
+  }
+  return times;
+};
+
+// A slot is free when no busy interval overlaps any part of it
+export const deriveFreeSlots = (days: AvailabilityDay[], busy: BusyInterval[]): Record<string, string[]> => {
+  const availability: Record<string, string[]> = {};
+  const slotTimes = getSlotTimes();
+
+  days.forEach(day => {
+    const free = slotTimes.filter(time => {
+      const slotStart = new Date(day.date);
+      slotStart.setHours(0, parseSlotTime(time), 0, 0);
+      const slotEnd = new Date(slotStart.getTime() + TIME_SLOT_MINUTES * 60 * 1000);
+      return !busy.some(interval => interval.start < slotEnd && interval.end > slotStart);
+    });
+    if (free.length > 0) {
+      availability[day.dateKey] = free;
+    }
+  });
+
+  return availability;
+};
+
+// Per-day slots that would become available (added) or unavailable (removed). Unchanged days are omitted.
+export const diffAvailability = (
+  before: Record<string, string[]>,
+  after: Record<string, string[]>
+): Record<string, DayAvailabilityChange> => {
+  const changes: Record<string, DayAvailabilityChange> = {};
+  const dateKeys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  Array.from(dateKeys).sort().forEach(dateKey => {
+    const beforeSlots = new Set(before[dateKey] || []);
+    const afterSlots = new Set(after[dateKey] || []);
+    const added = Array.from(afterSlots).filter(time => !beforeSlots.has(time)).sort();
+    const removed = Array.from(beforeSlots).filter(time => !afterSlots.has(time)).sort();
+    if (added.length > 0 || removed.length > 0) {
+      changes[dateKey] = { added, removed };
+    }
+  });
+
+  return changes;
+};
+
+// ['09:00', '09:30', '11:00'] -> ['09:00–10:00', '11:00–11:30']
+export const groupSlotRanges = (times: string[]): string[] => {
+  const sorted = [...times].sort();
+  const ranges: string[] = [];
+  let rangeStart: number | null = null;
+  let rangeEnd = 0;
+
+  sorted.forEach(time => {
+    const minutes = parseSlotTime(time);
+    if (rangeStart !== null && minutes === rangeEnd) {
+      rangeEnd += TIME_SLOT_MINUTES;
+      return;
+    }
+    if (rangeStart !== null) {
+      ranges.push(`${formatSlotTime(rangeStart)}–${formatSlotTime(rangeEnd)}`);
+    }
+    rangeStart = minutes;
+    rangeEnd = minutes + TIME_SLOT_MINUTES;
+  });
+  if (rangeStart !== null) {
+    ranges.push(`${formatSlotTime(rangeStart)}–${formatSlotTime(rangeEnd)}`);
+  }
+
+  return ranges;
+};
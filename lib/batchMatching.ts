@@ -0,0 +1,178 @@
+// Weekly batch matching: everyone is paired in one run instead of first come, first served
+import type { BusyInterval } from './availability';
+import { getWeekStart, toLocalDateKey } from './calendarView';
+import { removeBusySlots } from './conflicts';
+import { MATCHED_MEAL_DURATION_MINUTES } from './ics';
+import { maxWeightMatching, WeightedEdge } from './maxWeightMatching';
+import { Random, pickOne, shuffle } from './random';
+
+export const DEFAULT_MAX_MATCHES_PER_USER = 1;
+
+// Priority scores dominate the edge weights; shared free time breaks ties between similar scores
+const PRIORITY_WEIGHT = 100;
+const SLOT_WEIGHT = 5;
+const MAX_COUNTED_SLOTS = 10;
+
+export interface MatchCandidate {
+  uid: string;
+  availability: Record<string, string[]>; // Free slots in the week being matched
+  favoriteDiningHalls: string[];
+}
+
+export interface CompatibilityEdge {
+  userId1: string;
+  userId2: string;
+  priorityScore: number;
+  sharedSlots: Record<string, string[]>;
+  weight: number;
+}
+
+export interface PlannedMatch {
+  userId1: string;
+  userId2: string;
+  time: Date;
+  location: string;
+  priorityScore: number;
+}
+
+export interface BatchMatchOptions {
+  maxMatchesPerUser?: number; // Defaults to DEFAULT_MAX_MATCHES_PER_USER
+  fallbackLocations: string[]; // Used when neither person has favourite dining halls
+  random: Random; // Seeded, so the same seed and inputs always give the same matches
+  alreadyBooked?: Record<string, BusyInterval[]>; // Meals people already have this week, e.g. group meals; each counts towards the cap
+}
+
+// Repeating availability keeps the dates of the week it was entered in; move every day onto the
+// same weekday of the week being matched
+export const alignAvailabilityToWeek = (
+  availability: Record<string, string[]>,
+  weekStart: Date
+): Record<string, string[]> => {
+  const aligned: Record<string, string[]> = {};
+  Object.entries(availability).forEach(([dateKey, times]) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    const offset = Math.round((date.getTime() - getWeekStart(date).getTime()) / (24 * 60 * 60 * 1000));
+    const key = toLocalDateKey(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + offset));
+    aligned[key] = [...(aligned[key] ?? []), ...times];
+  });
+  return Object.fromEntries(
+    Object.entries(aligned).map(([dateKey, times]) => [dateKey, Array.from(new Set(times)).sort()])
+  );
+};
+
+export const getSharedSlots = (a: Record<string, string[]>, b: Record<string, string[]>): Record<string, string[]> => {
+  const shared: Record<string, string[]> = {};
+  Object.entries(a).forEach(([dateKey, times]) => {
+    const overlap = times.filter(time => (b[dateKey] ?? []).includes(time));
+    if (overlap.length > 0) shared[dateKey] = overlap;
+  });
+  return shared;
+};
+
+const countSlots = (slots: Record<string, string[]>): number =>
+  Object.values(slots).reduce((count, times) => count + times.length, 0);
+
+// One edge per pair that could share a meal: a positive priority score and at least one common slot
+export const buildCompatibilityGraph = (
+  candidates: MatchCandidate[],
+  getPriorityScore: (userId1: string, userId2: string) => number
+): CompatibilityEdge[] => {
+  const edges: CompatibilityEdge[] = [];
+  candidates.forEach((a, i) => {
+    candidates.slice(i + 1).forEach(b => {
+      const priorityScore = getPriorityScore(a.uid, b.uid);
+      if (!(priorityScore > 0)) return;
+      const sharedSlots = getSharedSlots(a.availability, b.availability);
+      const slotCount = countSlots(sharedSlots);
+      if (slotCount === 0) return;
+      edges.push({
+        userId1: a.uid,
+        userId2: b.uid,
+        priorityScore,
+        sharedSlots,
+        weight: Math.round(priorityScore * PRIORITY_WEIGHT) + Math.min(slotCount, MAX_COUNTED_SLOTS) * SLOT_WEIGHT,
+      });
+    });
+  });
+  return edges;
+};
+
+// A dining hall both like, else one either likes, else any configured location
+const pickLocation = (a: MatchCandidate, b: MatchCandidate, fallbackLocations: string[], random: Random): string => {
+  const shared = a.favoriteDiningHalls.filter(hall => b.favoriteDiningHalls.includes(hall));
+  const either = Array.from(new Set([...a.favoriteDiningHalls, ...b.favoriteDiningHalls]));
+  const options = shared.length > 0 ? shared : either.length > 0 ? either : fallbackLocations;
+  return pickOne([...options].sort(), random) as string;
+};
+
+// The earliest slot on any shared day that doesn't run into a meal either person already got in
+// this run. Taking the earliest slot of the day leaves the rest of it free for another match.
+export const pickTime = (sharedSlots: Record<string, string[]>, booked: BusyInterval[], random: Random): Date | null => {
+  const free = removeBusySlots(sharedSlots, booked);
+  const dateKey = pickOne(Object.keys(free).sort(), random);
+  if (!dateKey) return null;
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = [...free[dateKey]].sort()[0].split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+// Pair people to maximize total compatibility. Each round is a maximum-weight matching over the
+// people who still have room under the cap, so nobody collects more matches than that however
+// popular they are. A pair is only ever considered once. Candidates are shuffled first so ties
+// between equally good pairings don't always go to whoever signed up first.
+export const planBatchMatches = (
+  candidates: MatchCandidate[],
+  getPriorityScore: (userId1: string, userId2: string) => number,
+  { maxMatchesPerUser = DEFAULT_MAX_MATCHES_PER_USER, fallbackLocations, random, alreadyBooked = {} }: BatchMatchOptions
+): PlannedMatch[] => {
+  const graph = buildCompatibilityGraph(shuffle(candidates, random), getPriorityScore);
+  const candidatesById = new Map(candidates.map(candidate => [candidate.uid, candidate]));
+  const remaining = new Map(candidates.map(candidate => [
+    candidate.uid,
+    maxMatchesPerUser - (alreadyBooked[candidate.uid]?.length ?? 0),
+  ]));
+  const booked = new Map(Object.entries(alreadyBooked));
+  const usedEdges = new Set<CompatibilityEdge>();
+  const planned: PlannedMatch[] = [];
+
+  for (;;) {
+    const open = graph.filter(edge =>
+      !usedEdges.has(edge) && (remaining.get(edge.userId1) ?? 0) > 0 && (remaining.get(edge.userId2) ?? 0) > 0
+    );
+    if (open.length === 0) break;
+
+    const userIds = Array.from(new Set(open.flatMap(edge => [edge.userId1, edge.userId2])));
+    const indexes = new Map(userIds.map((uid, index) => [uid, index]));
+    const mate = maxWeightMatching(
+      userIds.length,
+      open.map((edge): WeightedEdge => [indexes.get(edge.userId1) as number, indexes.get(edge.userId2) as number, edge.weight])
+    );
+    const chosen = open.filter(edge => mate[indexes.get(edge.userId1) as number] === indexes.get(edge.userId2));
+    if (chosen.length === 0) break;
+
+    chosen.forEach(edge => {
+      usedEdges.add(edge);
+      const bookedForPair = [...(booked.get(edge.userId1) ?? []), ...(booked.get(edge.userId2) ?? [])];
+      const time = pickTime(edge.sharedSlots, bookedForPair, random);
+      if (!time) return;
+
+      const a = candidatesById.get(edge.userId1) as MatchCandidate;
+      const b = candidatesById.get(edge.userId2) as MatchCandidate;
+      planned.push({
+        userId1: edge.userId1,
+        userId2: edge.userId2,
+        time,
+        location: pickLocation(a, b, fallbackLocations, random),
+        priorityScore: edge.priorityScore,
+      });
+      const meal = { start: time, end: new Date(time.getTime() + MATCHED_MEAL_DURATION_MINUTES * 60 * 1000) };
+      [edge.userId1, edge.userId2].forEach(uid => {
+        remaining.set(uid, (remaining.get(uid) ?? 0) - 1);
+        booked.set(uid, [...(booked.get(uid) ?? []), meal]);
+      });
+    });
+  }
+
+  return planned.sort((a, b) => a.time.getTime() - b.time.getTime());
+};
@@ -0,0 +1,68 @@
+// Date math for the week and month calendar views of the events list
+
+export type CalendarMode = 'week' | 'month';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weeks start on Monday, like availability weeks
+export const getWeekStart = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const daysSinceMonday = (start.getDay() + 6) % 7;
+  start.setDate(start.getDate() - daysSinceMonday);
+  return start;
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// The days shown: one week, or the full weeks that cover the anchor's month
+export const getCalendarDays = (mode: CalendarMode, anchor: Date): Date[] => {
+  if (mode === 'week') {
+    const start = getWeekStart(anchor);
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }
+  const firstOfMonth = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const lastOfMonth = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const start = getWeekStart(firstOfMonth);
+  const end = addDays(getWeekStart(lastOfMonth), 7);
+  const dayCount = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+  return Array.from({ length: dayCount }, (_, i) => addDays(start, i));
+};
+
+// Start of the first shown day through the end of the last one (exclusive)
+export const getCalendarRange = (mode: CalendarMode, anchor: Date): { start: Date; end: Date } => {
+  const days = getCalendarDays(mode, anchor);
+  return { start: days[0], end: addDays(days[days.length - 1], 1) };
+};
+
+// The Mondays of every week the view shows, for loading weekly availability
+export const getCalendarWeekStarts = (mode: CalendarMode, anchor: Date): Date[] =>
+  getCalendarDays(mode, anchor).filter((_, index) => index % 7 === 0);
+
+export const shiftCalendarAnchor = (mode: CalendarMode, anchor: Date, direction: 1 | -1): Date =>
+  mode === 'week'
+    ? addDays(anchor, 7 * direction)
+    : new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+
+export const getCalendarTitle = (mode: CalendarMode, anchor: Date): string => {
+  if (mode === 'month') {
+    return anchor.toLocaleDateString([], { month: 'long', year: 'numeric' });
+  }
+  const days = getCalendarDays('week', anchor);
+  const format = (date: Date) => date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  return `${format(days[0])} – ${format(days[6])}`;
+};
+
+// YYYY-MM-DD in local time
+export const toLocalDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+export const groupByDay = <T>(items: T[], getDate: (item: T) => Date): Record<string, T[]> => {
+  const groups: Record<string, T[]> = {};
+  items.forEach(item => {
+    const key = toLocalDateKey(getDate(item));
+    if (!groups[key]) groups[key] = [];
+    groups[key].push(item);
+  });
+  return groups;
+};
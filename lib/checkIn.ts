@@ -0,0 +1,81 @@
+// Event check-in codes and attendance records
+import type { Timestamp } from 'firebase/firestore';
+
+export const CHECK_IN_CODE_LENGTH = 6;
+export const CHECK_IN_CODE_PERIOD_MS = 60 * 1000; // The creator's code changes every minute
+export const CHECK_IN_OPENS_BEFORE_MS = 15 * 60 * 1000; // Early arrivals can check in before the start
+
+export type AttendanceStatus = 'attended' | 'no_show';
+
+export interface AttendanceRecord {
+  status: AttendanceStatus;
+  recordedAt: Timestamp; // Check-in time, or when the no-show was marked
+}
+
+// Keyed by user UID
+export type EventAttendance = Record<string, AttendanceRecord>;
+
+interface CheckInWindowFields {
+  start: Timestamp;
+  end: Timestamp;
+}
+
+export const isCheckInOpen = (event: CheckInWindowFields, now: Date): boolean =>
+  now.getTime() >= event.start.toMillis() - CHECK_IN_OPENS_BEFORE_MS && now.getTime() <= event.end.toMillis();
+
+// FNV-1a; codes are checked on the server and change every minute (see checkInToEvent in
+// lib/adminApi.ts), so they only need to be hard to guess from across the room, not cryptographically strong
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const getCodeForPeriod = (secret: string, period: number): string =>
+  (hashString(`${secret}:${period}`) % 10 ** CHECK_IN_CODE_LENGTH).toString().padStart(CHECK_IN_CODE_LENGTH, '0');
+
+const getPeriod = (now: Date): number => Math.floor(now.getTime() / CHECK_IN_CODE_PERIOD_MS);
+
+// The code the creator shows right now
+export const getCheckInCode = (secret: string, now: Date): string => getCodeForPeriod(secret, getPeriod(now));
+
+// Milliseconds until the displayed code changes
+export const getCheckInCodeExpiry = (now: Date): number =>
+  CHECK_IN_CODE_PERIOD_MS - (now.getTime() % CHECK_IN_CODE_PERIOD_MS);
+
+// The previous code is still accepted so a code that rotates while someone is typing it works
+export const isValidCheckInCode = (secret: string, code: string, now: Date): boolean => {
+  const normalized = code.replace(/\s/g, '');
+  const period = getPeriod(now);
+  return normalized === getCodeForPeriod(secret, period) || normalized === getCodeForPeriod(secret, period - 1);
+};
+
+export interface AttendanceSummary {
+  attended: string[];
+  noShows: string[];
+  notCheckedIn: string[]; // Going but not checked in yet while the event is still running
+}
+
+// Going participants who never checked in count as no-shows once the event has ended,
+// whether or not that has been written to the event yet
+export const summarizeAttendance = (
+  event: CheckInWindowFields & { participants: string[]; attendance: EventAttendance },
+  now: Date
+): AttendanceSummary => {
+  const hasEnded = now.getTime() > event.end.toMillis();
+  const summary: AttendanceSummary = { attended: [], noShows: [], notCheckedIn: [] };
+  Object.entries(event.attendance)
+    .filter(([, record]) => record.status === 'attended')
+    .forEach(([uid]) => summary.attended.push(uid));
+  event.participants
+    .filter(uid => event.attendance[uid]?.status !== 'attended')
+    .forEach(uid => (hasEnded ? summary.noShows : summary.notCheckedIn).push(uid));
+  return summary;
+};
+
+// Participants that still need a no-show record after the event ended
+export const getUnmarkedNoShows = (event: { participants: string[]; attendance: EventAttendance }): string[] =>
+  event.participants.filter(uid => !event.attendance[uid]);
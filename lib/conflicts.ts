@@ -0,0 +1,79 @@
+// Spotting double bookings between the events a user has joined and their matched meals
+import type { EventData, Match } from './api';
+import type { BusyInterval } from './availability';
+import { MATCHED_MEAL_DURATION_MINUTES } from './ics';
+
+export interface ScheduleConflict {
+  kind: 'event' | 'meal';
+  id: string;
+  title: string; // e.g. the event name or "Meal with Alex"
+  start: Date;
+  end: Date;
+}
+
+const overlaps = (a: BusyInterval, b: BusyInterval): boolean => a.start < b.end && a.end > b.start;
+
+export const getEventInterval = (event: Pick<EventData, 'start' | 'end'>): BusyInterval => ({
+  start: event.start.toDate(),
+  end: event.end.toDate(),
+});
+
+export const getMealInterval = (meal: Pick<Match, 'suggestedTime'>): BusyInterval => {
+  const start = meal.suggestedTime.toDate();
+  return { start, end: new Date(start.getTime() + MATCHED_MEAL_DURATION_MINUTES * 60 * 1000) };
+};
+
+// Joined events and matched meals that overlap `interval`, soonest first. Cancelled events and
+// the event being checked (`ignoreEventId`) don't count.
+export const findScheduleConflicts = (
+  interval: BusyInterval,
+  joinedEvents: EventData[],
+  matchedMeals: Match[],
+  ignoreEventId?: string
+): ScheduleConflict[] => {
+  const eventConflicts: ScheduleConflict[] = joinedEvents
+    .filter(event => event.id && event.id !== ignoreEventId && !event.cancelled)
+    .filter(event => overlaps(interval, getEventInterval(event)))
+    .map(event => ({ kind: 'event', id: event.id as string, title: event.name, ...getEventInterval(event) }));
+  const mealConflicts: ScheduleConflict[] = matchedMeals
+    .filter(meal => overlaps(interval, getMealInterval(meal)))
+    .map(meal => ({
+      kind: 'meal',
+      id: meal.id,
+      title: `Meal with ${meal.matchUser?.displayName || 'your match'}`,
+      ...getMealInterval(meal),
+    }));
+  return [...eventConflicts, ...mealConflicts].sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+const formatTime = (date: Date): string =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+// "This overlaps with Taco Tuesday (18:00–19:30) and Meal with Alex (18:30–19:30)."
+export const describeConflicts = (conflicts: ScheduleConflict[]): string => {
+  const items = conflicts.map(conflict => `${conflict.title} (${formatTime(conflict.start)}–${formatTime(conflict.end)})`);
+  const list = items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0] ?? '';
+  return `This overlaps with ${list}.`;
+};
+
+// Availability without the slots where a meal starting then would run into one of the busy
+// intervals. Days left with no slots are dropped.
+export const removeBusySlots = (
+  availability: Record<string, string[]>,
+  busy: BusyInterval[],
+  mealMinutes: number = MATCHED_MEAL_DURATION_MINUTES
+): Record<string, string[]> => {
+  if (busy.length === 0) return availability;
+  const free: Record<string, string[]> = {};
+  Object.entries(availability).forEach(([dateKey, times]) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const freeTimes = times.filter(time => {
+      const [hours, minutes] = time.split(':').map(Number);
+      const start = new Date(year, month - 1, day, hours, minutes);
+      const meal = { start, end: new Date(start.getTime() + mealMinutes * 60 * 1000) };
+      return !busy.some(interval => overlaps(meal, interval));
+    });
+    if (freeTimes.length > 0) free[dateKey] = freeTimes;
+  });
+  return free;
+};
@@ -0,0 +1,62 @@
+// Turning stored event documents into EventData. Shared by the client API and the server, which
+// read through different Firebase SDKs, so the caller passes its SDK's Timestamp.fromMillis.
+import type { DocumentData, Timestamp } from 'firebase/firestore';
+import type { EventData } from './api';
+import { EventRsvps, getRsvpUserIds } from './rsvp';
+
+type FromMillis = (millis: number) => Timestamp;
+
+// Events created before RSVPs stored a bare `participants` array; read those as "going"
+const getLegacyRsvps = (participants: string[] = [], fromMillis: FromMillis): EventRsvps =>
+  Object.fromEntries(participants.map((uid, index) => [uid, { status: 'going', updatedAt: fromMillis(index) }]));
+
+export const toEventData = (id: string, data: DocumentData, fromMillis: FromMillis): EventData => {
+  const rsvps: EventRsvps = data.rsvps || getLegacyRsvps(data.participants, fromMillis);
+  return {
+    id,
+    name: data.name,
+    description: data.description || '',
+    tags: data.tags || [],
+    start: data.start,
+    end: data.end,
+    capacity: data.capacity,
+    location: data.location || undefined,
+    rsvps,
+    participants: getRsvpUserIds(rsvps, 'going'),
+    waitlist: data.waitlist || [],
+    creator: data.creator,
+    coHosts: data.coHosts || [],
+    seriesId: data.seriesId,
+    seriesDetached: data.seriesDetached || false,
+    cancelled: data.cancelled || false,
+    visibility: data.visibility || 'public',
+    attendance: data.attendance || {},
+    seating: data.seating || undefined,
+  };
+};
+
+// Route handlers send events as JSON, with every Timestamp as `{ timestampMillis }`
+type TimestampLike = { toMillis: () => number };
+
+const isTimestampLike = (value: unknown): value is TimestampLike =>
+  typeof value === 'object' && value !== null && typeof (value as TimestampLike).toMillis === 'function';
+
+export const toWireValue = (value: unknown): unknown => {
+  if (isTimestampLike(value)) return { timestampMillis: value.toMillis() };
+  if (Array.isArray(value)) return value.map(toWireValue);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toWireValue(entry)]));
+  }
+  return value;
+};
+
+export const fromWireValue = (value: unknown, fromMillis: FromMillis): unknown => {
+  if (Array.isArray(value)) return value.map(entry => fromWireValue(entry, fromMillis));
+  if (typeof value === 'object' && value !== null) {
+    if (typeof (value as { timestampMillis?: unknown }).timestampMillis === 'number') {
+      return fromMillis((value as { timestampMillis: number }).timestampMillis);
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fromWireValue(entry, fromMillis)]));
+  }
+  return value;
+};
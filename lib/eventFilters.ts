@@ -0,0 +1,108 @@
+// Events list filters and their URL encoding, so filtered views can be shared as links
+import type { EventData } from './api';
+
+export const EVENT_TAGS = [
+  'vegetarian',
+  'vegan',
+  'study break',
+  'late night',
+  'brunch',
+  'coffee',
+  'first-years',
+  'club meeting',
+];
+
+export interface EventFilters {
+  search: string;
+  tags: string[]; // An event must have every selected tag
+  from: string | null; // YYYY-MM-DD, local date
+  to: string | null;
+  location: string;
+  includePast: boolean;
+  openSpots: boolean;
+  friendsAttending: boolean;
+  available: boolean; // Overlaps the viewer's saved availability
+}
+
+export const EMPTY_EVENT_FILTERS: EventFilters = {
+  search: '',
+  tags: [],
+  from: null,
+  to: null,
+  location: '',
+  includePast: false,
+  openSpots: false,
+  friendsAttending: false,
+  available: false,
+};
+
+// What the page knows about the viewer that some filters need
+export interface EventFilterContext {
+  friendIds: string[];
+  isAvailable: (event: EventData) => boolean;
+}
+
+const DATE_PARAM_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const readDateParam = (value: string | null): string | null =>
+  value && DATE_PARAM_PATTERN.test(value) ? value : null;
+
+export const parseEventFilters = (params: URLSearchParams): EventFilters => ({
+  search: params.get('q') ?? '',
+  tags: (params.get('tags') ?? '').split(',').filter(tag => EVENT_TAGS.includes(tag)),
+  from: readDateParam(params.get('from')),
+  to: readDateParam(params.get('to')),
+  location: params.get('location') ?? '',
+  includePast: params.get('past') === '1',
+  openSpots: params.get('open') === '1',
+  friendsAttending: params.get('friends') === '1',
+  available: params.get('available') === '1',
+});
+
+// Only non-default values are written so shared links stay short
+export const serializeEventFilters = (filters: EventFilters): string => {
+  const params = new URLSearchParams();
+  if (filters.search.trim()) params.set('q', filters.search); // Untrimmed so typing a space isn't undone
+  if (filters.tags.length > 0) params.set('tags', filters.tags.join(','));
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.location) params.set('location', filters.location);
+  if (filters.includePast) params.set('past', '1');
+  if (filters.openSpots) params.set('open', '1');
+  if (filters.friendsAttending) params.set('friends', '1');
+  if (filters.available) params.set('available', '1');
+  return params.toString();
+};
+
+// YYYY-MM-DD as a local midnight Date
+export const parseDateParam = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Whether any filter that runs on the fetched events (rather than in the query) is active
+export const hasClientSideFilters = (filters: EventFilters): boolean =>
+  !!filters.search.trim() || filters.tags.length > 0 || filters.openSpots || filters.friendsAttending || filters.available;
+
+// Every search term has to appear in the name, description or tags
+const matchesSearch = (event: EventData, search: string): boolean => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [event.name, event.description ?? '', ...(event.tags ?? [])].join(' ').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+// Date range, location and past events are applied by the Firestore query; everything else is filtered here
+export const applyEventFilters = (
+  events: EventData[],
+  filters: EventFilters,
+  context: EventFilterContext
+): EventData[] =>
+  events.filter(event => {
+    if (!matchesSearch(event, filters.search)) return false;
+    if (filters.tags.some(tag => !(event.tags ?? []).includes(tag))) return false;
+    if (filters.openSpots && event.participants.length >= event.capacity) return false;
+    if (filters.friendsAttending && !event.participants.some(uid => context.friendIds.includes(uid))) return false;
+    if (filters.available && !context.isAvailable(event)) return false;
+    return true;
+  });
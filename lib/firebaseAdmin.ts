@@ -0,0 +1,18 @@
+import { App, cert, getApp, getApps, initializeApp } from "firebase-admin/app";
+import { Firestore, getFirestore } from "firebase-admin/firestore";
+import { Auth, getAuth } from "firebase-admin/auth";
+
+// Server-side Firebase for route handlers and cron jobs. It signs in as a service account
+// (FIREBASE_SERVICE_ACCOUNT_KEY, the JSON key from the Firebase console) and so bypasses the
+// Firestore rules: never import it from client code.
+// Set up on first use rather than on import, so builds don't need the key.
+const getAdminApp = (): App => {
+  if (getApps().length) return getApp();
+  const serviceAccountKey = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+  if (!serviceAccountKey) throw new Error("FIREBASE_SERVICE_ACCOUNT_KEY is not set");
+  return initializeApp({ credential: cert(JSON.parse(serviceAccountKey)) });
+};
+
+export const getAdminDb = (): Firestore => getFirestore(getAdminApp());
+
+export const getAdminAuth = (): Auth => getAuth(getAdminApp());
@@ -0,0 +1,131 @@
+// Small group meals: people who opt in are put into groups of 3–4 before the one-on-one matching
+import type { GroupMeal, GroupMealStatus, UserProfile } from './api';
+import { MatchCandidate, getSharedSlots, pickTime } from './batchMatching';
+import { Random, pickOne, shuffle } from './random';
+import { getPairKey } from './seating';
+
+export const MIN_GROUP_SIZE = 3;
+export const MAX_GROUP_SIZE = 4;
+// A group meal needs at least two people to show up, whatever the configured quorum
+export const MIN_GROUP_QUORUM = 2;
+
+export interface PlannedGroupMeal {
+  memberIds: string[];
+  time: Date;
+  location: string;
+  priorityScore: number; // Average over every pair in the group
+}
+
+export interface GroupMatchOptions {
+  random: Random; // Seeded, so the same seed and inputs always give the same groups
+}
+
+// Key for an unordered group of users, like getPairKey for pairs
+export const getGroupKey = (memberIds: string[]): string => [...memberIds].sort().join('_');
+
+// Acceptances a group needs before it's on: everyone, unless a smaller quorum is configured
+export const getGroupQuorum = (groupSize: number, quorum?: number): number =>
+  Math.max(MIN_GROUP_QUORUM, Math.min(groupSize, quorum ?? groupSize));
+
+// Confirmed once the quorum accepts; called off once too many have declined to ever reach it
+export const getGroupMealStatus = (
+  memberCount: number,
+  quorum: number,
+  acceptedCount: number,
+  declinedCount: number
+): GroupMealStatus => {
+  if (acceptedCount >= quorum) return 'confirmed';
+  if (memberCount - declinedCount < quorum) return 'declined';
+  return 'pending';
+};
+
+// Once a group meal is confirmed, everyone who accepted can see the others who accepted
+export const getSharedContacts = (meal: GroupMeal, viewerId: string): UserProfile[] => {
+  if (meal.status !== 'confirmed' || !meal.acceptedBy[viewerId]) return [];
+  return (meal.members ?? []).filter(member => member.uid !== viewerId && !!meal.acceptedBy[member.uid]);
+};
+
+interface GroupDraft {
+  members: MatchCandidate[];
+  sharedSlots: Record<string, string[]>;
+  sharedHalls: string[];
+}
+
+const countSlots = (slots: Record<string, string[]>): number =>
+  Object.values(slots).reduce((count, times) => count + times.length, 0);
+
+// The draft with `candidate` added, or null if they'd leave the group without a common slot or a
+// dining hall everyone likes
+const addToDraft = (draft: GroupDraft, candidate: MatchCandidate): GroupDraft | null => {
+  const sharedSlots = getSharedSlots(draft.sharedSlots, candidate.availability);
+  const sharedHalls = draft.sharedHalls.filter(hall => candidate.favoriteDiningHalls.includes(hall));
+  if (countSlots(sharedSlots) === 0 || sharedHalls.length === 0) return null;
+  return { members: [...draft.members, candidate], sharedSlots, sharedHalls };
+};
+
+// Form groups greedily: take the most compatible pair whose members are both still free, then
+// keep adding whoever gets on best with everyone already in the group, as long as every pair has
+// a positive priority score and the whole group still shares a slot and a dining hall. Pairs that
+// can't grow to MIN_GROUP_SIZE are skipped. Candidates are shuffled first so ties don't always go
+// to whoever signed up first.
+export const planGroupMeals = (
+  candidates: MatchCandidate[],
+  getPriorityScore: (userId1: string, userId2: string) => number,
+  { random }: GroupMatchOptions
+): PlannedGroupMeal[] => {
+  // Nothing to draw from the generator when no group is possible, so runs without group
+  // candidates replay exactly as they did before groups existed
+  if (candidates.length < MIN_GROUP_SIZE) return [];
+
+  const shuffled = shuffle(candidates, random);
+  const scores = new Map<string, number>();
+  const seeds: { a: MatchCandidate; b: MatchCandidate; score: number }[] = [];
+  shuffled.forEach((a, i) => {
+    shuffled.slice(i + 1).forEach(b => {
+      const score = getPriorityScore(a.uid, b.uid);
+      scores.set(getPairKey(a.uid, b.uid), score);
+      if (score > 0) seeds.push({ a, b, score });
+    });
+  });
+  // Stable sort, so equal scores keep the shuffled order
+  seeds.sort((x, y) => y.score - x.score);
+  const getScore = (userId1: string, userId2: string): number => scores.get(getPairKey(userId1, userId2)) ?? 0;
+
+  const grouped = new Set<string>();
+  const planned: PlannedGroupMeal[] = [];
+  seeds.forEach(({ a, b }) => {
+    if (grouped.has(a.uid) || grouped.has(b.uid)) return;
+    let draft = addToDraft({ members: [a], sharedSlots: a.availability, sharedHalls: a.favoriteDiningHalls }, b);
+
+    while (draft && draft.members.length < MAX_GROUP_SIZE) {
+      let best: { draft: GroupDraft; score: number } | null = null;
+      for (const candidate of shuffled) {
+        if (grouped.has(candidate.uid) || draft.members.some(member => member.uid === candidate.uid)) continue;
+        const memberScores = draft.members.map(member => getScore(member.uid, candidate.uid));
+        if (memberScores.some(score => !(score > 0))) continue;
+        const score = memberScores.reduce((total, memberScore) => total + memberScore, 0);
+        if (best && score <= best.score) continue;
+        const grown = addToDraft(draft, candidate);
+        if (grown) best = { draft: grown, score };
+      }
+      if (!best) break;
+      draft = best.draft;
+    }
+
+    if (!draft || draft.members.length < MIN_GROUP_SIZE) return;
+    const time = pickTime(draft.sharedSlots, [], random);
+    if (!time) return;
+
+    const memberIds = draft.members.map(member => member.uid);
+    const pairScores = memberIds.flatMap((uid, i) => memberIds.slice(i + 1).map(other => getScore(uid, other)));
+    memberIds.forEach(uid => grouped.add(uid));
+    planned.push({
+      memberIds,
+      time,
+      location: pickOne([...draft.sharedHalls].sort(), random) as string,
+      priorityScore: pairScores.reduce((total, score) => total + score, 0) / pairScores.length,
+    });
+  });
+
+  return planned.sort((a, b) => a.time.getTime() - b.time.getTime());
+};
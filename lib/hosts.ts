@@ -0,0 +1,14 @@
+// Who runs an event: the creator plus any co-hosts they added
+import type { EventData } from './api';
+
+export const MAX_CO_HOSTS = 5;
+
+type HostFields = Pick<EventData, 'creator' | 'coHosts'>;
+
+// Creator first, then co-hosts in the order they were added
+export const getEventHosts = (event: HostFields): string[] =>
+  [event.creator, ...(event.coHosts ?? []).filter(uid => uid !== event.creator)];
+
+// Hosts share the creator's powers over a single event: editing, cancelling, seating and check-in
+export const isEventHost = (event: HostFields, userId: string | null | undefined): boolean =>
+  !!userId && (event.creator === userId || (event.coHosts ?? []).includes(userId));
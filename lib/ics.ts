@@ -0,0 +1,375 @@
+// iCalendar (RFC 5545) generation for events and matched meals
+import type { EventData, GroupMeal, Match, UserProfile } from './api';
+import type { BusyInterval } from './availability';
+import { formatEventLocation } from './locations';
+
+// Matches only store a start time; assume a meal takes an hour
+export const MATCHED_MEAL_DURATION_MINUTES = 60;
+
+const PRODUCT_ID = '-//Munch Club//Meals//EN';
+const MAX_LINE_OCTETS = 75;
+
+export interface IcsEvent {
+  uid: string; // Globally unique and stable, so re-imports update instead of duplicating
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  cancelled?: boolean;
+}
+
+// 2025-01-05T19:00:00.000Z -> 20250105T190000Z
+export const formatIcsDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const escapeIcsText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+};
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+export const foldIcsLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of Array.from(line)) {
+    const octets = utf8Length(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const buildVevent = (event: IcsEvent, stamp: Date): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(stamp)}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push(`STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+// Build a complete VCALENDAR document. `now` is injectable so output is reproducible in tests.
+export const buildIcsCalendar = (events: IcsEvent[], calendarName = 'Munch Club', now: Date = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    ...events.flatMap(event => buildVevent(event, now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+export const eventToIcsEvent = (event: EventData, baseUrl: string): IcsEvent => ({
+  uid: `event-${event.id}@munch-club`,
+  start: event.start.toDate(),
+  end: event.end.toDate(),
+  summary: event.name,
+  location: event.location ? formatEventLocation(event.location) : undefined,
+  url: `${baseUrl}/events/${event.id}`,
+  cancelled: event.cancelled,
+});
+
+// `match.matchUser` is expected to be the other person from the viewer's point of view
+export const matchToIcsEvent = (match: Match): IcsEvent => {
+  const start = new Date(match.suggestedTime.seconds * 1000);
+  const partnerName = match.matchUser?.displayName || 'your match';
+  const phoneNumber = match.matchUser?.surveyData?.phoneNumber;
+  return {
+    uid: `match-${match.id}@munch-club`,
+    start,
+    end: new Date(start.getTime() + MATCHED_MEAL_DURATION_MINUTES * 60 * 1000),
+    summary: `Meal with ${partnerName}`,
+    description: phoneNumber ? `Munch Club match. Contact: ${phoneNumber}` : 'Munch Club match.',
+    location: match.suggestedLocation,
+  };
+};
+
+// `contacts` are the other members whose details the viewer can see (see getSharedContacts)
+export const groupMealToIcsEvent = (groupMeal: GroupMeal, contacts: UserProfile[]): IcsEvent => {
+  const start = groupMeal.suggestedTime.toDate();
+  const contactLines = contacts
+    .filter(contact => contact.surveyData?.phoneNumber)
+    .map(contact => `${contact.displayName || 'Member'}: ${contact.surveyData?.phoneNumber}`);
+  return {
+    uid: `group-meal-${groupMeal.id}@munch-club`,
+    start,
+    end: new Date(start.getTime() + MATCHED_MEAL_DURATION_MINUTES * 60 * 1000),
+    summary: `Group meal (${groupMeal.memberIds.length} people)`,
+    description: contactLines.length > 0 ? `Munch Club group meal. Contacts: ${contactLines.join(', ')}` : 'Munch Club group meal.',
+    location: groupMeal.suggestedLocation,
+  };
+};
+
+// --- Parsing ---
+// Enough of RFC 5545 to turn a class or personal calendar export into busy intervals.
+// TZID-qualified and floating times are read as the browser's local time, which matches
+// exports from the same campus timezone the user is in.
+
+export interface ParsedIcsEvent {
+  uid?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  rrule?: IcsRecurrenceRule;
+  exdates: Date[];
+  recurrenceId?: Date;
+}
+
+export interface IcsRecurrenceRule {
+  frequency: 'DAILY' | 'WEEKLY';
+  interval: number;
+  byDay: number[]; // 0 = Sunday, matching Date.getDay()
+  until?: Date;
+  count?: number;
+}
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Guards against runaway expansion of open-ended rules (about 50 years of daily repeats)
+const MAX_RULE_PERIODS = 20000;
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unfoldIcsLines = (text: string): string[] =>
+  text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.length > 0);
+
+const parseIcsProperty = (line: string): IcsProperty | null => {
+  const colonIndex = line.indexOf(':');
+  if (colonIndex === -1) return null;
+  const [name, ...paramParts] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, paramValue] = part.split('=');
+    if (key && paramValue !== undefined) params[key.toUpperCase()] = paramValue.replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1).trim() };
+};
+
+// Accepts 20250105, 20250105T190000 and 20250105T190000Z
+export const parseIcsDate = (value: string): { date: Date; allDay: boolean } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (hours === undefined) {
+    return { date: new Date(Number(year), Number(month) - 1, Number(day)), allDay: true };
+  }
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds || 0)] as const;
+  return {
+    date: utc ? new Date(Date.UTC(...parts)) : new Date(...parts),
+    allDay: false,
+  };
+};
+
+// Only the time-based parts of a DURATION, e.g. PT1H30M or P1D
+const parseIcsDuration = (value: string): number | null => {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, weeks, days, hours, minutes, seconds] = match.map(part => Number(part || 0));
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+};
+
+const parseIcsRecurrenceRule = (value: string): IcsRecurrenceRule | undefined => {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, partValue] = part.split('=');
+    if (key && partValue) parts[key.toUpperCase()] = partValue;
+  });
+  if (parts.FREQ !== 'DAILY' && parts.FREQ !== 'WEEKLY') return undefined;
+
+  return {
+    frequency: parts.FREQ,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    // Ordinal prefixes like "1MO" only apply to monthly rules, so drop them
+    byDay: (parts.BYDAY || '')
+      .split(',')
+      .map(day => ICS_WEEKDAYS.indexOf(day.replace(/^[+-]?\d+/, '')))
+      .filter(day => day >= 0),
+    until: parts.UNTIL ? parseIcsDate(parts.UNTIL)?.date : undefined,
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+  };
+};
+
+const buildParsedEvent = (properties: IcsProperty[]): ParsedIcsEvent | null => {
+  const find = (name: string) => properties.find(property => property.name === name);
+
+  if (find('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+  if (find('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') return null;
+
+  const startProperty = find('DTSTART');
+  const start = startProperty ? parseIcsDate(startProperty.value) : null;
+  if (!start) return null;
+
+  const endProperty = find('DTEND');
+  const durationProperty = find('DURATION');
+  let end = endProperty ? parseIcsDate(endProperty.value)?.date : undefined;
+  if (!end && durationProperty) {
+    const duration = parseIcsDuration(durationProperty.value);
+    if (duration !== null) end = new Date(start.date.getTime() + duration);
+  }
+  if (!end) {
+    // RFC 5545: all-day events without an end last one day, timed events are instantaneous
+    end = start.allDay ? new Date(start.date.getTime() + DAY_MS) : start.date;
+  }
+
+  const exdates = properties
+    .filter(property => property.name === 'EXDATE')
+    .flatMap(property => property.value.split(','))
+    .map(value => parseIcsDate(value)?.date)
+    .filter((date): date is Date => date !== undefined);
+
+  const rruleProperty = find('RRULE');
+  const recurrenceIdProperty = find('RECURRENCE-ID');
+
+  return {
+    uid: find('UID')?.value,
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    rrule: rruleProperty ? parseIcsRecurrenceRule(rruleProperty.value) : undefined,
+    exdates,
+    recurrenceId: recurrenceIdProperty ? parseIcsDate(recurrenceIdProperty.value)?.date : undefined,
+  };
+};
+
+// Parse every busy VEVENT. Cancelled and transparent ("show as free") events are skipped.
+export const parseIcsEvents = (text: string): ParsedIcsEvent[] => {
+  const events: ParsedIcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let nestedDepth = 0; // VALARM and friends live inside VEVENT
+
+  unfoldIcsLines(text).forEach(line => {
+    const property = parseIcsProperty(line);
+    if (!property) return;
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT' && current === null) {
+        current = [];
+      } else if (current !== null) {
+        nestedDepth++;
+      }
+      return;
+    }
+    if (property.name === 'END') {
+      if (current !== null && nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current !== null && property.value.toUpperCase() === 'VEVENT') {
+        const event = buildParsedEvent(current);
+        if (event) events.push(event);
+        current = null;
+      }
+      return;
+    }
+    if (current !== null && nestedDepth === 0) {
+      current.push(property);
+    }
+  });
+
+  return events;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  // setDate keeps the wall-clock time across daylight saving changes
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Occurrence start times of a recurring event, in order, up to rangeEnd
+const expandIcsRule = (event: ParsedIcsEvent, rule: IcsRecurrenceRule, rangeEnd: Date): Date[] => {
+  const starts: Date[] = [];
+  const stepDays = rule.frequency === 'DAILY' ? rule.interval : 7 * rule.interval;
+  const weekdays = rule.frequency === 'WEEKLY' && rule.byDay.length > 0 ? rule.byDay : [event.start.getDay()];
+  // Weekly rules step from the start of DTSTART's week (Monday, the RFC default)
+  const periodStart = rule.frequency === 'WEEKLY'
+    ? addDays(event.start, -((event.start.getDay() + 6) % 7))
+    : event.start;
+  const sortedWeekdays = [...weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+
+  for (let period = 0; period < MAX_RULE_PERIODS; period++) {
+    const base = addDays(periodStart, period * stepDays);
+    if (base > rangeEnd) break;
+
+    const candidates = rule.frequency === 'DAILY'
+      ? [base]
+      : sortedWeekdays.map(weekday => addDays(base, (weekday + 6) % 7));
+
+    for (const candidate of candidates) {
+      if (candidate < event.start) continue;
+      if (rule.until && candidate > rule.until) return starts;
+      if (rule.count !== undefined && starts.length >= rule.count) return starts;
+      starts.push(candidate);
+    }
+  }
+
+  return starts;
+};
+
+// Expand parsed events into concrete busy intervals overlapping [rangeStart, rangeEnd)
+export const getIcsBusyIntervals = (events: ParsedIcsEvent[], rangeStart: Date, rangeEnd: Date): BusyInterval[] => {
+  // Modified instances (RECURRENCE-ID) replace the occurrence they point at
+  const overriddenStarts = new Map<string, number[]>();
+  events.forEach(event => {
+    if (event.uid && event.recurrenceId) {
+      overriddenStarts.set(event.uid, [...(overriddenStarts.get(event.uid) || []), event.recurrenceId.getTime()]);
+    }
+  });
+
+  const intervals: BusyInterval[] = [];
+  events.forEach(event => {
+    const duration = event.end.getTime() - event.start.getTime();
+    const starts = event.rrule && !event.recurrenceId
+      ? expandIcsRule(event, event.rrule, rangeEnd)
+      : [event.start];
+    const skipped = new Set([
+      ...event.exdates.map(date => date.getTime()),
+      ...(event.recurrenceId ? [] : overriddenStarts.get(event.uid || '') || []),
+    ]);
+
+    starts.forEach(start => {
+      if (skipped.has(start.getTime())) return;
+      const end = new Date(start.getTime() + duration);
+      if (start < rangeEnd && end > rangeStart) {
+        intervals.push({ start, end });
+      }
+    });
+  });
+
+  return intervals;
+};
@@ -0,0 +1,33 @@
+// Shared location data for events and meal matching
+
+// Dining halls offered in the preference survey (favoriteDiningHalls)
+export const DINING_HALLS = [
+  'Arrillaga Family Dining Commons',
+  'Stern Dining',
+  'Wilbur Dining',
+  'Lakeside Dining',
+  'Florence Moore (FloMo)',
+  'Gerhard Casper Dining Commons',
+  'Ricker Dining',
+  'Branner Dining'
+];
+
+// Fallback meal spots used when the `locations` collection is empty
+export const DEFAULT_MEAL_LOCATIONS = [
+  "Tresidder Union",
+  "Coho Cafe",
+  "Arbuckle Dining",
+  "Bytes Cafe",
+  "The Axe & Palm"
+];
+
+// Where an event happens: a dining hall, a spot from the `locations` collection, or free text
+export interface EventLocation {
+  type: 'dining_hall' | 'venue' | 'custom';
+  name: string;
+}
+
+export const formatEventLocation = (location: EventLocation | undefined): string => {
+  if (!location) return 'Location TBD';
+  return location.type === 'custom' ? `${location.name} (off campus)` : location.name;
+};
@@ -0,0 +1,418 @@
+// Maximum-weight matching in a general graph using Edmonds' blossom algorithm with dual variables,
+// ported from Joris van Rantwijk's public-domain reference implementation (mwmatching.py).
+// O(n^3) in the number of vertices, which is plenty for one campus worth of users.
+
+// [vertex, vertex, weight]. Vertices are 0-based indexes; integer weights keep the duals exact.
+export type WeightedEdge = [number, number, number];
+
+// Python-style indexing: negative indexes count back from the end
+const at = <T>(list: T[], index: number): T => list[index < 0 ? index + list.length : index];
+
+// Returns `mate`, where mate[v] is the vertex matched with v, or -1 when v is unmatched.
+// Not every vertex is necessarily matched: only the total weight is maximized.
+export const maxWeightMatching = (vertexCount: number, edges: WeightedEdge[]): number[] => {
+  const nvertex = vertexCount;
+  const nedge = edges.length;
+  if (nvertex === 0 || nedge === 0) return new Array(nvertex).fill(-1);
+
+  const maxWeight = edges.reduce((max, [, , weight]) => Math.max(max, weight), 0);
+  // endpoint[p] is the vertex at endpoint p; edge k has endpoints 2k and 2k + 1
+  const endpoint: number[] = [];
+  edges.forEach(([i, j]) => endpoint.push(i, j));
+  // neighbend[v] lists the remote endpoints of the edges touching v
+  const neighbend: number[][] = Array.from({ length: nvertex }, () => []);
+  edges.forEach(([i, j], k) => {
+    neighbend[i].push(2 * k + 1);
+    neighbend[j].push(2 * k);
+  });
+
+  // mate[v] is the remote endpoint of v's matched edge while the algorithm runs
+  const mate: number[] = new Array(nvertex).fill(-1);
+  // Labels for top-level blossoms and vertices: 0 free, 1 S (outer), 2 T (inner), 5 marked during scans
+  const label: number[] = new Array(2 * nvertex).fill(0);
+  const labelend: number[] = new Array(2 * nvertex).fill(-1);
+  const inblossom: number[] = Array.from({ length: nvertex }, (_, v) => v);
+  const blossomparent: number[] = new Array(2 * nvertex).fill(-1);
+  const blossomchilds: (number[] | null)[] = new Array(2 * nvertex).fill(null);
+  const blossombase: number[] = [...Array.from({ length: nvertex }, (_, v) => v), ...new Array(nvertex).fill(-1)];
+  const blossomendps: (number[] | null)[] = new Array(2 * nvertex).fill(null);
+  const bestedge: number[] = new Array(2 * nvertex).fill(-1);
+  const blossombestedges: (number[] | null)[] = new Array(2 * nvertex).fill(null);
+  const unusedblossoms: number[] = Array.from({ length: nvertex }, (_, i) => nvertex + i);
+  const dualvar: number[] = [...new Array(nvertex).fill(maxWeight), ...new Array(nvertex).fill(0)];
+  const allowedge: boolean[] = new Array(nedge).fill(false);
+  let queue: number[] = [];
+
+  const slack = (k: number): number => {
+    const [i, j, weight] = edges[k];
+    return dualvar[i] + dualvar[j] - 2 * weight;
+  };
+
+  const blossomLeaves = (b: number): number[] => {
+    if (b < nvertex) return [b];
+    const leaves: number[] = [];
+    (blossomchilds[b] as number[]).forEach(t => leaves.push(...blossomLeaves(t)));
+    return leaves;
+  };
+
+  // Label the top-level blossom containing w with t, reached through endpoint p
+  const assignLabel = (w: number, t: number, p: number): void => {
+    const b = inblossom[w];
+    label[w] = label[b] = t;
+    labelend[w] = labelend[b] = p;
+    bestedge[w] = bestedge[b] = -1;
+    if (t === 1) {
+      queue.push(...blossomLeaves(b));
+    } else if (t === 2) {
+      const base = blossombase[b];
+      assignLabel(endpoint[mate[base]], 1, mate[base] ^ 1);
+    }
+  };
+
+  // Trace back from v and w to find a new blossom's base, or -1 when they lead to an augmenting path
+  const scanBlossom = (vStart: number, wStart: number): number => {
+    const path: number[] = [];
+    let base = -1;
+    let v = vStart;
+    let w = wStart;
+    while (v !== -1 || w !== -1) {
+      let b = inblossom[v];
+      if (label[b] & 4) {
+        base = blossombase[b];
+        break;
+      }
+      path.push(b);
+      label[b] = 5;
+      if (labelend[b] === -1) {
+        v = -1;
+      } else {
+        v = endpoint[labelend[b]];
+        b = inblossom[v];
+        v = endpoint[labelend[b]];
+      }
+      if (w !== -1) {
+        [v, w] = [w, v];
+      }
+    }
+    path.forEach(b => {
+      label[b] = 1;
+    });
+    return base;
+  };
+
+  // Make a new blossom from the S-blossoms joined by edge k, with the given base
+  const addBlossom = (base: number, k: number): void => {
+    let [v, w] = edges[k];
+    const bb = inblossom[base];
+    let bv = inblossom[v];
+    let bw = inblossom[w];
+    const b = unusedblossoms.pop() as number;
+    blossombase[b] = base;
+    blossomparent[b] = -1;
+    blossomparent[bb] = b;
+    const path: number[] = [];
+    const endps: number[] = [];
+    while (bv !== bb) {
+      blossomparent[bv] = b;
+      path.push(bv);
+      endps.push(labelend[bv]);
+      v = endpoint[labelend[bv]];
+      bv = inblossom[v];
+    }
+    path.push(bb);
+    path.reverse();
+    endps.reverse();
+    endps.push(2 * k);
+    while (bw !== bb) {
+      blossomparent[bw] = b;
+      path.push(bw);
+      endps.push(labelend[bw] ^ 1);
+      w = endpoint[labelend[bw]];
+      bw = inblossom[w];
+    }
+    blossomchilds[b] = path;
+    blossomendps[b] = endps;
+    label[b] = 1;
+    labelend[b] = labelend[bb];
+    dualvar[b] = 0;
+    blossomLeaves(b).forEach(leaf => {
+      if (label[inblossom[leaf]] === 2) queue.push(leaf);
+      inblossom[leaf] = b;
+    });
+
+    // Cheapest edge from the new blossom to each neighbouring S-blossom
+    const bestedgeto: number[] = new Array(2 * nvertex).fill(-1);
+    path.forEach(child => {
+      const nblists = blossombestedges[child] === null
+        ? blossomLeaves(child).map(leaf => neighbend[leaf].map(p => Math.floor(p / 2)))
+        : [blossombestedges[child] as number[]];
+      nblists.forEach(nblist => {
+        nblist.forEach(edge => {
+          let [i, j] = edges[edge];
+          if (inblossom[j] === b) [i, j] = [j, i];
+          const bj = inblossom[j];
+          if (bj !== b && label[bj] === 1 && (bestedgeto[bj] === -1 || slack(edge) < slack(bestedgeto[bj]))) {
+            bestedgeto[bj] = edge;
+          }
+        });
+      });
+      blossombestedges[child] = null;
+      bestedge[child] = -1;
+    });
+    blossombestedges[b] = bestedgeto.filter(edge => edge !== -1);
+    bestedge[b] = -1;
+    (blossombestedges[b] as number[]).forEach(edge => {
+      if (bestedge[b] === -1 || slack(edge) < slack(bestedge[b])) bestedge[b] = edge;
+    });
+  };
+
+  // Dissolve blossom b back into its children
+  const expandBlossom = (b: number, endstage: boolean): void => {
+    const childs = blossomchilds[b] as number[];
+    const endps = blossomendps[b] as number[];
+    childs.forEach(s => {
+      blossomparent[s] = -1;
+      if (s < nvertex) {
+        inblossom[s] = s;
+      } else if (endstage && dualvar[s] === 0) {
+        expandBlossom(s, endstage);
+      } else {
+        blossomLeaves(s).forEach(leaf => {
+          inblossom[leaf] = s;
+        });
+      }
+    });
+
+    // A T-blossom expanded mid-stage: relabel its children so the alternating tree stays intact
+    if (!endstage && label[b] === 2) {
+      const entrychild = inblossom[endpoint[labelend[b] ^ 1]];
+      let j = childs.indexOf(entrychild);
+      let jstep: number;
+      let endptrick: number;
+      if (j & 1) {
+        j -= childs.length;
+        jstep = 1;
+        endptrick = 0;
+      } else {
+        jstep = -1;
+        endptrick = 1;
+      }
+      let p = labelend[b];
+      while (j !== 0) {
+        label[endpoint[p ^ 1]] = 0;
+        label[endpoint[at(endps, j - endptrick) ^ endptrick ^ 1]] = 0;
+        assignLabel(endpoint[p ^ 1], 2, p);
+        allowedge[Math.floor(at(endps, j - endptrick) / 2)] = true;
+        j += jstep;
+        p = at(endps, j - endptrick) ^ endptrick;
+        allowedge[Math.floor(p / 2)] = true;
+        j += jstep;
+      }
+      let bv = at(childs, j);
+      label[endpoint[p ^ 1]] = label[bv] = 2;
+      labelend[endpoint[p ^ 1]] = labelend[bv] = p;
+      bestedge[bv] = -1;
+      j += jstep;
+      while (at(childs, j) !== entrychild) {
+        bv = at(childs, j);
+        if (label[bv] === 1) {
+          j += jstep;
+          continue;
+        }
+        const labelled = blossomLeaves(bv).find(leaf => label[leaf] !== 0);
+        if (labelled !== undefined) {
+          label[labelled] = 0;
+          label[endpoint[mate[blossombase[bv]]]] = 0;
+          assignLabel(labelled, 2, labelend[labelled]);
+        }
+        j += jstep;
+      }
+    }
+
+    label[b] = labelend[b] = -1;
+    blossomchilds[b] = blossomendps[b] = null;
+    blossombase[b] = -1;
+    blossombestedges[b] = null;
+    bestedge[b] = -1;
+    unusedblossoms.push(b);
+  };
+
+  // Swap matched and unmatched edges along the path through blossom b from vertex v to its base
+  const augmentBlossom = (b: number, v: number): void => {
+    let t = v;
+    while (blossomparent[t] !== b) t = blossomparent[t];
+    if (t >= nvertex) augmentBlossom(t, v);
+    const childs = blossomchilds[b] as number[];
+    const endps = blossomendps[b] as number[];
+    const i = childs.indexOf(t);
+    let j = i;
+    let jstep: number;
+    let endptrick: number;
+    if (i & 1) {
+      j -= childs.length;
+      jstep = 1;
+      endptrick = 0;
+    } else {
+      jstep = -1;
+      endptrick = 1;
+    }
+    while (j !== 0) {
+      j += jstep;
+      t = at(childs, j);
+      const p = at(endps, j - endptrick) ^ endptrick;
+      if (t >= nvertex) augmentBlossom(t, endpoint[p]);
+      j += jstep;
+      t = at(childs, j);
+      if (t >= nvertex) augmentBlossom(t, endpoint[p ^ 1]);
+      mate[endpoint[p]] = p ^ 1;
+      mate[endpoint[p ^ 1]] = p;
+    }
+    // Rotate so the new base comes first
+    blossomchilds[b] = [...childs.slice(i), ...childs.slice(0, i)];
+    blossomendps[b] = [...endps.slice(i), ...endps.slice(0, i)];
+    blossombase[b] = blossombase[(blossomchilds[b] as number[])[0]];
+  };
+
+  // Flip the augmenting path through edge k, growing the matching by one edge
+  const augmentMatching = (k: number): void => {
+    const [v, w] = edges[k];
+    ([[v, 2 * k + 1], [w, 2 * k]] as [number, number][]).forEach(([start, startEndpoint]) => {
+      let s = start;
+      let p = startEndpoint;
+      for (;;) {
+        const bs = inblossom[s];
+        if (bs >= nvertex) augmentBlossom(bs, s);
+        mate[s] = p;
+        if (labelend[bs] === -1) break;
+        const t = endpoint[labelend[bs]];
+        const bt = inblossom[t];
+        s = endpoint[labelend[bt]];
+        const j = endpoint[labelend[bt] ^ 1];
+        if (bt >= nvertex) augmentBlossom(bt, j);
+        mate[j] = labelend[bt];
+        p = labelend[bt] ^ 1;
+      }
+    });
+  };
+
+  // Each stage either augments the matching or proves it's already maximum
+  for (let stage = 0; stage < nvertex; stage++) {
+    label.fill(0);
+    bestedge.fill(-1);
+    for (let b = nvertex; b < 2 * nvertex; b++) blossombestedges[b] = null;
+    allowedge.fill(false);
+    queue = [];
+
+    for (let v = 0; v < nvertex; v++) {
+      if (mate[v] === -1 && label[inblossom[v]] === 0) assignLabel(v, 1, -1);
+    }
+
+    let augmented = false;
+    for (;;) {
+      while (queue.length > 0 && !augmented) {
+        const v = queue.pop() as number;
+        for (const p of neighbend[v]) {
+          const k = Math.floor(p / 2);
+          const w = endpoint[p];
+          if (inblossom[v] === inblossom[w]) continue;
+          let kslack = 0;
+          if (!allowedge[k]) {
+            kslack = slack(k);
+            if (kslack <= 0) allowedge[k] = true;
+          }
+          if (allowedge[k]) {
+            if (label[inblossom[w]] === 0) {
+              assignLabel(w, 2, p ^ 1);
+            } else if (label[inblossom[w]] === 1) {
+              const base = scanBlossom(v, w);
+              if (base >= 0) {
+                addBlossom(base, k);
+              } else {
+                augmentMatching(k);
+                augmented = true;
+                break;
+              }
+            } else if (label[w] === 0) {
+              label[w] = 2;
+              labelend[w] = p ^ 1;
+            }
+          } else if (label[inblossom[w]] === 1) {
+            const b = inblossom[v];
+            if (bestedge[b] === -1 || kslack < slack(bestedge[b])) bestedge[b] = k;
+          } else if (label[w] === 0) {
+            if (bestedge[w] === -1 || kslack < slack(bestedge[w])) bestedge[w] = k;
+          }
+        }
+      }
+      if (augmented) break;
+
+      // No augmenting path with the current duals: find the smallest dual change that opens one up
+      let deltatype = 1;
+      let delta = dualvar.slice(0, nvertex).reduce((min, dual) => Math.min(min, dual), Infinity);
+      let deltaedge = -1;
+      let deltablossom = -1;
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]] === 0 && bestedge[v] !== -1) {
+          const d = slack(bestedge[v]);
+          if (d < delta) {
+            delta = d;
+            deltatype = 2;
+            deltaedge = bestedge[v];
+          }
+        }
+      }
+      for (let b = 0; b < 2 * nvertex; b++) {
+        if (blossomparent[b] === -1 && label[b] === 1 && bestedge[b] !== -1) {
+          const d = slack(bestedge[b]) / 2;
+          if (d < delta) {
+            delta = d;
+            deltatype = 3;
+            deltaedge = bestedge[b];
+          }
+        }
+      }
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (blossombase[b] >= 0 && blossomparent[b] === -1 && label[b] === 2 && dualvar[b] < delta) {
+          delta = dualvar[b];
+          deltatype = 4;
+          deltablossom = b;
+        }
+      }
+
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]] === 1) dualvar[v] -= delta;
+        else if (label[inblossom[v]] === 2) dualvar[v] += delta;
+      }
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (blossombase[b] >= 0 && blossomparent[b] === -1) {
+          if (label[b] === 1) dualvar[b] += delta;
+          else if (label[b] === 2) dualvar[b] -= delta;
+        }
+      }
+
+      if (deltatype === 1) {
+        break; // Optimum reached
+      } else if (deltatype === 2) {
+        allowedge[deltaedge] = true;
+        let [i, j] = edges[deltaedge];
+        if (label[inblossom[i]] === 0) [i, j] = [j, i];
+        queue.push(i);
+      } else if (deltatype === 3) {
+        allowedge[deltaedge] = true;
+        queue.push(edges[deltaedge][0]);
+      } else {
+        expandBlossom(deltablossom, false);
+      }
+    }
+    if (!augmented) break;
+
+    // End of stage: expand S-blossoms whose dual dropped to zero
+    for (let b = nvertex; b < 2 * nvertex; b++) {
+      if (blossomparent[b] === -1 && blossombase[b] >= 0 && label[b] === 1 && dualvar[b] === 0) {
+        expandBlossom(b, true);
+      }
+    }
+  }
+
+  return mate.map(p => (p >= 0 ? endpoint[p] : -1));
+};
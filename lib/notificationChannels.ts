@@ -0,0 +1,31 @@
+// Delivery channels for notifications beyond the in-app list
+import type { Notification } from './api';
+
+export interface NotificationChannel {
+  name: string;
+  deliver: (notification: Notification) => Promise<void>;
+}
+
+// POSTs each notification as JSON, e.g. to a push or SMS relay
+export const createWebhookChannel = (url: string, fetchImpl: typeof fetch = fetch): NotificationChannel => ({
+  name: 'webhook',
+  deliver: async (notification) => {
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        userId: notification.userId,
+        type: notification.type,
+        content: notification.content,
+        relatedEventId: notification.relatedEventId ?? null,
+        relatedMatchId: notification.relatedMatchId ?? null,
+      }),
+    });
+    if (!response.ok) throw new Error(`Webhook responded with ${response.status}`);
+  },
+});
+
+// Channels enabled through environment variables. Notifications are always stored in Firestore
+// for the in-app list, so this may be empty.
+export const getConfiguredChannels = (env: Record<string, string | undefined> = process.env): NotificationChannel[] =>
+  env.NOTIFICATION_WEBHOOK_URL ? [createWebhookChannel(env.NOTIFICATION_WEBHOOK_URL)] : [];
@@ -0,0 +1,32 @@
+// Seedable randomness for the matcher, so any run can be replayed exactly from its seed
+
+// Returns numbers in [0, 1), like Math.random
+export type Random = () => number;
+
+// mulberry32: tiny, fast and good enough for shuffling and picking
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A fresh 32-bit seed for a new run
+export const createSeed = (): number => crypto.getRandomValues(new Uint32Array(1))[0];
+
+// Fisher–Yates, so every order is equally likely (unlike sorting with a random comparator)
+export const shuffle = <T>(items: T[], random: Random): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+export const pickOne = <T>(items: T[], random: Random): T | undefined =>
+  items.length > 0 ? items[Math.floor(random() * items.length)] : undefined;
@@ -0,0 +1,97 @@
+// Ranking upcoming events for the "For you" feed
+import type { EventData, UserProfile } from './api';
+import { isEventHost } from './hosts';
+import { DEFAULT_SCORING_CONFIG, calculateBaselineScore } from './scoring';
+
+// Points each signal can add to an event's score
+const AVAILABILITY_POINTS = 3;
+const POINTS_PER_FRIEND = 1.5;
+const MAX_COUNTED_FRIENDS = 3;
+const SIMILARITY_POINTS = 2;
+const OPEN_CAPACITY_POINTS = 1;
+const FAVORITE_LOCATION_POINTS = 1.5;
+
+// Similarity uses the default scoring, whose scores are clamped to 3-7, so it's measured within that range
+const MIN_BASELINE_SCORE = DEFAULT_SCORING_CONFIG.minScore;
+const MAX_BASELINE_SCORE = DEFAULT_SCORING_CONFIG.maxScore;
+const SIMILAR_PARTICIPANTS_THRESHOLD = 0.5;
+
+export interface RecommendationContext {
+  viewer: UserProfile;
+  participantProfiles: Record<string, UserProfile>; // Keyed by UID; participants without a profile are skipped
+  isAvailable: (event: EventData) => boolean;
+}
+
+export interface EventRecommendation {
+  event: EventData;
+  score: number;
+  reasons: string[]; // Strongest first, for the explanation line on the card
+}
+
+// Average survey similarity (0-1) between the viewer and the event's participants, or null without data
+const getParticipantSimilarity = (event: EventData, context: RecommendationContext): number | null => {
+  const profiles = event.participants
+    .filter(uid => uid !== context.viewer.uid)
+    .map(uid => context.participantProfiles[uid])
+    .filter((profile): profile is UserProfile => !!profile?.surveyData);
+  if (profiles.length === 0 || !context.viewer.surveyData) return null;
+  const total = profiles.reduce((sum, profile) => sum + calculateBaselineScore(context.viewer, profile), 0);
+  return (total / profiles.length - MIN_BASELINE_SCORE) / (MAX_BASELINE_SCORE - MIN_BASELINE_SCORE);
+};
+
+export const scoreEvent = (event: EventData, context: RecommendationContext): EventRecommendation => {
+  const signals: { points: number; reason: string }[] = [];
+
+  if (context.isAvailable(event)) {
+    signals.push({ points: AVAILABILITY_POINTS, reason: "You're free then" });
+  }
+
+  const friendsGoing = event.participants.filter(uid => (context.viewer.friends || []).includes(uid)).length;
+  if (friendsGoing > 0) {
+    signals.push({
+      points: Math.min(friendsGoing, MAX_COUNTED_FRIENDS) * POINTS_PER_FRIEND,
+      reason: `${friendsGoing} friend${friendsGoing === 1 ? '' : 's'} going`,
+    });
+  }
+
+  const similarity = getParticipantSimilarity(event, context);
+  if (similarity !== null) {
+    signals.push({
+      points: similarity * SIMILARITY_POINTS,
+      reason: similarity >= SIMILAR_PARTICIPANTS_THRESHOLD ? 'People like you are going' : '',
+    });
+  }
+
+  const openSpots = Math.max(0, event.capacity - event.participants.length);
+  if (openSpots > 0) {
+    signals.push({
+      points: (openSpots / event.capacity) * OPEN_CAPACITY_POINTS,
+      reason: `${openSpots} spot${openSpots === 1 ? '' : 's'} left`,
+    });
+  }
+
+  const favoriteHalls = context.viewer.surveyData?.favoriteDiningHalls || [];
+  if (event.location && favoriteHalls.includes(event.location.name)) {
+    signals.push({ points: FAVORITE_LOCATION_POINTS, reason: 'At a dining hall you like' });
+  }
+
+  return {
+    event,
+    score: signals.reduce((sum, signal) => sum + signal.points, 0),
+    reasons: [...signals]
+      .sort((a, b) => b.points - a.points)
+      .map(signal => signal.reason)
+      .filter(Boolean),
+  };
+};
+
+const isViewerInvolved = (event: EventData, viewerId: string): boolean =>
+  isEventHost(event, viewerId) || event.participants.includes(viewerId) || event.waitlist.includes(viewerId);
+
+// Best matches first; ties go to the sooner event. Events the viewer hosts, is going to or is
+// waitlisted for are left out.
+export const rankEventRecommendations = (events: EventData[], context: RecommendationContext): EventRecommendation[] =>
+  events
+    .filter(event => !isViewerInvolved(event, context.viewer.uid))
+    .map(event => scoreEvent(event, context))
+    .sort((a, b) => b.score - a.score || a.event.start.toMillis() - b.event.start.toMillis());
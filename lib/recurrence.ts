@@ -0,0 +1,102 @@
+// Recurrence rules for event series and helpers to expand them into occurrences
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'custom';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  daysOfWeek?: number[]; // 0 (Sunday) - 6 (Saturday); only used for 'custom'
+  until?: Date; // Last day (inclusive) an occurrence may start on
+  count?: number; // Total number of occurrences, including the first
+}
+
+export interface Occurrence {
+  start: Date;
+  end: Date;
+}
+
+// Hard cap so a typo in the end date can't create hundreds of events
+export const MAX_OCCURRENCES = 52;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Expansion never looks further ahead than this, whatever the rule says
+const MAX_SCANNED_DAYS = MAX_OCCURRENCES * 14;
+
+// Whole calendar days between two dates, ignoring time of day and DST shifts
+const daysBetween = (from: Date, to: Date): number => {
+  const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((toUtc - fromUtc) / MS_PER_DAY);
+};
+
+// Validate a rule against the first occurrence's start; returns an error message or null
+export const validateRecurrenceRule = (rule: RecurrenceRule, start: Date): string | null => {
+  if (rule.frequency === 'custom' && (!rule.daysOfWeek || rule.daysOfWeek.length === 0)) {
+    return 'Pick at least one day for the event to repeat on.';
+  }
+  if (!rule.until && !rule.count) {
+    return 'Choose an end date or a number of occurrences.';
+  }
+  if (rule.until && daysBetween(start, rule.until) < 0) {
+    return 'The series must end on or after the first event.';
+  }
+  if (rule.count !== undefined && (rule.count < 1 || rule.count > MAX_OCCURRENCES)) {
+    return `Number of occurrences must be between 1 and ${MAX_OCCURRENCES}.`;
+  }
+  return null;
+};
+
+// Expand a rule into concrete occurrences. The first occurrence is always the
+// given start/end; later ones keep the same time of day and duration.
+export const expandRecurrence = (start: Date, end: Date, rule: RecurrenceRule): Occurrence[] => {
+  const durationMs = end.getTime() - start.getTime();
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const customDays = new Set(rule.daysOfWeek || []);
+  // Weeks are counted from the Sunday on or before the first occurrence
+  const firstWeekStart = new Date(start.getFullYear(), start.getMonth(), start.getDate() - start.getDay());
+
+  const occurrences: Occurrence[] = [];
+  // Days are bounded too, so a rule that stops matching (e.g. no custom days) can't loop forever
+  for (let offset = 0; occurrences.length < limit && offset <= MAX_SCANNED_DAYS; offset++) {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+    if (rule.until && daysBetween(day, rule.until) < 0) break;
+
+    const weekIndex = Math.floor(daysBetween(firstWeekStart, day) / 7);
+    let matches: boolean;
+    switch (rule.frequency) {
+      case 'weekly':
+        matches = day.getDay() === start.getDay();
+        break;
+      case 'biweekly':
+        matches = day.getDay() === start.getDay() && weekIndex % 2 === 0;
+        break;
+      case 'custom':
+        matches = offset === 0 || customDays.has(day.getDay());
+        break;
+      default:
+        matches = false;
+    }
+    if (!matches) continue;
+
+    const occurrenceStart = new Date(day.getFullYear(), day.getMonth(), day.getDate(), start.getHours(), start.getMinutes());
+    occurrences.push({
+      start: occurrenceStart,
+      end: new Date(occurrenceStart.getTime() + durationMs),
+    });
+  }
+  return occurrences;
+};
+
+// Short human-readable summary, e.g. "Every 2 weeks, 6 times"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  let base: string;
+  if (rule.frequency === 'weekly') base = 'Every week';
+  else if (rule.frequency === 'biweekly') base = 'Every 2 weeks';
+  else base = `Every ${(rule.daysOfWeek || []).slice().sort().map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+
+  if (rule.count) return `${base}, ${rule.count} times`;
+  if (rule.until) return `${base} until ${rule.until.toLocaleDateString()}`;
+  return base;
+};
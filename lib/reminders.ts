@@ -0,0 +1,92 @@
+// Working out which event and meal reminders are due
+
+// Injected so the scheduler can be run against any point in time
+export type Clock = () => Date;
+export const systemClock: Clock = () => new Date();
+
+// Remind people a day ahead and again an hour before
+export const DEFAULT_REMINDER_OFFSETS_MINUTES = [24 * 60, 60];
+
+// Offsets from a comma-separated list of minutes, e.g. REMINDER_OFFSETS_MINUTES="1440,60"
+export const parseReminderOffsets = (value: string | undefined): number[] => {
+  const offsets = (value ?? '')
+    .split(',')
+    .map(part => Number(part.trim()))
+    .filter(offset => Number.isInteger(offset) && offset > 0);
+  const unique = Array.from(new Set(offsets.length > 0 ? offsets : DEFAULT_REMINDER_OFFSETS_MINUTES));
+  return unique.sort((a, b) => b - a);
+};
+
+export type ReminderKind = 'event' | 'match';
+
+// Something people should be reminded about
+export interface ReminderTarget {
+  kind: ReminderKind;
+  id: string;
+  userIds: string[];
+  startsAt: Date;
+  title: string; // e.g. the event name or "your meal with Alex"
+  location?: string;
+}
+
+export interface PlannedReminder {
+  key: string; // Stable per target, user and offset so each reminder is only sent once
+  kind: ReminderKind;
+  targetId: string;
+  userId: string;
+  content: string;
+  coveredKeys: string[]; // Earlier offsets this reminder makes redundant, recorded as sent too
+}
+
+export const getReminderKey = (kind: ReminderKind, targetId: string, userId: string, offsetMinutes: number): string =>
+  `${kind}_${targetId}_${userId}_${offsetMinutes}`;
+
+export const formatTimeUntil = (milliseconds: number): string => {
+  const minutes = Math.max(1, Math.round(milliseconds / 60000));
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+const describeReminder = (target: ReminderTarget, now: Date): string => {
+  const timeUntil = formatTimeUntil(target.startsAt.getTime() - now.getTime());
+  const where = target.location ? ` at ${target.location}` : '';
+  return target.kind === 'event'
+    ? `Reminder: ${target.title} starts in ${timeUntil}${where}.`
+    : `Reminder: ${target.title} is in ${timeUntil}${where}.`;
+};
+
+// Reminders whose time has come and that haven't been sent yet. When a run is late enough that
+// several offsets are due at once (say the user joined an hour before the start), only the
+// closest one is sent and the rest are marked as covered.
+export const planReminders = (
+  targets: ReminderTarget[],
+  offsetsMinutes: number[],
+  now: Date,
+  sentKeys: Set<string>
+): PlannedReminder[] => {
+  const planned: PlannedReminder[] = [];
+  targets
+    .filter(target => target.startsAt.getTime() > now.getTime())
+    .forEach(target => {
+      const dueOffsets = offsetsMinutes
+        .filter(offset => target.startsAt.getTime() - offset * 60000 <= now.getTime())
+        .sort((a, b) => a - b);
+      if (dueOffsets.length === 0) return;
+
+      target.userIds.forEach(userId => {
+        const keys = dueOffsets.map(offset => getReminderKey(target.kind, target.id, userId, offset));
+        const [key, ...coveredKeys] = keys;
+        if (sentKeys.has(key)) return; // The closest reminder already went out
+        planned.push({
+          key,
+          kind: target.kind,
+          targetId: target.id,
+          userId,
+          content: describeReminder(target, now),
+          coveredKeys: coveredKeys.filter(coveredKey => !sentKeys.has(coveredKey)),
+        });
+      });
+    });
+  return planned;
+};
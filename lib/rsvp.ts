@@ -0,0 +1,95 @@
+// Per-user RSVP records on events and the transitions between them
+import type { Timestamp } from 'firebase/firestore';
+
+export type RsvpStatus = 'going' | 'maybe' | 'not_going';
+
+export interface EventRsvp {
+  status: RsvpStatus;
+  updatedAt: Timestamp;
+  note?: string; // e.g. "running 10 min late"
+}
+
+// Keyed by user UID
+export type EventRsvps = Record<string, EventRsvp>;
+
+// "waitlisted" when the user asked to go but every spot was taken
+export type RsvpResult = RsvpStatus | 'waitlisted';
+
+export const RSVP_STATUSES: RsvpStatus[] = ['going', 'maybe', 'not_going'];
+
+export const RSVP_STATUS_LABELS: Record<RsvpStatus, string> = {
+  going: 'Going',
+  maybe: 'Maybe',
+  not_going: "Can't go",
+};
+
+export const MAX_RSVP_NOTE_LENGTH = 140;
+
+// UIDs with the given status, earliest response first
+export const getRsvpUserIds = (rsvps: EventRsvps, status: RsvpStatus): string[] =>
+  Object.entries(rsvps)
+    .filter(([, rsvp]) => rsvp.status === status)
+    .sort(([, a], [, b]) => a.updatedAt.toMillis() - b.updatedAt.toMillis())
+    .map(([uid]) => uid);
+
+// Move people from the front of the waitlist into open "going" spots. Mutates both
+// arguments and returns the promoted user IDs.
+export const promoteWaitlist = (
+  rsvps: EventRsvps,
+  waitlist: string[],
+  capacity: number,
+  now: Timestamp
+): string[] => {
+  const promoted: string[] = [];
+  let goingCount = getRsvpUserIds(rsvps, 'going').length;
+  while (goingCount < capacity && waitlist.length > 0) {
+    const nextUserId = waitlist.shift() as string;
+    rsvps[nextUserId] = { status: 'going', updatedAt: now };
+    promoted.push(nextUserId);
+    goingCount++;
+  }
+  return promoted;
+};
+
+export interface RsvpTransition {
+  rsvps: EventRsvps;
+  waitlist: string[];
+  result: RsvpResult;
+  promoted: string[]; // Waitlisted users who took a spot this change freed up
+}
+
+// Apply one user's RSVP change. Only "going" counts against capacity; asking to go when the
+// event is full joins the waitlist and keeps any earlier maybe/can't-go answer until a spot opens.
+export const applyRsvpChange = (
+  event: { rsvps: EventRsvps; waitlist: string[]; capacity: number },
+  userId: string,
+  status: RsvpStatus,
+  now: Timestamp,
+  note?: string
+): RsvpTransition => {
+  const rsvps = { ...event.rsvps };
+  const current = rsvps[userId];
+  const noteFields = note?.trim() ? { note: note.trim() } : {}; // Firestore rejects undefined fields
+
+  if (status === 'going') {
+    if (current?.status === 'going') {
+      // Keep their place in line; only the note changes
+      rsvps[userId] = { status: 'going', updatedAt: current.updatedAt, ...noteFields };
+      return { rsvps, waitlist: [...event.waitlist], result: 'going', promoted: [] };
+    }
+    if (event.waitlist.includes(userId)) {
+      return { rsvps, waitlist: [...event.waitlist], result: 'waitlisted', promoted: [] };
+    }
+    if (getRsvpUserIds(rsvps, 'going').length < event.capacity) {
+      rsvps[userId] = { status: 'going', updatedAt: now, ...noteFields };
+      return { rsvps, waitlist: [...event.waitlist], result: 'going', promoted: [] };
+    }
+    return { rsvps, waitlist: [...event.waitlist, userId], result: 'waitlisted', promoted: [] };
+  }
+
+  // Maybe or can't go: give up any spot or place in line
+  rsvps[userId] = { status, updatedAt: now, ...noteFields };
+  const waitlist = event.waitlist.filter(uid => uid !== userId);
+  const promoted = promoteWaitlist(rsvps, waitlist, event.capacity, now);
+  return { rsvps, waitlist, result: status, promoted };
+};
@@ -0,0 +1,259 @@
+// How well two users' survey answers line up
+import type { UserProfile, UserSurveyData } from './api';
+import { TIME_SLOT_MINUTES } from './availability';
+import { getPairKey } from './seating';
+
+// The survey questions that count towards a baseline score
+export type ScoringDimension =
+  | 'mealTalkPreferences'
+  | 'conversationStyle'
+  | 'conversationPace'
+  | 'favoriteDiningHalls'
+  | 'foodPersonality';
+
+export type ScoringWeights = Record<ScoringDimension, number>;
+
+// How well two people's answers to one question go together, from 0 to 1, or null when either
+// of them didn't answer it
+export type DimensionScorer = (survey1: UserSurveyData, survey2: UserSurveyData) => number | null;
+
+export interface ScoringStrategy {
+  id: string;
+  description: string;
+  dimensions: Record<ScoringDimension, DimensionScorer>;
+}
+
+// Which strategy to use and how much each question counts. Kept in Firestore (`config/scoring`)
+// so it can be changed without a deploy.
+export interface ScoringConfig {
+  strategy: string; // A key of SCORING_STRATEGIES
+  weights: ScoringWeights;
+  minScore: number; // Baseline scores are clamped to this range, leaving room for later adjustments
+  maxScore: number;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  mealTalkPreferences: 2,
+  conversationStyle: 2,
+  conversationPace: 2,
+  favoriteDiningHalls: 2,
+  foodPersonality: 2,
+};
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  strategy: 'similarity',
+  weights: DEFAULT_SCORING_WEIGHTS,
+  minScore: 3,
+  maxScore: 7,
+};
+
+// Score used when two people can't be compared at all
+const NEUTRAL_SCORE = 5;
+
+const sameAnswer = (answer1: string, answer2: string): number | null =>
+  answer1 && answer2 ? (answer1 === answer2 ? 1 : 0) : null;
+
+// Topics both picked out of all the topics either picked
+const scoreMealTalk: DimensionScorer = (survey1, survey2) => {
+  if (!survey1.mealTalkPreferences || !survey2.mealTalkPreferences) return null;
+  const overlapping = survey1.mealTalkPreferences.filter(pref => survey2.mealTalkPreferences.includes(pref));
+  const total = new Set([...survey1.mealTalkPreferences, ...survey2.mealTalkPreferences]).size;
+  return total > 0 ? overlapping.length / total : 0;
+};
+
+// Two dining halls in common is as good as it gets
+const scoreDiningHalls: DimensionScorer = (survey1, survey2) => {
+  if (!survey1.favoriteDiningHalls || !survey2.favoriteDiningHalls) return null;
+  const overlapping = survey1.favoriteDiningHalls.filter(hall => survey2.favoriteDiningHalls.includes(hall));
+  return Math.min(2, overlapping.length) / 2;
+};
+
+// Who tends to carry a conversation with someone new, by answer to the conversation style question
+const CONVERSATION_ROLES: Record<string, 'talker' | 'listener' | 'flexible'> = {
+  'I dive right in with personal questions': 'talker',
+  'I crack jokes to break the ice': 'talker',
+  'I follow their lead and keep it light': 'flexible',
+  'I mostly listen unless something interests me': 'listener',
+  'I\'m quiet unless I really know the person': 'listener',
+};
+
+// A talker and a listener suit each other best; two talkers compete and two listeners stall.
+// Someone who follows the other's lead gets on with anyone.
+const scoreComplementaryStyles: DimensionScorer = (survey1, survey2) => {
+  if (!survey1.conversationStyle || !survey2.conversationStyle) return null;
+  const role1 = CONVERSATION_ROLES[survey1.conversationStyle];
+  const role2 = CONVERSATION_ROLES[survey2.conversationStyle];
+  if (!role1 || !role2) return sameAnswer(survey1.conversationStyle, survey2.conversationStyle);
+  if (role1 === 'flexible' || role2 === 'flexible') return 0.5;
+  return role1 !== role2 ? 1 : 0;
+};
+
+const similarityStrategy: ScoringStrategy = {
+  id: 'similarity',
+  description: 'People who answered alike score highest',
+  dimensions: {
+    mealTalkPreferences: scoreMealTalk,
+    conversationStyle: (survey1, survey2) => sameAnswer(survey1.conversationStyle, survey2.conversationStyle),
+    conversationPace: (survey1, survey2) => sameAnswer(survey1.conversationPace, survey2.conversationPace),
+    favoriteDiningHalls: scoreDiningHalls,
+    foodPersonality: (survey1, survey2) => sameAnswer(survey1.foodPersonality, survey2.foodPersonality),
+  },
+};
+
+const complementaryStrategy: ScoringStrategy = {
+  id: 'complementary',
+  description: 'Like similarity, but talkers are paired with listeners',
+  dimensions: {
+    ...similarityStrategy.dimensions,
+    conversationStyle: scoreComplementaryStyles,
+  },
+};
+
+export const SCORING_STRATEGIES: Record<string, ScoringStrategy> = {
+  [similarityStrategy.id]: similarityStrategy,
+  [complementaryStrategy.id]: complementaryStrategy,
+};
+
+const isValidWeight = (weight: unknown): weight is number =>
+  typeof weight === 'number' && Number.isFinite(weight) && weight >= 0;
+
+const isValidScore = (score: unknown): score is number =>
+  typeof score === 'number' && Number.isFinite(score) && score >= 0 && score <= 10;
+
+// A usable config from whatever is stored: unknown strategies, bad weights and bad ranges fall
+// back to the defaults one setting at a time, so a typo can't break matching
+export const normalizeScoringConfig = (stored: Partial<Record<keyof ScoringConfig, unknown>> | null | undefined): ScoringConfig => {
+  const storedWeights = (stored?.weights ?? {}) as Partial<Record<ScoringDimension, unknown>>;
+  const weights = { ...DEFAULT_SCORING_WEIGHTS };
+  (Object.keys(weights) as ScoringDimension[]).forEach(dimension => {
+    const weight = storedWeights[dimension];
+    if (isValidWeight(weight)) weights[dimension] = weight;
+  });
+  const hasValidRange = isValidScore(stored?.minScore) && isValidScore(stored?.maxScore) && stored.minScore <= stored.maxScore;
+  return {
+    strategy: typeof stored?.strategy === 'string' && SCORING_STRATEGIES[stored.strategy]
+      ? stored.strategy
+      : DEFAULT_SCORING_CONFIG.strategy,
+    weights,
+    minScore: hasValidRange ? stored.minScore as number : DEFAULT_SCORING_CONFIG.minScore,
+    maxScore: hasValidRange ? stored.maxScore as number : DEFAULT_SCORING_CONFIG.maxScore,
+  };
+};
+
+// The survey answers behind a baseline score
+export interface BaselineScoreBreakdown {
+  score: number;
+  sharedTopics: string[]; // Meal-talk topics both picked
+  sameConversationPace: string | null; // The pace both picked, if they picked the same one
+  sharedDiningHalls: string[];
+}
+
+// Why two people were matched, stored on the match so the dashboard can show it.
+// Fields are null rather than missing because Firestore rejects undefined.
+export interface MatchReasons {
+  sharedTopics: string[];
+  sameConversationPace: string | null;
+  sharedDiningHalls: string[];
+  sharedFreeMinutes: number | null; // Free time in common in the matched week; null when not known
+  mutualFriendIds: string[]; // Friends they have in common
+}
+
+// Each answered question adds its weight times how well the answers go together, and the total
+// is scaled to 0-10 and clamped to the configured range
+const scoreSurveys = (survey1: UserSurveyData, survey2: UserSurveyData, config: ScoringConfig): number => {
+  const strategy = SCORING_STRATEGIES[config.strategy] ?? SCORING_STRATEGIES[DEFAULT_SCORING_CONFIG.strategy];
+  let points = 0;
+  let maxPoints = 0;
+  (Object.keys(strategy.dimensions) as ScoringDimension[]).forEach(dimension => {
+    const fit = strategy.dimensions[dimension](survey1, survey2);
+    const weight = config.weights[dimension] ?? 0;
+    if (fit === null || weight === 0) return;
+    points += fit * weight;
+    maxPoints += weight;
+  });
+
+  // If not enough data for comparison, return middle score
+  if (maxPoints === 0) return NEUTRAL_SCORE;
+  return Math.max(config.minScore, Math.min(config.maxScore, Math.round((points / maxPoints) * 10)));
+};
+
+// Calculate baseline score based on survey agreement, along with the answers both share
+export const getBaselineScoreBreakdown = (
+  user1: UserProfile,
+  user2: UserProfile,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): BaselineScoreBreakdown => {
+  const survey1 = user1.surveyData;
+  const survey2 = user2.surveyData;
+  if (!survey1 || !survey2) {
+    return { score: NEUTRAL_SCORE, sharedTopics: [], sameConversationPace: null, sharedDiningHalls: [] };
+  }
+  return {
+    score: scoreSurveys(survey1, survey2, config),
+    sharedTopics: (survey1.mealTalkPreferences ?? []).filter(pref => (survey2.mealTalkPreferences ?? []).includes(pref)),
+    sameConversationPace: survey1.conversationPace && survey1.conversationPace === survey2.conversationPace
+      ? survey1.conversationPace
+      : null,
+    sharedDiningHalls: (survey1.favoriteDiningHalls ?? []).filter(hall => (survey2.favoriteDiningHalls ?? []).includes(hall)),
+  };
+};
+
+export const calculateBaselineScore = (
+  user1: UserProfile,
+  user2: UserProfile,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): number => getBaselineScoreBreakdown(user1, user2, config).score;
+
+// Baseline scores for every pair in a group, keyed by getPairKey; neutral when either profile is missing
+export const getBaselineScores = (
+  userIds: string[],
+  profiles: Record<string, UserProfile>,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): Record<string, number> => {
+  const uniqueIds = Array.from(new Set(userIds));
+  const scores: Record<string, number> = {};
+  uniqueIds.forEach((userId1, i) => {
+    uniqueIds.slice(i + 1).forEach(userId2 => {
+      const profile1 = profiles[userId1];
+      const profile2 = profiles[userId2];
+      scores[getPairKey(userId1, userId2)] = profile1 && profile2 ? calculateBaselineScore(profile1, profile2, config) : NEUTRAL_SCORE;
+    });
+  });
+  return scores;
+};
+
+// The survey overlap plus what only the matcher knows: the free time two people share that week
+// (`sharedSlots`, null if unknown) and the friends they have in common
+export const getMatchReasons = (
+  user1: UserProfile,
+  user2: UserProfile,
+  sharedSlots: Record<string, string[]> | null
+): MatchReasons => {
+  const { sharedTopics, sameConversationPace, sharedDiningHalls } = getBaselineScoreBreakdown(user1, user2);
+  const user2Friends = user2.friends ?? [];
+  return {
+    sharedTopics,
+    sameConversationPace,
+    sharedDiningHalls,
+    sharedFreeMinutes: sharedSlots
+      ? Object.values(sharedSlots).reduce((count, times) => count + times.length, 0) * TIME_SLOT_MINUTES
+      : null,
+    mutualFriendIds: (user1.friends ?? []).filter(uid => user2Friends.includes(uid) && uid !== user1.uid && uid !== user2.uid),
+  };
+};
+
+const formatFreeTime = (minutes: number): string =>
+  minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+
+// One line per reason that applies, for the match card
+export const describeMatchReasons = (reasons: MatchReasons): string[] => {
+  const lines: string[] = [];
+  if (reasons.sharedTopics.length > 0) lines.push(`Shared meal-talk topics: ${reasons.sharedTopics.join(', ')}`);
+  if (reasons.sameConversationPace) lines.push(`Same conversation pace: ${reasons.sameConversationPace}`);
+  if (reasons.sharedDiningHalls.length > 0) lines.push(`Favorite dining halls in common: ${reasons.sharedDiningHalls.join(', ')}`);
+  if (reasons.sharedFreeMinutes) lines.push(`${formatFreeTime(reasons.sharedFreeMinutes)} of free time in common this week`);
+  if (reasons.mutualFriendIds.length > 0) {
+    lines.push(`${reasons.mutualFriendIds.length} friend${reasons.mutualFriendIds.length === 1 ? '' : 's'} in common`);
+  }
+  return lines;
+};
@@ -0,0 +1,108 @@
+// Splitting a large event's participants into tables of compatible people
+import type { Timestamp } from 'firebase/firestore';
+
+export const SEATING_MIN_PARTICIPANTS = 12; // Smaller events fit around one or two tables on their own
+export const DEFAULT_TABLE_SIZE = 6;
+export const MIN_TABLE_SIZE = 2;
+export const MAX_TABLE_SIZE = 12;
+
+// Friends count for as much as a perfect priority score, so they tend to end up together
+export const FRIEND_PAIR_BONUS = 10;
+
+// Local search stops after this many passes even if swaps could still help
+const MAX_IMPROVEMENT_PASSES = 50;
+
+export interface EventSeating {
+  tableSize: number;
+  tables: string[][]; // Participant UIDs per table; table numbers shown to people are index + 1
+  seatedAt: Timestamp;
+}
+
+// Key for an unordered pair of users
+export const getPairKey = (userId1: string, userId2: string): string =>
+  userId1 < userId2 ? `${userId1}_${userId2}` : `${userId2}_${userId1}`;
+
+// How much two people should share a table
+export type PairScore = (userId1: string, userId2: string) => number;
+
+// Table sizes that differ by at most one, e.g. 14 people at tables of 6 -> 5, 5, 4
+export const getTableSizes = (participantCount: number, tableSize: number): number[] => {
+  if (participantCount === 0) return [];
+  const tableCount = Math.ceil(participantCount / tableSize);
+  const baseSize = Math.floor(participantCount / tableCount);
+  const largerTables = participantCount % tableCount;
+  return Array.from({ length: tableCount }, (_, index) => baseSize + (index < largerTables ? 1 : 0));
+};
+
+const getTableScore = (table: string[], pairScore: PairScore): number => {
+  let total = 0;
+  for (let i = 0; i < table.length; i++) {
+    for (let j = i + 1; j < table.length; j++) {
+      total += pairScore(table[i], table[j]);
+    }
+  }
+  return total;
+};
+
+export const getSeatingScore = (tables: string[][], pairScore: PairScore): number =>
+  tables.reduce((sum, table) => sum + getTableScore(table, pairScore), 0);
+
+// Sum of a person's scores with everyone at a table except `excluded`
+const getAffinity = (userId: string, table: string[], pairScore: PairScore, excluded: string): number =>
+  table.reduce((sum, other) => (other === userId || other === excluded ? sum : sum + pairScore(userId, other)), 0);
+
+// Partition participants into balanced tables maximizing the total pairwise score within tables.
+// Tables are seeded greedily (each person joins the open table they like best), then people are
+// swapped between tables while that raises the total. Deterministic for a given input order.
+export const assignTables = (participants: string[], tableSize: number, pairScore: PairScore): string[][] => {
+  const sizes = getTableSizes(participants.length, tableSize);
+  const tables: string[][] = sizes.map(() => []);
+
+  // Seat the best-connected people first so they anchor tables
+  const connectedness = new Map(participants.map(uid => [uid, getAffinity(uid, participants, pairScore, uid)]));
+  const order = [...participants].sort((a, b) => (connectedness.get(b) ?? 0) - (connectedness.get(a) ?? 0));
+
+  order.forEach(userId => {
+    let bestTable = -1;
+    let bestAffinity = -Infinity;
+    tables.forEach((table, index) => {
+      if (table.length >= sizes[index]) return;
+      // Prefer empty tables over weak fits so the seeds spread out
+      const affinity = table.length === 0 ? 0 : getAffinity(userId, table, pairScore, userId) / table.length;
+      if (affinity > bestAffinity) {
+        bestAffinity = affinity;
+        bestTable = index;
+      }
+    });
+    tables[bestTable].push(userId);
+  });
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+    for (let a = 0; a < tables.length; a++) {
+      for (let b = a + 1; b < tables.length; b++) {
+        for (let i = 0; i < tables[a].length; i++) {
+          for (let j = 0; j < tables[b].length; j++) {
+            const userA = tables[a][i];
+            const userB = tables[b][j];
+            const gain =
+              getAffinity(userA, tables[b], pairScore, userB) + getAffinity(userB, tables[a], pairScore, userA) -
+              getAffinity(userA, tables[a], pairScore, userA) - getAffinity(userB, tables[b], pairScore, userB);
+            if (gain > 0) {
+              tables[a][i] = userB;
+              tables[b][j] = userA;
+              improved = true;
+            }
+          }
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return tables;
+};
+
+// Index of the table a user sits at, or -1
+export const findUserTable = (seating: Pick<EventSeating, 'tables'>, userId: string): number =>
+  seating.tables.findIndex(table => table.includes(userId));
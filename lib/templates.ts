@@ -0,0 +1,39 @@
+// Reusable event templates: the parts of an event that stay the same from one meetup to the next
+import type { Timestamp } from 'firebase/firestore';
+import type { EventData } from './api';
+import type { EventLocation } from './locations';
+import type { EventVisibility } from './visibility';
+
+export interface EventTemplate {
+  id?: string;
+  ownerId: string; // User UID
+  name: string;
+  description: string;
+  tags: string[];
+  durationMinutes: number;
+  capacity: number;
+  location: EventLocation | null; // Null means "location TBD"
+  visibility: EventVisibility;
+  sharedWith: string[]; // UIDs of other organizers who can start events from this template
+  createdAt: Timestamp;
+}
+
+export type EventTemplateFields = Omit<EventTemplate, 'id' | 'ownerId' | 'sharedWith' | 'createdAt'>;
+
+export const getTemplateFields = (
+  event: Pick<EventData, 'name' | 'description' | 'tags' | 'start' | 'end' | 'capacity' | 'location' | 'visibility'>
+): EventTemplateFields => ({
+  name: event.name,
+  description: event.description ?? '',
+  tags: event.tags ?? [],
+  durationMinutes: Math.round((event.end.toMillis() - event.start.toMillis()) / 60000),
+  capacity: event.capacity,
+  location: event.location ?? null,
+  visibility: event.visibility ?? 'public',
+});
+
+// Templates the user owns first, then ones shared with them, each alphabetical
+export const sortTemplates = (templates: EventTemplate[], userId: string): EventTemplate[] =>
+  [...templates].sort((a, b) =>
+    Number(b.ownerId === userId) - Number(a.ownerId === userId) || a.name.localeCompare(b.name)
+  );
@@ -0,0 +1,48 @@
+// Validation rules shared by the event forms and the event API functions
+import type { EventLocation } from './locations';
+
+export interface EventFields {
+  name: string;
+  start: Date | null;
+  end: Date | null;
+  capacity: number | '' | null;
+  location?: EventLocation;
+}
+
+export interface EventFieldErrors {
+  name?: string;
+  start?: string;
+  end?: string;
+  capacity?: string;
+  location?: string;
+}
+
+export const validateEventFields = (fields: EventFields): EventFieldErrors => {
+  const errors: EventFieldErrors = {};
+  if (!fields.name.trim()) errors.name = 'Name is required.';
+  if (!fields.start) errors.start = 'Start date and time are required.';
+  if (!fields.end) errors.end = 'End date and time are required.';
+  if (fields.start && fields.end && fields.end <= fields.start) errors.end = 'End time must be after start time.';
+  if (fields.capacity === '' || fields.capacity === null) errors.capacity = 'Capacity is required.';
+  else if (Number(fields.capacity) < 1) errors.capacity = 'Capacity must be at least 1.';
+  if (fields.location?.type === 'custom' && !fields.location.name.trim()) {
+    errors.location = 'Enter where the event takes place.';
+  }
+  return errors;
+};
+
+// First error message, or null when the fields are valid
+export const getEventValidationError = (fields: EventFields): string | null => {
+  const errors = validateEventFields(fields);
+  const [firstError] = Object.values(errors);
+  return firstError ?? null;
+};
+
+export const MAX_COMMENT_LENGTH = 1000;
+
+export const getCommentValidationError = (text: string): string | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return 'Comment cannot be empty.';
+  if (trimmed.length > MAX_COMMENT_LENGTH) return `Comments can be at most ${MAX_COMMENT_LENGTH} characters.`;
+  return null;
+};
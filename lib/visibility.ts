@@ -0,0 +1,50 @@
+// Who may see and join an event
+import type { EventData } from './api';
+import { isEventHost } from './hosts';
+
+export type EventVisibility = 'public' | 'friends' | 'invite';
+
+export const EVENT_VISIBILITY_OPTIONS: { value: EventVisibility; label: string; description: string }[] = [
+  { value: 'public', label: 'Public', description: 'Anyone can find and join this event.' },
+  { value: 'friends', label: 'Friends only', description: 'Only people on your friends list can find and join.' },
+  { value: 'invite', label: 'Invite only', description: 'Hidden from the event list. Share the invite link with guests.' },
+];
+
+// Events created before visibility existed are public
+export const getEventVisibility = (event: Pick<EventData, 'visibility'>): EventVisibility =>
+  event.visibility ?? 'public';
+
+type VisibilityFields = Pick<EventData, 'visibility' | 'creator' | 'participants' | 'waitlist'> &
+  Partial<Pick<EventData, 'rsvps' | 'coHosts'>>;
+
+// The hosts and anyone who already responded or is waitlisted keep access whatever the setting
+const isInvolvedInEvent = (event: VisibilityFields, viewerId: string): boolean =>
+  isEventHost(event, viewerId) ||
+  event.participants.includes(viewerId) ||
+  event.waitlist.includes(viewerId) ||
+  !!event.rsvps?.[viewerId];
+
+// Whether deciding access requires the creator's friends list (so callers can skip the lookup)
+export const needsCreatorFriends = (event: VisibilityFields, viewerId: string | null): boolean =>
+  getEventVisibility(event) === 'friends' && !!viewerId && !isInvolvedInEvent(event, viewerId);
+
+// `hasValidInvite` is whether the viewer arrived through this event's invite link; the caller
+// checks the token, since it isn't stored on the event. Invite-only events never show up in lists
+// because list viewers have no invite. The server filters event lists with this (see
+// getVisibleEventPage in lib/adminApi.ts) and firestore.rules applies the same checks to reads.
+export const canViewEvent = (
+  event: VisibilityFields,
+  viewerId: string | null,
+  creatorFriends: string[] = [],
+  hasValidInvite = false
+): boolean => {
+  const visibility = getEventVisibility(event);
+  if (visibility === 'public') return true;
+  if (visibility === 'invite' && hasValidInvite) return true;
+  if (!viewerId) return false;
+  if (isInvolvedInEvent(event, viewerId)) return true;
+  return visibility === 'friends' && creatorFriends.includes(viewerId);
+};
+
+export const buildInviteLink = (baseUrl: string, eventId: string, inviteToken: string): string =>
+  `${baseUrl}/events/${eventId}?invite=${encodeURIComponent(inviteToken)}`;